@@ -38,6 +38,8 @@
  * - "API key", "token", "auth", "credentials" → manage_auth
  * - "my saved APIs", "switch API", "sessions" → manage_session
  * - "find local APIs", "scan for specs" → discover_apis (RARE)
+ * - "code for this endpoint", "curl command", "Python/Go/TS client" → generate_code
+ * - "mock the API", "no backend yet", "work offline" → mock_server (or call_api mock=true)
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
@@ -45,30 +47,39 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  SetLevelRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { callApi } from "./tools/call-api.js";
 import { describeApi } from "./tools/describe-api.js";
 import { discoverApis } from "./tools/discover-apis.js";
+import { generateCode } from "./tools/generate-code.js";
 import { initApi } from "./tools/init-api.js";
 import { listOperations } from "./tools/list-operations.js";
 import { manageAuth } from "./tools/manage-auth.js";
 import { manageSession } from "./tools/manage-session.js";
+import { mockServer } from "./tools/mock-server.js";
 import {
   CallApiSchema,
   DescribeApiSchema,
   DiscoverApisSchema,
+  GenerateCodeSchema,
   InitApiSchema,
   ListOperationsSchema,
   ManageAuthSchema,
   ManageSessionSchema,
+  MockServerSchema,
   type CallApiParams,
   type DescribeApiParams,
   type DiscoverApisParams,
+  type GenerateCodeParams,
   type InitApiParams,
   type ListOperationsParams,
   type ManageAuthParams,
   type ManageSessionParams,
+  type MockServerParams,
 } from "./types/index.js";
+import { logger } from "./utils/logger.js";
+import { mockServerManager } from "./utils/mock-server.js";
 
 class UniversalOpenApiMcp {
   private server: Server;
@@ -82,11 +93,14 @@ class UniversalOpenApiMcp {
       {
         capabilities: {
           tools: {},
+          logging: {},
         },
       }
     );
 
+    logger.attachServer(this.server);
     this.setupToolHandlers();
+    this.setupLogging();
     this.setupErrorHandling();
   }
 
@@ -128,7 +142,7 @@ class UniversalOpenApiMcp {
           {
             name: "manage_auth",
             description:
-              "🔐 AUTH CONFIGURATOR: Configure API authentication. USE WHEN: User mentions API keys, tokens, authentication, or API calls fail with auth errors (401/403). Usually called after init_api detects auth requirements. Set up once per API source, persists for subsequent calls. Handles API key, Bearer, Basic, OAuth2.",
+              "🔐 AUTH CONFIGURATOR: Configure API authentication. USE WHEN: User mentions API keys, tokens, authentication, or API calls fail with auth errors (401/403). Usually called after init_api detects auth requirements. Set up once per API source, persists for subsequent calls (secrets encrypted, or referenced as ${env:...}/${file:...}). Handles API key (header, query or cookie), Bearer, Basic, OAuth2 (access token, client credentials, or browser login with authorization code + PKCE), AWS Signature V4, HMAC request signing, HTTP Digest, and login-operation tokens (calls the spec's login endpoint and re-logs in on 401). Credentials can be set per security scheme of the spec and saved as named profiles (e.g. admin vs user).",
             inputSchema: ManageAuthSchema.shape,
           },
           {
@@ -137,6 +151,18 @@ class UniversalOpenApiMcp {
               "🚀 API EXECUTOR: Make actual API requests using OpenAPI specs. PRIMARY USE: When user wants to execute specific API operations, test endpoints, or get real data. Requires docs_path (OpenAPI spec URL/path) and operation_id. This is the main ACTION tool for calling APIs defined in OpenAPI specifications.",
             inputSchema: CallApiSchema.shape,
           },
+          {
+            name: "generate_code",
+            description:
+              "🧩 CODE GENERATOR: Generate ready-to-paste client code for an operation in curl, TypeScript (fetch), Python (requests) and Go (net/http). USE WHEN: User wants to move from exploring an API to real code, asks 'how do I call this from Python/Go/TypeScript', or wants a curl command. Fills path/query/header/body parameters and adds auth placeholders.",
+            inputSchema: GenerateCodeSchema.shape,
+          },
+          {
+            name: "mock_server",
+            description:
+              "🎭 MOCK SERVER: Serve an OpenAPI spec from a local HTTP server that answers with responses built from the spec's examples and schemas. USE WHEN: The real backend is unavailable, not built yet, or should not be touched. Validates path/query/body values and honors 'Prefer: code=404' / 'Prefer: example=NAME' headers. Point call_api's base_url at it, or use call_api mock=true for single calls.",
+            inputSchema: MockServerSchema.shape,
+          },
         ],
       };
     });
@@ -183,11 +209,23 @@ class UniversalOpenApiMcp {
             const authParams = ManageAuthSchema.parse(args) as ManageAuthParams;
             return await manageAuth(authParams);
 
+          case "generate_code":
+            const codeParams = GenerateCodeSchema.parse(
+              args
+            ) as GenerateCodeParams;
+            return await generateCode(codeParams);
+
+          case "mock_server":
+            const mockParams = MockServerSchema.parse(
+              args
+            ) as MockServerParams;
+            return await mockServer(mockParams);
+
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
       } catch (error) {
-        console.error(`Error executing tool ${name}:`, error);
+        logger.error(`Error executing tool ${name}`, error);
 
         // If it's a validation error, provide helpful feedback
         if (error instanceof Error && error.name === "ZodError") {
@@ -236,7 +274,8 @@ class UniversalOpenApiMcp {
               helpText += `- User says "call X", "execute Y", "test endpoint Z"\n`;
               helpText += `**Examples:**\n`;
               helpText += `- \`call_api docs_path="api.yaml" operation_id="listUsers"\`\n`;
-              helpText += `- \`call_api docs_path="https://api.com/spec.json" operation_id="getUser" parameters='{"id": 123}'\``;
+              helpText += `- \`call_api docs_path="https://api.com/spec.json" operation_id="getUser" parameters='{"id": 123}'\`\n`;
+              helpText += `- \`call_api docs_path="api.yaml" operation_id="listUsers" compare_profiles='["admin", "user", "none"]'\` (permission check across credential profiles)`;
               break;
 
             case "describe_api":
@@ -252,7 +291,32 @@ class UniversalOpenApiMcp {
               helpText += `- API calls fail with 401/403 errors\n`;
               helpText += `**Examples:**\n`;
               helpText += `- \`manage_auth docs_path="api.yaml" auth_type="apiKey" config='{"headerName": "X-API-Key", "apiKey": "key123"}'\`\n`;
-              helpText += `- \`manage_auth docs_path="api.yaml" auth_type="bearer" config='{"token": "token123"}'\``;
+              helpText += `- \`manage_auth docs_path="api.yaml" auth_type="bearer" config='{"token": "token123"}'\`\n`;
+              helpText += `- \`manage_auth docs_path="api.yaml" auth_type="apiKey" scheme="api_key" config='{"apiKey": "key123"}'\` (location and name from the spec)\n`;
+              helpText += `- \`manage_auth docs_path="api.yaml" auth_type="oauth2" config='{"clientId": "id", "clientSecret": "secret"}'\` (client credentials; token URL and scopes from the spec)\n`;
+              helpText += `- \`manage_auth docs_path="api.yaml" auth_type="oauth2" config='{"grantType": "authorization_code", "clientId": "id"}'\` (browser login; open the returned URL)\n`;
+              helpText += `- \`manage_auth docs_path="api.yaml" auth_type="bearer" config='{"token": "\${env:API_TOKEN}"}'\` (secret resolved per request, never stored)\n`;
+              helpText += `- \`manage_auth docs_path="api.yaml" auth_type="sigv4" config='{"accessKeyId": "\${env:AWS_ACCESS_KEY_ID}", "secretAccessKey": "\${env:AWS_SECRET_ACCESS_KEY}", "region": "us-east-1"}'\` (API Gateway IAM auth)\n`;
+              helpText += `- \`manage_auth docs_path="api.yaml" auth_type="hmac" config='{"secret": "\${env:PARTNER_SECRET}", "keyId": "partner-42", "header": "Authorization", "template": "HMAC {keyId}:{signature}"}'\` (signs method, path, timestamp and body)\n`;
+              helpText += `- \`manage_auth docs_path="api.yaml" auth_type="digest" config='{"username": "user", "password": "pass"}'\` (HTTP Digest)\n`;
+              helpText += `- \`manage_auth docs_path="api.yaml" auth_type="login" config='{"operationId": "login", "parameters": "{\\"body\\": {\\"username\\": \\"me\\", \\"password\\": \\"\${env:APP_PASSWORD}\\"}}", "tokenPath": "data.token"}'\` (logs in by calling the login operation; again after a 401)\n`;
+              helpText += `- \`manage_auth docs_path="api.yaml" auth_type="bearer" profile="readonly" config='{"token": "token456"}'\` (named profile; \`call_api auth_profile="readonly"\`)`;
+              break;
+
+            case "generate_code":
+              helpText += `- User wants client code or a curl command for an operation\n`;
+              helpText += `- User is moving from exploring the API to writing code\n`;
+              helpText += `**Examples:**\n`;
+              helpText += `- \`generate_code docs_path="api.yaml" operation_id="createUser"\`\n`;
+              helpText += `- \`generate_code docs_path="api.yaml" operation_id="getUser" targets='["python", "go"]' parameters='{"id": 123}'\``;
+              break;
+
+            case "mock_server":
+              helpText += `- User wants to try an API without a running backend\n`;
+              helpText += `- User wants canned error responses to test against\n`;
+              helpText += `**Examples:**\n`;
+              helpText += `- \`mock_server action="start" docs_path="api.yaml"\`\n`;
+              helpText += `- \`mock_server action="stop" port=4010\``;
               break;
           }
 
@@ -280,13 +344,23 @@ class UniversalOpenApiMcp {
     });
   }
 
+  private setupLogging(): void {
+    // Clients choose which log notifications they receive
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      logger.setClientLevel(request.params.level);
+      logger.info(`Client log level set to ${request.params.level}`);
+      return {};
+    });
+  }
+
   private setupErrorHandling(): void {
     this.server.onerror = (error) => {
-      console.error("[MCP Error]", error);
+      logger.error("MCP error", error);
     };
 
     process.on("SIGINT", async () => {
-      console.log("Shutting down Universal OpenAPI MCP server...");
+      logger.info("Shutting down Universal OpenAPI MCP server...");
+      await mockServerManager.stopAll();
       await this.server.close();
       process.exit(0);
     });
@@ -296,14 +370,14 @@ class UniversalOpenApiMcp {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
 
-    console.error("Universal OpenAPI MCP server started");
-    console.error("Ready to discover and work with OpenAPI specifications!");
+    logger.info("Universal OpenAPI MCP server started");
+    logger.info("Ready to discover and work with OpenAPI specifications!");
   }
 }
 
 // Create and run the server
 const server = new UniversalOpenApiMcp();
 server.run().catch((error) => {
-  console.error("Failed to start Universal OpenAPI MCP server:", error);
+  logger.error("Failed to start Universal OpenAPI MCP server", error);
   process.exit(1);
 });
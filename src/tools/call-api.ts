@@ -1,32 +1,64 @@
 import {
   CallToolResult,
+  EmbeddedResource,
+  ImageContent,
   TextContent,
 } from "@modelcontextprotocol/sdk/types.js";
-import * as path from "path";
-import type { AuthConfig, CallApiParams } from "../types/index.js";
-import { OpenApiDiscovery } from "../utils/discovery.js";
-import { formatQueryParameters, formatSchema } from "../utils/formatters.js";
+import { pathToFileURL } from "url";
+import type {
+  ApiCallResult,
+  AuthConfig,
+  CallApiParams,
+  PreparedRequest,
+} from "../types/index.js";
+import { createHistoryEntry } from "../utils/call-history.js";
+import {
+  maskPreparedRequest,
+  toCurl,
+  toFetch,
+  toHttpie,
+} from "../utils/code-snippets.js";
+import {
+  formatBytes,
+  formatContractReport,
+  formatQueryParameters,
+  formatSchema,
+} from "../utils/formatters.js";
+import {
+  NO_AUTH_PROFILE,
+  profileSessionKey,
+} from "../utils/http-client.js";
+import { logger } from "../utils/logger.js";
+import { mockOperationCall, parsePreferHeader } from "../utils/mock-engine.js";
+import {
+  extractBodyData,
+  resolveRequestContentType,
+} from "../utils/request-body.js";
+import {
+  fetchAllPages,
+  paginationOptionsFromParams,
+} from "../utils/paginator.js";
+import { retryPolicyFromParams } from "../utils/retry-policy.js";
+import {
+  checkResponseContract,
+  schemaDialect,
+  validateRequest,
+} from "../utils/schema-validator.js";
+import { apiKeyNames } from "../utils/security.js";
+import { sessionManager } from "../utils/session-manager.js";
+import { specCache } from "../utils/spec-cache.js";
 import { getHttpClient } from "./manage-auth.js";
 
+const log = logger.child("call_api");
+
 export async function callApi(params: CallApiParams): Promise<CallToolResult> {
   try {
-    const discovery = new OpenApiDiscovery();
     const httpClient = getHttpClient();
 
-    // Parse API specification
-    let apiInfo;
-    if (
-      params.docs_path.startsWith("http://") ||
-      params.docs_path.startsWith("https://")
-    ) {
-      apiInfo = await discovery.parseOpenApiUrl(params.docs_path);
-    } else {
-      // Handle relative paths
-      const fullPath = path.isAbsolute(params.docs_path)
-        ? params.docs_path
-        : path.resolve(process.cwd(), params.docs_path);
-      apiInfo = await discovery.parseOpenApiFile(fullPath);
-    }
+    // Parse API specification (cached across calls)
+    const apiInfo = await specCache.getApiInfo(params.docs_path, {
+      forceRefresh: params.force_refresh,
+    });
 
     if (!apiInfo) {
       return {
@@ -63,6 +95,30 @@ export async function callApi(params: CallApiParams): Promise<CallToolResult> {
       };
     }
 
+    // Resolve the request body media type
+    let contentType = operation.requestBody?.contentType;
+    if (operation.requestBody && params.content_type) {
+      const resolved = resolveRequestContentType(
+        operation.requestBody,
+        params.content_type
+      );
+      if (!resolved) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ **Content type '${params.content_type}' is not declared for operation '${params.operation_id}'**\n\n**Declared request content types:**\n${Object.keys(
+                operation.requestBody.content
+              )
+                .map((type) => `- \`${type}\``)
+                .join("\n")}`,
+            } as TextContent,
+          ],
+        };
+      }
+      contentType = resolved.contentType;
+    }
+
     // Validate required parameters
     const missingParams: string[] = [];
     if (operation.parameters) {
@@ -78,7 +134,11 @@ export async function callApi(params: CallApiParams): Promise<CallToolResult> {
 
     if (
       operation.requestBody?.required &&
-      (!params.parameters || !params.parameters.body)
+      extractBodyData(
+        operation.requestBody,
+        params.parameters,
+        contentType
+      ) === undefined
     ) {
       missingParams.push("body (request body)");
     }
@@ -115,7 +175,9 @@ export async function callApi(params: CallApiParams): Promise<CallToolResult> {
         if (operation.requestBody.description) {
           response += `${operation.requestBody.description}\n`;
         }
-        response += `Content-Type: ${operation.requestBody.contentType}\n`;
+        response += `Content-Type: ${Object.keys(
+          operation.requestBody.content
+        ).join(", ")}\n`;
       }
 
       return {
@@ -128,6 +190,68 @@ export async function callApi(params: CallApiParams): Promise<CallToolResult> {
       };
     }
 
+    // Validate parameter and body values against their schemas
+    const dialect = schemaDialect(apiInfo.specVersion);
+    if (params.validate_request) {
+      const issues = validateRequest(
+        operation,
+        params.parameters,
+        params.content_type,
+        dialect
+      );
+      if (issues.length > 0) {
+        let response = `❌ **Request validation failed for operation '${params.operation_id}'**\n\n`;
+        response += `**Errors:**\n`;
+        response += issues
+          .map((issue) => `- \`${issue.path}\`: ${issue.message}`)
+          .join("\n");
+        response += `\n\nNothing was sent. Fix the values above and retry, or set \`validate_request: false\` to send the request anyway.`;
+        return {
+          content: [
+            {
+              type: "text",
+              text: response,
+            } as TextContent,
+          ],
+        };
+      }
+    }
+
+    // Mock calls are answered from the spec alone
+    if (params.mock) {
+      const result = mockOperationCall(
+        operation,
+        parsePreferHeader(params.mock_prefer)
+      );
+      let response = `## API Call Result (Mock)\n\n`;
+      response += `**Operation:** ${params.operation_id}\n`;
+      response += `**Method:** ${operation.method}\n`;
+      response += `**Path:** ${operation.path}\n`;
+      response += `**Status Code:** ${result.statusCode}\n`;
+      response += `**Documented As:** ${result.headers?.["x-mock-response"]}\n\n`;
+      response += `Nothing was sent; the response was built from the spec's examples and schemas.\n\n`;
+
+      const contract = checkResponseContract(operation, result, dialect);
+      if (contract) {
+        response += formatContractReport(contract);
+      }
+      if (result.data !== undefined) {
+        response += `**Response Data:**\n`;
+        response +=
+          typeof result.data === "string"
+            ? `\`\`\`\n${result.data}\n\`\`\`\n`
+            : `\`\`\`json\n${formatSchema(result.data)}\n\`\`\`\n`;
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: response,
+          } as TextContent,
+        ],
+      };
+    }
+
     // Determine base URL - prioritize provided base_url, then use OpenAPI servers
     let baseUrl = params.base_url || apiInfo.servers?.[0];
     if (!baseUrl) {
@@ -141,44 +265,274 @@ export async function callApi(params: CallApiParams): Promise<CallToolResult> {
       };
     }
 
-    // Setup authentication - use managed auth or provided auth
+    // Setup authentication - use managed auth (the default or the requested
+    // profile) or provided auth
     let authConfig: AuthConfig | undefined = httpClient.getAuthConfig(
-      params.docs_path
+      params.docs_path,
+      params.auth_profile
     );
+    let inlineAuth = false;
 
-    if (params.auth_config && !authConfig) {
+    if (
+      params.auth_config &&
+      !authConfig &&
+      params.auth_profile === undefined
+    ) {
       // Use provided auth config if no managed auth is set
       authConfig = {
         type: params.auth_config.type as AuthConfig["type"],
         config: params.auth_config,
       };
+      inlineAuth = true;
     }
 
-    // Make the API call
-    console.log(
-      `Calling ${operation.method} ${operation.path} with parameters:`,
-      params.parameters
-    );
-    const result = await httpClient.callOperation(
-      baseUrl,
-      operation,
-      params.parameters,
-      authConfig
+    // Per-call request settings override the session defaults
+    const session = sessionManager.findSessionForSource(params.docs_path);
+    const requestDefaults = session?.requestDefaults;
+
+    // Sending without the session's credentials would only fail with a 401
+    if (
+      !authConfig &&
+      params.auth_profile !== NO_AUTH_PROFILE &&
+      session &&
+      sessionManager.hasLockedCredentials(session.id)
+    ) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `🔒 **Stored credentials are locked**\n\n${sessionManager.credentialStoreError()}`,
+          } as TextContent,
+        ],
+      };
+    }
+
+    const unknownProfiles = [
+      params.auth_profile,
+      ...(params.compare_profiles ?? []),
+    ].filter(
+      (profile): profile is string =>
+        profile !== undefined &&
+        profile !== NO_AUTH_PROFILE &&
+        !httpClient.getAuthConfig(params.docs_path, profile)
     );
+    if (unknownProfiles.length > 0) {
+      const available = Object.keys(
+        httpClient.listAuthProfiles(params.docs_path)
+      );
+      let response = `❌ **Unknown auth profile: ${unknownProfiles.join(", ")}**\n\n`;
+      response +=
+        available.length > 0
+          ? `**Profiles for this API:** ${[...available, NO_AUTH_PROFILE].join(
+              ", "
+            )}\n`
+          : `No profiles are saved for this API; \`${NO_AUTH_PROFILE}\` calls without credentials.\n`;
+      response += `\nSave one with \`manage_auth docs_path="${params.docs_path}" profile="NAME" ...\``;
+      return {
+        content: [
+          {
+            type: "text",
+            text: response,
+          } as TextContent,
+        ],
+      };
+    }
+
+    // Make the API call. Values may be secrets under any name, so only the
+    // names are logged.
+    log.info(`Calling ${operation.method} ${operation.path}`, {
+      operationId: operation.operationId,
+      parameters: Object.keys(params.parameters ?? {}),
+    });
+    const requestOptions = {
+      contentType: params.content_type,
+      sessionKey: profileSessionKey(
+        session?.id ?? params.docs_path,
+        params.auth_profile
+      ),
+      timeoutMs: params.timeout_ms ?? requestDefaults?.timeoutMs,
+      retry: {
+        ...requestDefaults?.retry,
+        ...retryPolicyFromParams(params.retry),
+      },
+      binaryResponse: params.binary_response,
+      downloadDir: params.download_dir,
+    };
+    if (params.dry_run) {
+      const prepared = maskPreparedRequest(
+        await httpClient.prepareRequest(
+          baseUrl,
+          operation,
+          params.parameters,
+          authConfig,
+          requestOptions
+        ),
+        apiKeyNames(authConfig, operation)
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatDryRun(params.operation_id, prepared),
+          } as TextContent,
+        ],
+      };
+    }
+
+    if (params.compare_profiles) {
+      const runs: ProfileRun[] = [];
+      // One at a time, so the calls see the API in the same state
+      for (const profile of params.compare_profiles) {
+        const profileAuth = httpClient.getAuthConfig(params.docs_path, profile);
+        const result = await httpClient.callOperation(
+          baseUrl,
+          operation,
+          params.parameters,
+          profileAuth,
+          {
+            ...requestOptions,
+            sessionKey: profileSessionKey(
+              session?.id ?? params.docs_path,
+              profile
+            ),
+          }
+        );
+        const historyEntry = session
+          ? createHistoryEntry({
+              docsPath: params.docs_path,
+              operation,
+              baseUrl,
+              parameters: params.parameters,
+              contentType: params.content_type,
+              binaryResponse: params.binary_response,
+              downloadDir: params.download_dir,
+              authConfig: profileAuth,
+              result,
+              authProfile: profile,
+            })
+          : undefined;
+        if (session && historyEntry) {
+          sessionManager.addHistoryEntry(session.id, historyEntry);
+        }
+        runs.push({ profile, result, historyId: historyEntry?.id });
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatProfileComparison(
+              params.operation_id,
+              operation.method,
+              operation.path,
+              runs
+            ),
+          } as TextContent,
+        ],
+      };
+    }
+
+    const result = params.paginate
+      ? await fetchAllPages(
+          httpClient,
+          baseUrl,
+          operation,
+          params.parameters,
+          authConfig,
+          requestOptions,
+          paginationOptionsFromParams(params.paginate)
+        )
+      : await httpClient.callOperation(
+          baseUrl,
+          operation,
+          params.parameters,
+          authConfig,
+          requestOptions
+        );
+
+    // Record the call with the session so it can be reviewed and replayed
+    const historyEntry = session
+      ? createHistoryEntry({
+          docsPath: params.docs_path,
+          operation,
+          baseUrl,
+          parameters: params.parameters,
+          contentType: params.content_type,
+          binaryResponse: params.binary_response,
+          downloadDir: params.download_dir,
+          pagination: params.paginate
+            ? paginationOptionsFromParams(params.paginate)
+            : undefined,
+          authConfig,
+          inlineAuth,
+          result,
+          authProfile: params.auth_profile,
+        })
+      : undefined;
+    if (session && historyEntry) {
+      sessionManager.addHistoryEntry(session.id, historyEntry);
+    }
 
     // Format response
     let response = `## API Call Result\n\n`;
     response += `**Operation:** ${params.operation_id}\n`;
     response += `**Method:** ${operation.method}\n`;
     response += `**Path:** ${operation.path}\n`;
+    if (params.auth_profile) {
+      response += `**Auth Profile:** ${params.auth_profile}\n`;
+    }
     response += `**Status:** ${result.success ? "✅ Success" : "❌ Failed"}\n`;
     response += `**Status Code:** ${result.statusCode}\n`;
-    response += `**Execution Time:** ${result.executionTime}ms\n\n`;
+    response += `**Execution Time:** ${result.executionTime}ms\n`;
+    if (historyEntry) {
+      response += `**History ID:** ${historyEntry.id}\n`;
+    }
+    response += `\n`;
 
     if (result.error) {
       response += `**Error:** ${result.error}\n\n`;
     }
 
+    if (result.attempts && result.attempts.length > 1) {
+      response += `**Attempts:**\n`;
+      for (const attempt of result.attempts) {
+        response += `  ${attempt.attempt}. ${
+          attempt.statusCode !== undefined
+            ? `HTTP ${attempt.statusCode}`
+            : attempt.error
+        } (${attempt.durationMs}ms)`;
+        if (attempt.retryDelayMs !== undefined) {
+          response += ` - retried after ${attempt.retryDelayMs}ms`;
+        } else if (attempt.tokenRefreshed) {
+          response += ` - retried with a new OAuth2 token`;
+        } else if (attempt.loggedInAgain) {
+          response += ` - retried after logging in again`;
+        } else if (attempt.digestChallenged) {
+          response += ` - retried answering the HTTP Digest challenge`;
+        }
+        response += `\n`;
+      }
+      response += `\n`;
+    }
+
+    // Merged pages no longer have the documented response shape
+    const contract = result.pagination
+      ? undefined
+      : checkResponseContract(operation, result, dialect);
+    if (contract) {
+      response += formatContractReport(contract);
+    }
+
+    if (result.pagination) {
+      const pagination = result.pagination;
+      response += `**Pagination:**\n`;
+      response += `- Pages Fetched: ${pagination.pages}\n`;
+      response += `- Items: ${pagination.items}${
+        pagination.truncated ? " (truncated to max_items)" : ""
+      }\n`;
+      response += `- Strategy: ${pagination.strategy}\n`;
+      response += `- Stopped: ${pagination.stopReason}\n\n`;
+    }
+
     if (result.headers) {
       response += `**Response Headers:**\n`;
       for (const [key, value] of Object.entries(result.headers)) {
@@ -187,8 +541,48 @@ export async function callApi(params: CallApiParams): Promise<CallToolResult> {
       response += `\n`;
     }
 
+    const extraContent: (ImageContent | EmbeddedResource)[] = [];
+    if (result.binary) {
+      const binary = result.binary;
+      response += `**Binary Response:**\n`;
+      response += `- Content-Type: \`${binary.contentType}\`\n`;
+      response += `- Size: ${formatBytes(binary.size)} (${binary.size} bytes)\n`;
+      response += `- File Name: ${binary.filename}\n`;
+      if (binary.savedPath) {
+        response += `- Saved To: \`${binary.savedPath}\`\n`;
+      }
+      if (binary.base64) {
+        response += `- Inline: attached below as ${
+          binary.contentType.startsWith("image/") ? "image" : "resource"
+        } content\n`;
+        extraContent.push(
+          binary.contentType.startsWith("image/")
+            ? {
+                type: "image",
+                data: binary.base64,
+                mimeType: binary.contentType,
+              }
+            : {
+                type: "resource",
+                resource: {
+                  uri: binary.savedPath
+                    ? pathToFileURL(binary.savedPath).href
+                    : `openapi-client-mcp://responses/${encodeURIComponent(
+                        binary.filename
+                      )}`,
+                  mimeType: binary.contentType,
+                  blob: binary.base64,
+                },
+              }
+        );
+      }
+      response += `\n`;
+    }
+
     if (result.data !== undefined) {
-      response += `**Response Data:**\n`;
+      response += result.pagination
+        ? `**Merged Items:**\n`
+        : `**Response Data:**\n`;
       if (typeof result.data === "string") {
         response += `\`\`\`\n${result.data}\n\`\`\`\n`;
       } else {
@@ -202,10 +596,11 @@ export async function callApi(params: CallApiParams): Promise<CallToolResult> {
           type: "text",
           text: response,
         } as TextContent,
+        ...extraContent,
       ],
     };
   } catch (error) {
-    console.error("Error calling API:", error);
+    log.error("Error calling API", error);
     return {
       content: [
         {
@@ -218,3 +613,95 @@ export async function callApi(params: CallApiParams): Promise<CallToolResult> {
     };
   }
 }
+
+interface ProfileRun {
+  profile: string;
+  result: ApiCallResult;
+  historyId?: string;
+}
+
+// Characters of each response shown in a profile comparison
+const COMPARISON_PREVIEW_LENGTH = 80;
+
+function previewResponse(result: ApiCallResult): string {
+  if (result.error && result.statusCode === undefined) return result.error;
+  if (result.binary) return `binary ${result.binary.contentType}`;
+  if (result.data === undefined) return "";
+  const text =
+    typeof result.data === "string" ? result.data : JSON.stringify(result.data);
+  const preview = text.replace(/\s+/g, " ").replace(/\|/g, "\\|");
+  return preview.length > COMPARISON_PREVIEW_LENGTH
+    ? `${preview.substring(0, COMPARISON_PREVIEW_LENGTH)}...`
+    : preview;
+}
+
+function formatProfileComparison(
+  operationId: string,
+  method: string,
+  path: string,
+  runs: ProfileRun[]
+): string {
+  let response = `## Profile Comparison\n\n`;
+  response += `**Operation:** ${operationId}\n`;
+  response += `**Method:** ${method}\n`;
+  response += `**Path:** ${path}\n\n`;
+
+  response += `| Profile | Status | Time | History ID | Response |\n`;
+  response += `|---|---|---|---|---|\n`;
+  for (const { profile, result, historyId } of runs) {
+    response += `| ${profile} | ${result.success ? "✅" : "❌"} ${
+      result.statusCode ?? "no response"
+    } | ${result.executionTime ?? 0}ms | ${historyId ?? "-"} | ${previewResponse(
+      result
+    )} |\n`;
+  }
+
+  // Profiles grouped by the status they got
+  const byStatus = new Map<string, string[]>();
+  for (const { profile, result } of runs) {
+    const status = String(result.statusCode ?? "no response");
+    byStatus.set(status, [...(byStatus.get(status) ?? []), profile]);
+  }
+  response += `\n**By Status:**\n`;
+  for (const [status, profiles] of byStatus) {
+    response += `- ${status}: ${profiles.join(", ")}\n`;
+  }
+  if (byStatus.size === 1 && runs.length > 1) {
+    response += `\n⚠️ Every profile got the same status; this operation does not distinguish between them.\n`;
+  }
+  return response;
+}
+
+function formatDryRun(operationId: string, request: PreparedRequest): string {
+  let response = `## Dry Run (not sent)\n\n`;
+  response += `**Operation:** ${operationId}\n`;
+  response += `**Method:** ${request.method}\n`;
+  response += `**URL:** ${request.url}\n\n`;
+
+  response += `**Headers** (secrets masked):\n`;
+  for (const [key, value] of Object.entries(request.headers)) {
+    response += `  ${key}: ${value}\n`;
+  }
+  response += `\n`;
+
+  if (request.multipart) {
+    response += `**Body** (multipart/form-data, secrets masked):\n`;
+    for (const part of request.multipart) {
+      response += part.path
+        ? `- \`${part.name}\`: file \`${part.path}\` as ${part.filename} (${
+            part.contentType ?? "application/octet-stream"
+          }, ${formatBytes(part.size ?? 0)})\n`
+        : `- \`${part.name}\`: ${part.value}${
+            part.contentType ? ` (${part.contentType})` : ""
+          }\n`;
+    }
+    response += `\n`;
+  } else if (request.body !== undefined) {
+    response += `**Body** (secrets masked):\n\`\`\`\n${request.body}\n\`\`\`\n\n`;
+  }
+
+  response += `### curl\n\`\`\`bash\n${toCurl(request)}\n\`\`\`\n\n`;
+  response += `### HTTPie\n\`\`\`bash\n${toHttpie(request)}\n\`\`\`\n\n`;
+  response += `### fetch\n\`\`\`javascript\n${toFetch(request)}\n\`\`\`\n`;
+  return response;
+}
@@ -2,34 +2,26 @@ import {
   CallToolResult,
   TextContent,
 } from "@modelcontextprotocol/sdk/types.js";
-import * as path from "path";
 import type { DescribeApiParams } from "../types/index.js";
-import { OpenApiDiscovery } from "../utils/discovery.js";
 import {
   formatOperationDetails,
   formatQueryParameters,
+  formatSecuritySchemes,
 } from "../utils/formatters.js";
+import { logger } from "../utils/logger.js";
+import { specCache } from "../utils/spec-cache.js";
+import { getHttpClient } from "./manage-auth.js";
+
+const log = logger.child("describe_api");
 
 export async function describeApi(
   params: DescribeApiParams
 ): Promise<CallToolResult> {
   try {
-    const discovery = new OpenApiDiscovery();
-
-    // Parse API specification
-    let apiInfo;
-    if (
-      params.docs_path.startsWith("http://") ||
-      params.docs_path.startsWith("https://")
-    ) {
-      apiInfo = await discovery.parseOpenApiUrl(params.docs_path);
-    } else {
-      // Handle relative paths
-      const fullPath = path.isAbsolute(params.docs_path)
-        ? params.docs_path
-        : path.resolve(process.cwd(), params.docs_path);
-      apiInfo = await discovery.parseOpenApiFile(fullPath);
-    }
+    // Parse API specification (cached across calls)
+    const apiInfo = await specCache.getApiInfo(params.docs_path, {
+      forceRefresh: params.force_refresh,
+    });
 
     if (!apiInfo) {
       return {
@@ -42,6 +34,8 @@ export async function describeApi(
       };
     }
 
+    const authConfig = getHttpClient().getAuthConfig(params.docs_path);
+
     // If specific operation is requested
     if (params.operation_id) {
       const operation = apiInfo.operations.find(
@@ -63,7 +57,11 @@ export async function describeApi(
       }
 
       // Detailed operation description
-      let response = formatOperationDetails(operation, params.docs_path);
+      let response = formatOperationDetails(
+        operation,
+        params.docs_path,
+        authConfig
+      );
       response += formatQueryParameters(operation.parameters ?? []);
       return {
         content: [
@@ -92,6 +90,8 @@ export async function describeApi(
       response += `\n`;
     }
 
+    response += formatSecuritySchemes(apiInfo.securitySchemes, authConfig);
+
     response += `## Overview\n`;
     response += `- **Total Operations:** ${apiInfo.operations.length}\n`;
 
@@ -168,7 +168,7 @@ export async function describeApi(
       ],
     };
   } catch (error) {
-    console.error("Error describing API:", error);
+    log.error("Error describing API", error);
     return {
       content: [
         {
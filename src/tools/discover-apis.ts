@@ -4,6 +4,9 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import type { DiscoverApisParams } from "../types/index.js";
 import { OpenApiDiscovery } from "../utils/discovery.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child("discover_apis");
 
 export async function discoverApis(
   params: DiscoverApisParams
@@ -12,7 +15,7 @@ export async function discoverApis(
     const discovery = new OpenApiDiscovery();
     const workspacePath = params.workspace_path || process.cwd();
 
-    console.log(`Discovering OpenAPI files in: ${workspacePath}`);
+    log.info(`Discovering OpenAPI files in: ${workspacePath}`);
     const apis = await discovery.discoverApis(
       workspacePath,
       params.recursive,
@@ -103,7 +106,7 @@ export async function discoverApis(
       ],
     };
   } catch (error) {
-    console.error("Error discovering APIs:", error);
+    log.error("Error discovering APIs", error);
     return {
       content: [
         {
@@ -0,0 +1,316 @@
+import {
+  CallToolResult,
+  TextContent,
+} from "@modelcontextprotocol/sdk/types.js";
+import * as path from "path";
+import type {
+  AuthConfig,
+  GenerateCodeParams,
+  OperationInfo,
+  PreparedRequest,
+  PreparedRequestPart,
+  SecuritySchemeInfo,
+} from "../types/index.js";
+import {
+  toCurl,
+  toFetch,
+  toGoNetHttp,
+  toPythonRequests,
+} from "../utils/code-snippets.js";
+import { exampleFromSchema } from "../utils/example-values.js";
+import { logger } from "../utils/logger.js";
+import { mimeTypeFromPath } from "../utils/mime-types.js";
+import {
+  extractBodyData,
+  isMultipartContentType,
+} from "../utils/request-body.js";
+import {
+  compatibleAuthTypes,
+  describeScheme,
+  signsRequest,
+} from "../utils/security.js";
+import { specCache } from "../utils/spec-cache.js";
+import { getHttpClient } from "./manage-auth.js";
+
+const log = logger.child("generate_code");
+
+const TARGETS = {
+  curl: { title: "curl", language: "bash", render: toCurl },
+  typescript: {
+    title: "TypeScript (fetch)",
+    language: "typescript",
+    render: toFetch,
+  },
+  python: {
+    title: "Python (requests)",
+    language: "python",
+    render: toPythonRequests,
+  },
+  go: { title: "Go (net/http)", language: "go", render: toGoNetHttp },
+};
+
+// Auth config with placeholder secrets, so generated code never contains
+// real credentials
+function placeholderAuth(
+  type: AuthConfig["type"],
+  configured?: AuthConfig
+): AuthConfig {
+  switch (type) {
+    case "apiKey":
+      return {
+        type,
+        config: {
+          headerName: configured?.config.headerName || "X-API-Key",
+          apiKey: "YOUR_API_KEY",
+        },
+      };
+    case "bearer":
+      return { type, config: { token: "YOUR_TOKEN" } };
+    case "basic":
+      return {
+        type,
+        config: { username: "YOUR_USERNAME", password: "YOUR_PASSWORD" },
+      };
+    case "oauth2":
+      return { type, config: { accessToken: "YOUR_ACCESS_TOKEN" } };
+    case "sigv4":
+      return {
+        type,
+        config: {
+          accessKeyId: "YOUR_ACCESS_KEY_ID",
+          secretAccessKey: "YOUR_SECRET_ACCESS_KEY",
+          region: configured?.config.region || "us-east-1",
+          service: configured?.config.service || "execute-api",
+        },
+      };
+    case "hmac":
+      return {
+        type,
+        config: { ...configured?.config, secret: "YOUR_HMAC_SECRET" },
+      };
+    case "digest":
+      return {
+        type,
+        config: { username: "YOUR_USERNAME", password: "YOUR_PASSWORD" },
+      };
+    case "login": {
+      // Sent where the login token goes; no login operation is run
+      const { headerName, in: location, name, tokenPrefix } =
+        configured?.config ?? {};
+      return {
+        type,
+        config: {
+          ...(headerName ? { headerName } : {}),
+          ...(location ? { in: location } : {}),
+          ...(name ? { name } : {}),
+          ...(tokenPrefix !== undefined ? { tokenPrefix } : {}),
+          token: "YOUR_LOGIN_TOKEN",
+        },
+      };
+    }
+  }
+}
+
+// Covers the first security requirement, so placeholders land where the
+// spec says (header, query or cookie)
+function placeholderSchemeAuth(
+  operation: OperationInfo
+): { authConfig: AuthConfig; schemes: SecuritySchemeInfo[] } | undefined {
+  const requirement = operation.security?.find(
+    (candidate) =>
+      candidate.length > 0 &&
+      candidate.every(({ scheme }) => compatibleAuthTypes(scheme).length > 0)
+  );
+  if (!requirement) return undefined;
+  const schemes: Record<string, AuthConfig> = {};
+  for (const { scheme } of requirement) {
+    schemes[scheme.name] = {
+      ...placeholderAuth(compatibleAuthTypes(scheme)[0]),
+      scheme: scheme.name,
+    };
+  }
+  return {
+    authConfig: { ...Object.values(schemes)[0], schemes },
+    schemes: requirement.map(({ scheme }) => scheme),
+  };
+}
+
+// Multipart bodies reference local files that may not exist yet, so parts
+// are described rather than read
+function multipartParts(body: any, schema: any): PreparedRequestPart[] {
+  const properties = schema?.properties ?? {};
+  const parts: PreparedRequestPart[] = [];
+  for (const [name, value] of Object.entries(body ?? {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === undefined || item === null) continue;
+      const propertySchema = Array.isArray(value)
+        ? properties[name]?.items
+        : properties[name];
+      const filePath =
+        typeof item === "object" && typeof item.path === "string"
+          ? item.path
+          : typeof item === "string" && propertySchema?.format === "binary"
+          ? item
+          : undefined;
+      if (filePath) {
+        parts.push({
+          name,
+          path: filePath,
+          filename: item.filename ?? path.basename(filePath),
+          contentType: item.contentType ?? mimeTypeFromPath(filePath),
+        });
+      } else {
+        parts.push({
+          name,
+          value: typeof item === "object" ? JSON.stringify(item) : String(item),
+        });
+      }
+    }
+  }
+  return parts;
+}
+
+function exampleParameters(
+  operation: OperationInfo,
+  provided: Record<string, any> = {}
+): Record<string, any> {
+  const parameters = { ...provided };
+  for (const param of operation.parameters ?? []) {
+    if (param.required && parameters[param.name] === undefined) {
+      parameters[param.name] = exampleFromSchema(param.schema, param.name);
+    }
+  }
+  if (
+    operation.requestBody &&
+    extractBodyData(operation.requestBody, parameters) === undefined
+  ) {
+    parameters.body = exampleFromSchema(operation.requestBody.schema);
+  }
+  return parameters;
+}
+
+export async function generateCode(
+  params: GenerateCodeParams
+): Promise<CallToolResult> {
+  try {
+    const apiInfo = await specCache.getApiInfo(params.docs_path, {
+      forceRefresh: params.force_refresh,
+    });
+
+    if (!apiInfo) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to parse OpenAPI specification from: ${params.docs_path}\n\nPlease ensure:\n1. The file exists and is accessible\n2. The file contains valid OpenAPI/Swagger specification\n3. The file format is JSON or YAML`,
+          } as TextContent,
+        ],
+      };
+    }
+
+    const operation = apiInfo.operations.find(
+      (op) => op.operationId === params.operation_id
+    );
+    if (!operation) {
+      const availableOps = apiInfo.operations
+        .map((op) => op.operationId)
+        .join(", ");
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Operation '${params.operation_id}' not found in API specification.\n\nAvailable operations: ${availableOps}`,
+          } as TextContent,
+        ],
+      };
+    }
+
+    const httpClient = getHttpClient();
+    const baseUrl =
+      params.base_url || apiInfo.servers?.[0] || "https://api.example.com";
+    const configuredAuth = httpClient.getAuthConfig(params.docs_path);
+    const schemeAuth = params.auth_type
+      ? undefined
+      : placeholderSchemeAuth(operation);
+    const authType = params.auth_type ?? configuredAuth?.type;
+    const authConfig =
+      operation.security?.length === 0
+        ? undefined
+        : schemeAuth?.authConfig ??
+          (authType
+            ? placeholderAuth(
+                authType,
+                // Settings such as the header name only carry over to the
+                // same type
+                configuredAuth?.type === authType ? configuredAuth : undefined
+              )
+            : undefined);
+
+    const parameters = exampleParameters(operation, params.parameters);
+    const multipart =
+      operation.requestBody &&
+      isMultipartContentType(operation.requestBody.contentType);
+
+    const request: PreparedRequest = await httpClient.prepareRequest(
+      baseUrl,
+      operation,
+      multipart ? { ...parameters, body: {} } : parameters,
+      authConfig
+    );
+    if (multipart) {
+      request.multipart = multipartParts(
+        extractBodyData(operation.requestBody!, parameters),
+        operation.requestBody!.schema
+      );
+    }
+    // Only meaningful for this server's own requests
+    delete request.headers["User-Agent"];
+
+    let response = `## Client Code: ${operation.operationId}\n\n`;
+    response += `**${operation.method}** ${operation.path}\n`;
+    if (operation.summary) response += `${operation.summary}\n`;
+    response += `\n`;
+    if (authConfig) {
+      const authLabel = schemeAuth
+        ? schemeAuth.schemes
+            .map((scheme) => `${scheme.name} (${describeScheme(scheme)})`)
+            .join(" + ")
+        : authConfig.type;
+      if (authConfig.type === "digest") {
+        response += `**Auth:** digest - answers the server's challenge, so no header is shown; use your client's Digest support (e.g. \`curl --digest -u user:password\`)\n`;
+      } else {
+        response += `**Auth:** ${authLabel} - replace the \`YOUR_*\` placeholders with real credentials\n`;
+      }
+      if (authConfig.type !== "digest" && signsRequest(authConfig)) {
+        response += `The ${authConfig.type} headers shown were computed from the placeholders; sign each request with your real secret.\n`;
+      }
+    }
+    response += `Values not given in \`parameters\` are examples generated from the schema.\n\n`;
+
+    for (const target of params.targets) {
+      const { title, language, render } = TARGETS[target];
+      response += `### ${title}\n\`\`\`${language}\n${render(request)}\n\`\`\`\n\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: response.trim() + "\n",
+        } as TextContent,
+      ],
+    };
+  } catch (error) {
+    log.error("Error generating code", error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Error generating code: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+        } as TextContent,
+      ],
+    };
+  }
+}
@@ -3,8 +3,11 @@ import {
   TextContent,
 } from "@modelcontextprotocol/sdk/types.js";
 import type { InitApiParams } from "../types/index.js";
+import { logger } from "../utils/logger.js";
 import { sessionManager } from "../utils/session-manager.js";
 
+const log = logger.child("init_api");
+
 export async function initApi(params: InitApiParams): Promise<CallToolResult> {
   try {
     let response = `🚀 **Initializing API Session**\n\n`;
@@ -114,7 +117,7 @@ export async function initApi(params: InitApiParams): Promise<CallToolResult> {
       content: [{ type: "text", text: response } as TextContent],
     };
   } catch (error) {
-    console.error("Error initializing API:", error);
+    log.error("Error initializing API", error);
     return {
       content: [
         {
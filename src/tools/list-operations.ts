@@ -2,36 +2,26 @@ import {
   CallToolResult,
   TextContent,
 } from "@modelcontextprotocol/sdk/types.js";
-import * as path from "path";
 import type { ListOperationsParams } from "../types/index.js";
-import { OpenApiDiscovery } from "../utils/discovery.js";
 import {
   formatParameters,
   formatQueryParameters,
   formatRequestBody,
   formatUsageExample,
 } from "../utils/formatters.js";
+import { logger } from "../utils/logger.js";
+import { specCache } from "../utils/spec-cache.js";
+
+const log = logger.child("list_operations");
 
 export async function listOperations(
   params: ListOperationsParams
 ): Promise<CallToolResult> {
   try {
-    const discovery = new OpenApiDiscovery();
-
-    // Parse API specification
-    let apiInfo;
-    if (
-      params.docs_path.startsWith("http://") ||
-      params.docs_path.startsWith("https://")
-    ) {
-      apiInfo = await discovery.parseOpenApiUrl(params.docs_path);
-    } else {
-      // Handle relative paths
-      const fullPath = path.isAbsolute(params.docs_path)
-        ? params.docs_path
-        : path.resolve(process.cwd(), params.docs_path);
-      apiInfo = await discovery.parseOpenApiFile(fullPath);
-    }
+    // Parse API specification (cached across calls)
+    const apiInfo = await specCache.getApiInfo(params.docs_path, {
+      forceRefresh: params.force_refresh,
+    });
 
     if (!apiInfo) {
       return {
@@ -148,7 +138,7 @@ export async function listOperations(
       ],
     };
   } catch (error) {
-    console.error("Error listing operations:", error);
+    log.error("Error listing operations", error);
     return {
       content: [
         {
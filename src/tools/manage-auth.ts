@@ -2,9 +2,48 @@ import {
   CallToolResult,
   TextContent,
 } from "@modelcontextprotocol/sdk/types.js";
-import type { ManageAuthParams } from "../types/index.js";
-import { ApiHttpClient } from "../utils/http-client.js";
+import type {
+  ApiInfo,
+  AuthConfig,
+  ManageAuthParams,
+  SecuritySchemeInfo,
+} from "../types/index.js";
+import {
+  checkHmacConfig,
+  DEFAULT_HMAC_COMPONENTS,
+  HMAC_COMPONENTS,
+} from "../utils/hmac-signing.js";
+import { ApiHttpClient, NO_AUTH_PROFILE } from "../utils/http-client.js";
+import { logger } from "../utils/logger.js";
+import {
+  checkLoginConfig,
+  loginParameterNames,
+} from "../utils/login-operation.js";
+import {
+  AUTHORIZATION_CODE,
+  CLIENT_CREDENTIALS,
+  isAuthorizationCode,
+  isClientCredentials,
+  normalizeScopes,
+  oauth2Tokens,
+} from "../utils/oauth2.js";
+import { type LoginInfo, oauth2Logins } from "../utils/oauth2-login.js";
+import {
+  checkSecretReferences,
+  describeSecret,
+  hasSecretReference,
+} from "../utils/secret-refs.js";
+import { awsEndpointInfo, DEFAULT_SIGV4_SERVICE } from "../utils/sigv4.js";
+import {
+  compatibleAuthTypes,
+  credentialForScheme,
+  describeScheme,
+  loginTokenTarget,
+} from "../utils/security.js";
 import { sessionManager } from "../utils/session-manager.js";
+import { specCache } from "../utils/spec-cache.js";
+
+const log = logger.child("manage_auth");
 
 // Global HTTP client instance to persist auth configs
 let httpClientInstance: ApiHttpClient | null = null;
@@ -22,10 +61,132 @@ export async function manageAuth(
   try {
     const httpClient = getHttpClient();
 
-    // Validate auth configuration
-    const authConfig = {
+    // Find the security scheme of the spec these credentials are for
+    const apiInfo = await loadApiInfo(params.docs_path);
+    const schemes = apiInfo?.securitySchemes ?? [];
+    let scheme: SecuritySchemeInfo | undefined;
+    if (params.scheme) {
+      scheme = schemes.find((candidate) => candidate.name === params.scheme);
+      const schemeError = checkScheme(params, schemes, scheme);
+      if (schemeError) {
+        return {
+          content: [{ type: "text", text: schemeError } as TextContent],
+        };
+      }
+    } else {
+      const matching = schemes.filter((candidate) =>
+        compatibleAuthTypes(candidate).includes(params.auth_type)
+      );
+      if (matching.length === 1) scheme = matching[0];
+      if (
+        matching.length > 1 &&
+        params.auth_type === "apiKey" &&
+        !params.config.headerName &&
+        !params.config.name
+      ) {
+        // Each API key scheme has its own location and name
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ **Several API key schemes in this spec - pass \`scheme\`**\n\n${matching
+                .map((s) => `- \`${s.name}\`: ${describeScheme(s)}`)
+                .join("\n")}\n\n**Example:**\n\`manage_auth docs_path="${
+                params.docs_path
+              }" auth_type="apiKey" scheme="${
+                matching[0].name
+              }" config='{"apiKey": "your-key"}'\``,
+            } as TextContent,
+          ],
+        };
+      }
+    }
+
+    // The spec decides where and under which name API keys are sent
+    const config = { ...params.config };
+    if (
+      params.auth_type === "apiKey" &&
+      scheme?.type === "apiKey" &&
+      scheme.paramName
+    ) {
+      config.in = scheme.in ?? "header";
+      config.name = scheme.paramName;
+      if (config.in === "header") config.headerName = scheme.paramName;
+    }
+    // OAuth2 without an access token obtains its own: with client
+    // credentials, or from a browser login (authorization code + PKCE).
+    // Endpoints and scopes default to those of the spec's flow.
+    if (
+      params.auth_type === "oauth2" &&
+      !config.accessToken &&
+      (config.clientId || config.grantType)
+    ) {
+      config.grantType ??= defaultGrantType(config, scheme);
+      const flow =
+        scheme?.flows?.[
+          config.grantType === AUTHORIZATION_CODE
+            ? "authorizationCode"
+            : "clientCredentials"
+        ];
+      if (!config.tokenUrl && flow?.tokenUrl) {
+        config.tokenUrl = resolveFlowUrl(flow.tokenUrl, apiInfo?.servers);
+      }
+      if (
+        config.grantType === AUTHORIZATION_CODE &&
+        !config.authorizationUrl &&
+        flow?.authorizationUrl
+      ) {
+        config.authorizationUrl = resolveFlowUrl(
+          flow.authorizationUrl,
+          apiInfo?.servers
+        );
+      }
+      if (config.scopes === undefined && flow) {
+        config.scopes = Object.keys(flow.scopes).join(" ");
+      }
+      config.scopes = normalizeScopes(config.scopes);
+    }
+    // SigV4 region and service default to those of an AWS server URL
+    if (params.auth_type === "sigv4") {
+      const endpoint = apiInfo?.servers?.[0]
+        ? awsEndpointInfo(apiInfo.servers[0])
+        : undefined;
+      if (!config.region && endpoint) config.region = endpoint.region;
+      config.service ??= endpoint?.service ?? DEFAULT_SIGV4_SERVICE;
+    }
+    // The login operation is looked up in this API's spec unless another
+    // (e.g. a separate auth service) is named
+    if (params.auth_type === "login") config.docsPath ??= params.docs_path;
+    const loginApi =
+      params.auth_type !== "login"
+        ? undefined
+        : config.docsPath === params.docs_path
+        ? apiInfo
+        : await loadApiInfo(config.docsPath);
+    const credential: AuthConfig = {
       type: params.auth_type,
-      config: params.config,
+      config,
+      ...(scheme ? { scheme: scheme.name } : {}),
+    };
+    // Scheme credentials accumulate; they only replace the general
+    // credentials when there are none yet. A profile accumulates its own.
+    const existing = httpClient.getAuthConfig(
+      params.docs_path,
+      params.profile
+    );
+    const configuredSchemes = {
+      ...existing?.schemes,
+      ...(scheme ? { [scheme.name]: credential } : {}),
+    };
+    const general: AuthConfig =
+      scheme && existing
+        ? { type: existing.type, config: existing.config, scheme: existing.scheme }
+        : credential;
+    const authConfig: AuthConfig = {
+      ...general,
+      ...(Object.keys(configuredSchemes).length > 0
+        ? { schemes: configuredSchemes }
+        : {}),
     };
 
     // Validate required fields based on auth type
@@ -33,9 +194,9 @@ export async function manageAuth(
 
     switch (params.auth_type) {
       case "apiKey":
-        if (!params.config.headerName)
+        if (!config.headerName && !config.name)
           validationErrors.push(
-            "headerName is required for API key authentication"
+            "headerName is required for API key authentication (or `scheme`, when the spec defines it)"
           );
         if (!params.config.apiKey)
           validationErrors.push(
@@ -60,10 +221,76 @@ export async function manageAuth(
         break;
 
       case "oauth2":
-        if (!params.config.accessToken)
+        if (isClientCredentials(credential)) {
+          if (!config.tokenUrl)
+            validationErrors.push(
+              "tokenUrl is required for OAuth2 client credentials when the spec has no clientCredentials flow"
+            );
+          if (!config.clientSecret)
+            validationErrors.push(
+              "clientSecret is required for OAuth2 client credentials"
+            );
+        } else if (isAuthorizationCode(credential)) {
+          if (!config.clientId)
+            validationErrors.push("clientId is required for OAuth2 login");
+          if (!config.authorizationUrl)
+            validationErrors.push(
+              "authorizationUrl is required for OAuth2 login when the spec has no authorizationCode flow"
+            );
+          if (!config.tokenUrl)
+            validationErrors.push(
+              "tokenUrl is required for OAuth2 login when the spec has no authorizationCode flow"
+            );
+        } else if (config.grantType) {
           validationErrors.push(
-            "accessToken is required for OAuth2 authentication"
+            `grantType must be "${CLIENT_CREDENTIALS}" or "${AUTHORIZATION_CODE}"`
           );
+        } else if (!params.config.accessToken) {
+          validationErrors.push(
+            "accessToken (or clientId and clientSecret) is required for OAuth2 authentication"
+          );
+        }
+        break;
+
+      case "sigv4":
+        if (!config.accessKeyId)
+          validationErrors.push("accessKeyId is required for AWS SigV4");
+        if (!config.secretAccessKey)
+          validationErrors.push("secretAccessKey is required for AWS SigV4");
+        if (!config.region)
+          validationErrors.push(
+            "region is required for AWS SigV4 when the server URL does not name one"
+          );
+        break;
+
+      case "hmac":
+        validationErrors.push(...checkHmacConfig(config));
+        break;
+
+      case "digest":
+        if (!config.username)
+          validationErrors.push("username is required for HTTP Digest");
+        if (!config.password)
+          validationErrors.push("password is required for HTTP Digest");
+        break;
+
+      case "login":
+        validationErrors.push(...checkLoginConfig(config));
+        for (const operationId of [
+          config.operationId,
+          config.refreshOperationId,
+        ]) {
+          if (
+            operationId &&
+            !loginApi?.operations.some(
+              (operation) => operation.operationId === operationId
+            )
+          ) {
+            validationErrors.push(
+              `operation '${operationId}' not found in ${config.docsPath}`
+            );
+          }
+        }
         break;
     }
 
@@ -111,13 +338,90 @@ export async function manageAuth(
 
         case "oauth2":
           response += `- \`accessToken\`: Your OAuth2 access token\n`;
-          response += `\n**Example:**\n`;
+          response += `- Or, to fetch tokens with the client credentials grant: \`clientId\`, \`clientSecret\`, \`tokenUrl\` (defaults to the spec's), optional \`scopes\`, \`audience\` and \`clientAuth\` ("basic" or "body")\n`;
+          response += `- Or, to log in through a browser: \`grantType\`: "${AUTHORIZATION_CODE}", \`clientId\`, \`authorizationUrl\` and \`tokenUrl\` (default to the spec's), optional \`clientSecret\`, \`scopes\` and \`redirectPort\`\n`;
+          response += `\n**Examples:**\n`;
           response += `\`\`\`\n`;
           response += `manage_auth docs_path="${params.docs_path}" auth_type="oauth2" config='{\n`;
           response += `  "accessToken": "your-oauth2-token-here"\n`;
           response += `}'\n`;
+          response += `manage_auth docs_path="${params.docs_path}" auth_type="oauth2" config='{\n`;
+          response += `  "tokenUrl": "https://auth.example.com/oauth/token",\n`;
+          response += `  "clientId": "your-client-id",\n`;
+          response += `  "clientSecret": "your-client-secret",\n`;
+          response += `  "scopes": "read write"\n`;
+          response += `}'\n`;
+          response += `\`\`\``;
+          break;
+
+        case "sigv4":
+          response += `- \`accessKeyId\` and \`secretAccessKey\`: Your AWS access key\n`;
+          response += `- \`sessionToken\`: Optional, for temporary credentials\n`;
+          response += `- \`region\`: AWS region (defaults to the one in an amazonaws.com server URL)\n`;
+          response += `- \`service\`: Service signing name (default "${DEFAULT_SIGV4_SERVICE}")\n`;
+          response += `\n**Example:**\n`;
+          response += `\`\`\`\n`;
+          response += `manage_auth docs_path="${params.docs_path}" auth_type="sigv4" config='{\n`;
+          response += `  "accessKeyId": "\${env:AWS_ACCESS_KEY_ID}",\n`;
+          response += `  "secretAccessKey": "\${env:AWS_SECRET_ACCESS_KEY}",\n`;
+          response += `  "region": "us-east-1"\n`;
+          response += `}'\n`;
+          response += `\`\`\``;
+          break;
+
+        case "hmac":
+          response += `- \`secret\`: The shared secret (\`secretEncoding\` "base64" or "hex" when it is not plain text)\n`;
+          response += `- \`components\`: Request parts to sign, in order (default "${DEFAULT_HMAC_COMPONENTS}"): ${HMAC_COMPONENTS.join(
+            ", "
+          )} or header:Name\n`;
+          response += `- Optional: \`algorithm\` (default "sha256"), \`encoding\` ("hex" or "base64"), \`separator\` (default newline), \`header\` (default "X-Signature"), \`template\` (default "{signature}"), \`keyId\`, \`timestampHeader\` (default "X-Timestamp"), \`timestampFormat\` ("seconds", "milliseconds" or "iso"), \`nonceHeader\`\n`;
+          response += `\n**Example:**\n`;
+          response += `\`\`\`\n`;
+          response += `manage_auth docs_path="${params.docs_path}" auth_type="hmac" config='{\n`;
+          response += `  "secret": "your-shared-secret",\n`;
+          response += `  "keyId": "partner-42",\n`;
+          response += `  "header": "Authorization",\n`;
+          response += `  "template": "HMAC {keyId}:{signature}"\n`;
+          response += `}'\n`;
+          response += `\`\`\``;
+          break;
+
+        case "digest":
+          response += `- \`username\`: Your username\n`;
+          response += `- \`password\`: Your password\n`;
+          response += `\n**Example:**\n`;
+          response += `\`\`\`\n`;
+          response += `manage_auth docs_path="${params.docs_path}" auth_type="digest" config='{\n`;
+          response += `  "username": "your-username",\n`;
+          response += `  "password": "your-password"\n`;
+          response += `}'\n`;
+          response += `\`\`\``;
+          break;
+
+        case "login": {
+          const candidates = loginOperationCandidates(loginApi);
+          response += `- \`operationId\`: The login operation${
+            candidates.length > 0
+              ? ` (in this spec: ${candidates
+                  .map((operationId) => `\`${operationId}\``)
+                  .join(", ")})`
+              : ""
+          }\n`;
+          response += `- \`parameters\`: Its call_api parameters as a JSON string, e.g. the body with the username and password\n`;
+          response += `- \`tokenPath\`: Where the token is in the JSON response, e.g. "token" or "data.access_token"\n`;
+          response += `- Optional: \`expiresInPath\` (lifetime in seconds), \`refreshTokenPath\`, \`refreshOperationId\` and \`refreshParameters\` (with "{refreshToken}" in place of the token), \`docsPath\` (spec with the login operation, default this one), \`baseUrl\`\n`;
+          response += `- Optional, when the spec has no scheme for the token: \`headerName\` (default "Authorization") and \`tokenPrefix\` (default "Bearer"), or \`in\` ("query" or "cookie") and \`name\`\n`;
+          response += `\n**Example:**\n`;
+          response += `\`\`\`\n`;
+          response += `manage_auth docs_path="${params.docs_path}" auth_type="login" config='{\n`;
+          response += `  "operationId": "${candidates[0] ?? "login"}",\n`;
+          response += `  "parameters": "{\\"body\\": {\\"username\\": \\"me\\", \\"password\\": \\"\${env:APP_PASSWORD}\\"}}",\n`;
+          response += `  "tokenPath": "token",\n`;
+          response += `  "expiresInPath": "expires_in"\n`;
+          response += `}'\n`;
           response += `\`\`\``;
           break;
+        }
       }
 
       return {
@@ -130,33 +434,74 @@ export async function manageAuth(
       };
     }
 
-    // Store the authentication configuration in HTTP client
-    httpClient.setAuthConfig(params.docs_path, authConfig);
-
     // Also store in session if we can find the matching session
-    const sessions = sessionManager.listSessions();
-    const matchingSession = sessions.find(
-      (session) =>
-        session.openApiPath === params.docs_path ||
-        session.baseUrl === params.docs_path ||
-        (session.openApiPath &&
-          session.openApiPath.includes(params.docs_path)) ||
-        params.docs_path.includes(session.baseUrl)
+    const matchingSession = sessionManager.findSessionForSource(
+      params.docs_path
     );
+    const storeError = matchingSession
+      ? sessionManager.credentialStoreError()
+      : undefined;
+    if (storeError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `🔒 **Cannot save credentials**\n\n${storeError}`,
+          } as TextContent,
+        ],
+      };
+    }
+
+    // Store the authentication configuration in HTTP client
+    if (params.profile) {
+      httpClient.setAuthProfile(
+        params.docs_path,
+        params.profile,
+        authConfig,
+        params.make_default
+      );
+    } else {
+      httpClient.setAuthConfig(params.docs_path, authConfig);
+    }
 
     if (matchingSession) {
-      sessionManager.setAuthConfig(matchingSession.id, authConfig);
+      if (params.profile) {
+        sessionManager.setAuthProfile(
+          matchingSession.id,
+          params.profile,
+          authConfig,
+          params.make_default
+        );
+      } else {
+        sessionManager.setAuthConfig(matchingSession.id, authConfig);
+      }
       // Reload HTTP client auth configs to ensure consistency
       httpClient.reloadAuthFromSessions();
     }
 
+    // The login writes its tokens into the stored credential
+    const login: LoginInfo | undefined = isAuthorizationCode(credential)
+      ? await oauth2Logins.start(credential)
+      : undefined;
+
     let response = `✅ **Authentication Configuration Saved**\n\n`;
     response += `**API Source:** ${params.docs_path}\n`;
     response += `**Authentication Type:** ${params.auth_type}\n`;
+    const defaultProfile = httpClient.getDefaultAuthProfile(params.docs_path);
+    if (params.profile) {
+      response += `**Profile:** ${params.profile}${
+        params.profile === defaultProfile ? " (default)" : ""
+      }\n`;
+    }
+    if (scheme) {
+      response += `**Security Scheme:** ${scheme.name} (${describeScheme(
+        scheme
+      )})\n`;
+    }
 
     if (matchingSession) {
       response += `**Session:** ${matchingSession.name} (${matchingSession.id})\n`;
-      response += `**✅ Stored in session for persistence across restarts**\n`;
+      response += `**✅ Stored in session for persistence across restarts** (encrypted in the credential store)\n`;
     } else {
       response += `**⚠️ No matching session found - auth stored in HTTP client only**\n`;
       response += `**Note:** Auth will be lost on MCP server restart\n`;
@@ -167,19 +512,15 @@ export async function manageAuth(
     switch (params.auth_type) {
       case "apiKey":
         response += `**Configuration:**\n`;
-        response += `- Header Name: \`${params.config.headerName}\`\n`;
-        response += `- API Key: \`${params.config.apiKey.substring(
-          0,
-          8
-        )}...\` (masked)\n`;
+        response += `- Sent In: ${config.in ?? "header"} \`${
+          config.headerName || config.name
+        }\`\n`;
+        response += `- API Key: ${describeSecret(params.config.apiKey)}\n`;
         break;
 
       case "bearer":
         response += `**Configuration:**\n`;
-        response += `- Bearer Token: \`${params.config.token.substring(
-          0,
-          8
-        )}...\` (masked)\n`;
+        response += `- Bearer Token: ${describeSecret(params.config.token)}\n`;
         break;
 
       case "basic":
@@ -190,23 +531,175 @@ export async function manageAuth(
 
       case "oauth2":
         response += `**Configuration:**\n`;
-        response += `- Access Token: \`${params.config.accessToken.substring(
-          0,
-          8
-        )}...\` (masked)\n`;
+        if (isClientCredentials(credential)) {
+          const token = oauth2Tokens.status(credential);
+          response += `- Grant: client credentials\n`;
+          response += `- Token URL: ${config.tokenUrl}\n`;
+          response += `- Client ID: \`${config.clientId}\`\n`;
+          response += `- Client Secret: \`***\` (masked)\n`;
+          response += `- Client Authentication: ${
+            config.clientAuth === "body" ? "request body" : "HTTP Basic"
+          }\n`;
+          if (config.scopes) response += `- Scopes: ${config.scopes}\n`;
+          if (config.audience) response += `- Audience: ${config.audience}\n`;
+          response += `- Access Token: ${
+            token.cached
+              ? `cached${token.expiresAt ? ` until ${token.expiresAt}` : ""}`
+              : "fetched on the next call"
+          }, renewed before it expires or after a 401\n`;
+        } else if (login) {
+          response += `- Grant: authorization code with PKCE\n`;
+          response += `- Authorization URL: ${config.authorizationUrl}\n`;
+          response += `- Token URL: ${config.tokenUrl}\n`;
+          response += `- Client ID: \`${config.clientId}\`\n`;
+          if (config.clientSecret) {
+            response += `- Client Secret: \`***\` (masked)\n`;
+          }
+          if (config.scopes) response += `- Scopes: ${config.scopes}\n`;
+          response += `\n### 🔑 Log In\n`;
+          response += `Open this URL in a browser and approve access:\n\n${login.authorizationUrl}\n\n`;
+          response += `Waiting for the redirect on ${login.redirectUri} until ${login.expiresAt}. If the authorization server rejects this redirect URI, register it or set \`redirectPort\` to a registered port.\n`;
+          response += `\`call_api\` waits for the login to finish. Access and refresh tokens are stored with these credentials, and the access token is refreshed automatically.\n`;
+        } else {
+          response += `- Access Token: ${describeSecret(
+            params.config.accessToken
+          )}\n`;
+        }
         break;
+
+      case "sigv4":
+        response += `**Configuration:**\n`;
+        response += `- Access Key ID: ${describeSecret(config.accessKeyId, 4)}\n`;
+        response += `- Secret Access Key: ${
+          hasSecretReference(config.secretAccessKey)
+            ? describeSecret(config.secretAccessKey)
+            : "`***` (masked)"
+        }\n`;
+        if (config.sessionToken) {
+          response += `- Session Token: ${describeSecret(config.sessionToken)}\n`;
+        }
+        response += `- Region: ${config.region}\n`;
+        response += `- Service: ${config.service}\n`;
+        response += `- Each request is signed (AWS Signature V4) right before it is sent, including its query string and body hash\n`;
+        break;
+
+      case "hmac":
+        response += `**Configuration:**\n`;
+        response += `- Secret: ${
+          hasSecretReference(config.secret)
+            ? describeSecret(config.secret)
+            : "`***` (masked)"
+        }\n`;
+        if (config.keyId) response += `- Key ID: \`${config.keyId}\`\n`;
+        response += `- Algorithm: HMAC-${(
+          config.algorithm || "sha256"
+        ).toUpperCase()}, ${config.encoding || "hex"} encoded\n`;
+        response += `- Signed Parts: ${
+          config.components || DEFAULT_HMAC_COMPONENTS
+        } (joined with ${JSON.stringify(config.separator ?? "\n")})\n`;
+        response += `- Signature Header: \`${config.header || "X-Signature"}: ${
+          config.template || "{signature}"
+        }\`\n`;
+        if ((config.timestampHeader ?? "X-Timestamp") !== "") {
+          response += `- Timestamp Header: \`${
+            config.timestampHeader ?? "X-Timestamp"
+          }\` (${config.timestampFormat || "seconds"})\n`;
+        }
+        if (config.nonceHeader) {
+          response += `- Nonce Header: \`${config.nonceHeader}\`\n`;
+        }
+        break;
+
+      case "digest":
+        response += `**Configuration:**\n`;
+        response += `- Username: \`${config.username}\`\n`;
+        response += `- Password: \`***\` (masked)\n`;
+        response += `- The server's 401 Digest challenge is answered automatically (MD5, SHA-256, SHA-512-256 and their -sess variants; qop auth or auth-int)\n`;
+        break;
+
+      case "login": {
+        const operation = loginApi?.operations.find(
+          (candidate) => candidate.operationId === config.operationId
+        );
+        const parameterNames = loginParameterNames(config);
+        response += `**Configuration:**\n`;
+        response += `- Login Operation: \`${operation?.method} ${operation?.path}\` (${config.operationId})${
+          config.docsPath !== params.docs_path ? ` from ${config.docsPath}` : ""
+        }\n`;
+        if (parameterNames.length > 0) {
+          response += `- Login Parameters: ${parameterNames.join(
+            ", "
+          )} (values hidden)\n`;
+        }
+        response += `- Token: read from \`${config.tokenPath}\` in the response`;
+        if (scheme) {
+          response += `, sent as the security scheme describes\n`;
+        } else {
+          const target = loginTokenTarget(config);
+          response += `, sent in ${target.location} \`${target.name}\`${
+            target.prefix ? ` as "${target.prefix} <token>"` : ""
+          }\n`;
+        }
+        response += `- Expiry: ${
+          config.expiresInPath
+            ? `lifetime in seconds from \`${config.expiresInPath}\`, logged in again before it ends`
+            : "not given; the token is used until a call gets a 401"
+        }\n`;
+        if (config.refreshOperationId) {
+          response += `- Refresh: \`${config.refreshOperationId}\` with the refresh token from \`${config.refreshTokenPath}\`, before logging in again\n`;
+        }
+        response += `- The login runs on the first \`call_api\`, and again when a call gets a 401, which is then retried once\n`;
+        break;
+      }
+    }
+
+    const referenceProblems = await checkSecretReferences(config);
+    if (referenceProblems.length > 0) {
+      response += `\n**⚠️ Unresolved secret references** (requests fail until fixed):\n`;
+      response += referenceProblems.map((problem) => `- ${problem}`).join("\n");
+      response += `\n`;
+    }
+
+    const otherSchemes = schemes.filter(
+      (candidate) => candidate.name !== scheme?.name
+    );
+    if (otherSchemes.length > 0) {
+      response += `\n**Other security schemes in this spec:**\n`;
+      for (const other of otherSchemes) {
+        response += `- \`${other.name}\`: ${describeScheme(other)} (${
+          credentialForScheme(other, authConfig)
+            ? "✅ configured"
+            : "⚠️ not configured"
+        })\n`;
+      }
     }
 
     response += `\n**Status:** Authentication is now configured for this API source.\n`;
-    response += `All subsequent API calls using \`call_api\` with this API source will automatically use the configured authentication.\n\n`;
+    if (params.profile && params.profile !== defaultProfile) {
+      response += `Calls use this profile when \`call_api\` is given \`auth_profile="${params.profile}"\`; others keep using the default${
+        defaultProfile ? ` profile \`${defaultProfile}\`` : " credentials"
+      }.\n\n`;
+    } else {
+      response += `All subsequent API calls using \`call_api\` with this API source will automatically use the configured authentication.\n\n`;
+    }
 
     response += `**Next Steps:**\n`;
     response += `1. Test the authentication by making an API call:\n`;
-    response += `   \`call_api docs_path="${params.docs_path}" operation_id="OPERATION_ID"\`\n`;
+    response += `   \`call_api docs_path="${params.docs_path}" operation_id="OPERATION_ID"${
+      params.profile ? ` auth_profile="${params.profile}"` : ""
+    }\`\n`;
+    const profiles = Object.keys(httpClient.listAuthProfiles(params.docs_path));
+    if (profiles.length > 1) {
+      response += `   Compare what each profile may do with \`compare_profiles='${JSON.stringify(
+        [...profiles, NO_AUTH_PROFILE]
+      )}'\`\n`;
+    }
     response += `2. Use \`list_operations\` to see available operations for this API\n`;
     response += `3. If you need to update the authentication, run \`manage_auth\` again with new credentials\n\n`;
 
-    response += `**Security Note:** Authentication credentials are stored in memory only and will be lost when the MCP server restarts.`;
+    response += matchingSession
+      ? `**Security Note:** Credentials are encrypted at rest (AES-256-GCM) in \`~/.openapi-client-mcp/credentials.enc\`; sessions.json only references them.`
+      : `**Security Note:** Authentication credentials are stored in memory only and will be lost when the MCP server restarts.`;
 
     return {
       content: [
@@ -217,7 +710,7 @@ export async function manageAuth(
       ],
     };
   } catch (error) {
-    console.error("Error managing authentication:", error);
+    log.error("Error managing authentication", error);
     return {
       content: [
         {
@@ -231,5 +724,80 @@ export async function manageAuth(
   }
 }
 
+function checkScheme(
+  params: ManageAuthParams,
+  schemes: SecuritySchemeInfo[],
+  scheme: SecuritySchemeInfo | undefined
+): string | undefined {
+  if (!scheme) {
+    let response = `❌ **Security scheme '${params.scheme}' not found**\n\n`;
+    if (schemes.length === 0) {
+      return response + "This spec declares no security schemes; omit `scheme`.";
+    }
+    response += `**Schemes in this spec:**\n`;
+    return (
+      response +
+      schemes
+        .map((candidate) => `- \`${candidate.name}\`: ${describeScheme(candidate)}`)
+        .join("\n")
+    );
+  }
+
+  const authTypes = compatibleAuthTypes(scheme);
+  if (authTypes.includes(params.auth_type)) return undefined;
+  let response = `❌ **auth_type '${params.auth_type}' does not fit security scheme '${scheme.name}'**\n\n`;
+  response += `\`${scheme.name}\` is ${describeScheme(scheme)}. `;
+  return (
+    response +
+    (authTypes.length > 0
+      ? `Use auth_type ${authTypes.map((type) => `"${type}"`).join(" or ")}.`
+      : "manage_auth cannot configure this scheme type.")
+  );
+}
+
+async function loadApiInfo(docsPath: string): Promise<ApiInfo | undefined> {
+  try {
+    return (await specCache.getApiInfo(docsPath)) ?? undefined;
+  } catch {
+    // Not a spec (e.g. a base URL): credentials are applied as configured
+    return undefined;
+  }
+}
+
+// Browser login when asked for, when the spec only has that flow, or for
+// public clients (no secret); client credentials otherwise
+function defaultGrantType(
+  config: Record<string, string>,
+  scheme?: SecuritySchemeInfo
+): string {
+  const flows = scheme?.flows ?? {};
+  return config.authorizationUrl ||
+    !config.clientSecret ||
+    (flows.authorizationCode && !flows.clientCredentials)
+    ? AUTHORIZATION_CODE
+    : CLIENT_CREDENTIALS;
+}
+
+// Operations that look like logins, suggested for auth_type "login"
+function loginOperationCandidates(apiInfo?: ApiInfo): string[] {
+  return (apiInfo?.operations ?? [])
+    .filter((operation) =>
+      /log-?in|sign-?in|auth|token|session/i.test(
+        `${operation.operationId} ${operation.path}`
+      )
+    )
+    .map((operation) => operation.operationId)
+    .slice(0, 5);
+}
+
+// OAuth2 endpoints may be relative to the API server (OpenAPI 3.1)
+function resolveFlowUrl(url: string, servers?: string[]): string {
+  try {
+    return new URL(url, servers?.[0]).toString();
+  } catch {
+    return url;
+  }
+}
+
 // Export the HTTP client getter for use in other tools
 export { getHttpClient };
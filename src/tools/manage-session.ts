@@ -2,8 +2,33 @@ import {
   CallToolResult,
   TextContent,
 } from "@modelcontextprotocol/sdk/types.js";
-import type { ManageSessionParams } from "../types/index.js";
-import { sessionManager } from "../utils/session-manager.js";
+import type {
+  AuthConfig,
+  HistoryEntry,
+  ManageSessionParams,
+  RequestDefaults,
+} from "../types/index.js";
+import {
+  createHistoryEntry,
+  maskParameters,
+  mergeReplayParameters,
+} from "../utils/call-history.js";
+import { NO_AUTH_PROFILE, profileSessionKey } from "../utils/http-client.js";
+import { logger } from "../utils/logger.js";
+import { fetchAllPages } from "../utils/paginator.js";
+import {
+  DEFAULT_TIMEOUT_MS,
+  resolveRetryPolicy,
+  retryPolicyFromParams,
+} from "../utils/retry-policy.js";
+import {
+  sessionManager,
+  type ApiSession,
+} from "../utils/session-manager.js";
+import { specCache } from "../utils/spec-cache.js";
+import { getHttpClient } from "./manage-auth.js";
+
+const log = logger.child("manage_session");
 
 export async function manageSession(
   params: ManageSessionParams
@@ -24,15 +49,31 @@ export async function manageSession(
       case "info":
         response = await handleSessionInfo(params.session_id);
         break;
+      case "configure":
+        response = await handleConfigureSession(params);
+        break;
+      case "history":
+        response = await handleHistory(params.session_id, params.limit);
+        break;
+      case "show_call":
+        response = await handleShowCall(params.session_id, params.entry_id);
+        break;
+      case "replay":
+        response = await handleReplay(
+          params.session_id,
+          params.entry_id,
+          params.overrides
+        );
+        break;
       default:
-        response = `❌ **Unknown action:** ${params.action}\n\n**Available actions:**\n- list: Show all saved sessions\n- activate: Set a session as active\n- delete: Remove a session\n- info: Show detailed session information`;
+        response = `❌ **Unknown action:** ${params.action}\n\n**Available actions:**\n- list: Show all saved sessions\n- activate: Set a session as active\n- delete: Remove a session\n- info: Show detailed session information\n- configure: Set default timeout and retry policy\n- history: List recent calls\n- show_call: Show one recorded call\n- replay: Send a recorded call again`;
     }
 
     return {
       content: [{ type: "text", text: response } as TextContent],
     };
   } catch (error) {
-    console.error("Error managing session:", error);
+    log.error("Error managing session", error);
     return {
       content: [
         {
@@ -70,7 +111,13 @@ async function handleListSessions(): Promise<string> {
     }
 
     if (session.authConfig) {
-      response += `**Auth:** ${session.authConfig.type} (configured)\n`;
+      response += `**Auth:** ${session.authConfig.type} (configured)${
+        session.authProfiles
+          ? `, profiles: ${Object.keys(session.authProfiles).join(", ")}`
+          : ""
+      }\n`;
+    } else if (sessionManager.hasLockedCredentials(session.id)) {
+      response += `**Auth:** 🔒 locked (credential store)\n`;
     }
 
     if (session.metadata?.title) {
@@ -161,6 +208,7 @@ async function handleDeleteSession(sessionId?: string): Promise<string> {
   if (!success) {
     return `❌ **Failed to delete session:** ${sessionId}`;
   }
+  getHttpClient().clearCookies(sessionId);
 
   let response = `✅ **Session deleted successfully**\n\n`;
   response += `**Deleted:** ${session.name} (${session.baseUrl})\n\n`;
@@ -206,23 +254,43 @@ async function handleSessionInfo(sessionId?: string): Promise<string> {
 
   if (session.authConfig) {
     response += `**Authentication Type:** ${session.authConfig.type}\n`;
-
-    // Show masked auth config
-    const maskedConfig = { ...session.authConfig.config };
-    Object.keys(maskedConfig).forEach((key) => {
-      if (
-        key.toLowerCase().includes("key") ||
-        key.toLowerCase().includes("token") ||
-        key.toLowerCase().includes("password")
-      ) {
-        maskedConfig[key] = maskedConfig[key].substring(0, 4) + "***";
+    if (session.defaultAuthProfile) {
+      response += `**Default Auth Profile:** ${session.defaultAuthProfile}\n`;
+    }
+    response += `**Auth Config:** ${maskAuthConfig(session.authConfig)}\n`;
+    if (session.authProfiles) {
+      response += `**Auth Profiles:**\n`;
+      for (const [name, profile] of Object.entries(session.authProfiles)) {
+        response += `- \`${name}\`${
+          name === session.defaultAuthProfile ? " (default)" : ""
+        }: ${profile.type} ${maskAuthConfig(profile)}\n`;
       }
-    });
-    response += `**Auth Config:** ${JSON.stringify(maskedConfig)}\n`;
+      response += `Call as a profile with \`call_api auth_profile="NAME"\`, or compare them with \`compare_profiles\`.\n`;
+    }
+  } else if (sessionManager.hasLockedCredentials(session.id)) {
+    response += `**Authentication:** 🔒 Stored, but the credential store is locked\n`;
+    response += `${sessionManager.credentialStoreError()}\n`;
   } else {
     response += `**Authentication:** Not configured\n`;
   }
 
+  if (session.requestDefaults) {
+    response += `**Request Defaults:** ${formatRequestDefaults(
+      session.requestDefaults
+    )}\n`;
+  }
+
+  const cookies = getHttpClient().getCookieJar(session.id).list();
+  if (cookies.length > 0) {
+    response += `**Cookies:** ${cookies
+      .map((cookie) => `\`${cookie.name}\` (${cookie.domain}${cookie.path})`)
+      .join(", ")}\n`;
+  }
+
+  if (session.history && session.history.length > 0) {
+    response += `**Recorded Calls:** ${session.history.length} (\`manage_session action="history" session_id="${session.id}"\`)\n`;
+  }
+
   if (session.metadata) {
     response += `\n**API Metadata:**\n`;
     if (session.metadata.title)
@@ -255,3 +323,298 @@ async function handleSessionInfo(sessionId?: string): Promise<string> {
 
   return response;
 }
+
+async function handleConfigureSession(
+  params: ManageSessionParams
+): Promise<string> {
+  const sessionId = params.session_id;
+  if (!sessionId) {
+    return `❌ **Session ID required**\n\nUsage: \`manage_session action="configure" session_id="SESSION_ID" timeout_ms=10000 retry='{"max_attempts": 5}'\`\n\nUse \`manage_session action="list"\` to see available sessions.`;
+  }
+
+  const session = sessionManager.getSession(sessionId);
+  if (!session) {
+    return `❌ **Session not found:** ${sessionId}\n\nUse \`manage_session action="list"\` to see available sessions.`;
+  }
+
+  if (params.timeout_ms === undefined && params.retry === undefined) {
+    return `❌ **Nothing to configure**\n\nProvide \`timeout_ms\` and/or \`retry\`, e.g.:\n\`manage_session action="configure" session_id="${sessionId}" timeout_ms=10000 retry='{"max_attempts": 5, "retry_on_status": [429, 503]}'\``;
+  }
+
+  sessionManager.setRequestDefaults(sessionId, {
+    ...(params.timeout_ms !== undefined
+      ? { timeoutMs: params.timeout_ms }
+      : {}),
+    retry: retryPolicyFromParams(params.retry),
+  });
+
+  const updated = sessionManager.getSession(sessionId)!;
+  let response = `✅ **Session defaults updated**\n\n`;
+  response += `**Session:** ${updated.name} (${updated.id})\n`;
+  response += `**Request Defaults:** ${formatRequestDefaults(
+    updated.requestDefaults ?? {}
+  )}\n\n`;
+  response += `Per-call \`timeout_ms\` and \`retry\` on \`call_api\` still override these defaults.`;
+  return response;
+}
+
+// Auth config as JSON with secret-looking values cut to their first characters
+function maskAuthConfig(authConfig: AuthConfig): string {
+  const maskedConfig = { ...authConfig.config };
+  Object.keys(maskedConfig).forEach((key) => {
+    // Paths into login responses only name where tokens are
+    if (key.endsWith("Path")) return;
+    if (
+      key.toLowerCase().includes("parameters") ||
+      key.toLowerCase().includes("key") ||
+      key.toLowerCase().includes("token") ||
+      key.toLowerCase().includes("secret") ||
+      key.toLowerCase().includes("password")
+    ) {
+      maskedConfig[key] = maskedConfig[key].substring(0, 4) + "***";
+    }
+  });
+  return JSON.stringify(maskedConfig);
+}
+
+function formatRequestDefaults(defaults: RequestDefaults): string {
+  const timeout = defaults.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const policy = resolveRetryPolicy(defaults.retry);
+  return `timeout ${timeout}ms, ${policy.maxAttempts} attempt(s), backoff ${
+    policy.baseDelayMs
+  }-${policy.maxDelayMs}ms, retry on ${policy.retryOnStatus.join("/")}${
+    policy.retryNonIdempotent ? " (all methods)" : " (idempotent methods)"
+  }`;
+}
+
+const DEFAULT_HISTORY_LIMIT = 20;
+
+// History actions fall back to the active session
+function resolveHistorySession(
+  sessionId?: string
+): ApiSession | string {
+  const session = sessionId
+    ? sessionManager.getSession(sessionId)
+    : sessionManager.getActiveSession();
+  if (session) return session;
+  return sessionId
+    ? `❌ **Session not found:** ${sessionId}\n\nUse \`manage_session action="list"\` to see available sessions.`
+    : `❌ **No active session**\n\nPass \`session_id\` or activate a session with \`manage_session action="activate"\`.`;
+}
+
+function formatHistoryStatus(entry: HistoryEntry): string {
+  const status = entry.success ? "✅" : "❌";
+  return `${status} ${entry.statusCode ?? entry.error ?? "no response"}`;
+}
+
+async function handleHistory(
+  sessionId?: string,
+  limit: number = DEFAULT_HISTORY_LIMIT
+): Promise<string> {
+  const session = resolveHistorySession(sessionId);
+  if (typeof session === "string") return session;
+
+  const history = sessionManager.getHistory(session.id);
+  if (history.length === 0) {
+    return `📜 **No recorded calls for ${session.name}**\n\nCalls made with \`call_api\` against this session's API are recorded here.`;
+  }
+
+  let response = `📜 **Call History: ${session.name}** (${Math.min(
+    limit,
+    history.length
+  )} of ${history.length})\n\n`;
+  for (const entry of history.slice(0, limit)) {
+    response += `- \`${entry.id}\` ${new Date(
+      entry.timestamp
+    ).toLocaleString()} - **${entry.method}** ${entry.path} (${
+      entry.operationId
+    }) ${formatHistoryStatus(entry)}`;
+    if (entry.executionTime !== undefined) {
+      response += `, ${entry.executionTime}ms`;
+    }
+    if (entry.authProfile) response += ` - as \`${entry.authProfile}\``;
+    if (entry.replayOf) response += ` - replay of \`${entry.replayOf}\``;
+    response += `\n`;
+  }
+  response += `\n**Actions:**\n`;
+  response += `- Details: \`manage_session action="show_call" session_id="${session.id}" entry_id="ENTRY_ID"\`\n`;
+  response += `- Replay: \`manage_session action="replay" session_id="${session.id}" entry_id="ENTRY_ID" overrides='{"param": "value"}'\``;
+  return response;
+}
+
+async function handleShowCall(
+  sessionId?: string,
+  entryId?: string
+): Promise<string> {
+  const session = resolveHistorySession(sessionId);
+  if (typeof session === "string") return session;
+  if (!entryId) {
+    return `❌ **Entry ID required**\n\nUsage: \`manage_session action="show_call" session_id="${session.id}" entry_id="ENTRY_ID"\`\n\nUse \`manage_session action="history"\` to see recorded calls.`;
+  }
+
+  const entry = sessionManager.getHistoryEntry(session.id, entryId);
+  if (!entry) {
+    return `❌ **Call not found:** ${entryId}\n\nUse \`manage_session action="history" session_id="${session.id}"\` to see recorded calls.`;
+  }
+
+  let response = `📜 **Recorded Call ${entry.id}**\n\n`;
+  response += `**Time:** ${new Date(entry.timestamp).toLocaleString()}\n`;
+  response += `**Operation:** ${entry.operationId}\n`;
+  response += `**Method:** ${entry.method}\n`;
+  response += `**Path:** ${entry.path}\n`;
+  response += `**OpenAPI Spec:** ${entry.docsPath}\n`;
+  response += `**Base URL:** ${entry.baseUrl}\n`;
+  if (entry.authProfile) response += `**Auth Profile:** ${entry.authProfile}\n`;
+  if (entry.replayOf) response += `**Replay Of:** ${entry.replayOf}\n`;
+  response += `**Status:** ${formatHistoryStatus(entry)}\n`;
+  if (entry.executionTime !== undefined) {
+    response += `**Execution Time:** ${entry.executionTime}ms\n`;
+  }
+  if (entry.error) response += `**Error:** ${entry.error}\n`;
+
+  response += `\n**Parameters:**\n\`\`\`json\n${JSON.stringify(
+    maskParameters(entry.parameters),
+    null,
+    2
+  )}\n\`\`\`\n`;
+
+  if (entry.request) {
+    response += `\n**Request** (secrets masked):\n\`\`\`http\n${entry.request.method} ${entry.request.url}\n`;
+    for (const [key, value] of Object.entries(entry.request.headers)) {
+      response += `${key}: ${value}\n`;
+    }
+    if (entry.request.body !== undefined) {
+      response += `\n${entry.request.body}\n`;
+    } else if (entry.request.multipart) {
+      response += `\n`;
+      for (const part of entry.request.multipart) {
+        response += `[part ${part.name}] ${
+          part.path ? `file ${part.path}` : part.value
+        }\n`;
+      }
+    }
+    response += `\`\`\`\n`;
+  }
+
+  if (entry.response !== undefined) {
+    response += `\n**Response${
+      entry.responseTruncated ? " (truncated)" : ""
+    }:**\n\`\`\`\n${entry.response}\n\`\`\`\n`;
+  }
+
+  response += `\n**Replay:** \`manage_session action="replay" session_id="${session.id}" entry_id="${entry.id}"\``;
+  return response;
+}
+
+async function handleReplay(
+  sessionId?: string,
+  entryId?: string,
+  overrides?: Record<string, any>
+): Promise<string> {
+  const session = resolveHistorySession(sessionId);
+  if (typeof session === "string") return session;
+  if (!entryId) {
+    return `❌ **Entry ID required**\n\nUsage: \`manage_session action="replay" session_id="${session.id}" entry_id="ENTRY_ID"\`\n\nUse \`manage_session action="history"\` to see recorded calls.`;
+  }
+
+  const entry = sessionManager.getHistoryEntry(session.id, entryId);
+  if (!entry) {
+    return `❌ **Call not found:** ${entryId}\n\nUse \`manage_session action="history" session_id="${session.id}"\` to see recorded calls.`;
+  }
+
+  const apiInfo = await specCache.getApiInfo(entry.docsPath);
+  const operation = apiInfo?.operations.find(
+    (op) => op.operationId === entry.operationId
+  );
+  if (!operation) {
+    return `❌ **Cannot replay ${entry.id}**\n\nOperation '${entry.operationId}' is no longer in ${entry.docsPath}.`;
+  }
+
+  const httpClient = getHttpClient();
+  // Replays run as the profile the call was made as
+  const authConfig = httpClient.getAuthConfig(
+    entry.docsPath,
+    entry.authProfile
+  );
+  if (
+    !authConfig &&
+    entry.authProfile &&
+    entry.authProfile !== NO_AUTH_PROFILE
+  ) {
+    return `❌ **Cannot replay ${entry.id}**\n\nAuth profile '${entry.authProfile}' is no longer configured for ${entry.docsPath}.`;
+  }
+  if (entry.inlineAuth && !authConfig) {
+    return `❌ **Cannot replay ${entry.id}**\n\nIt was called with \`auth_config\`, which is not recorded. Save the credentials with \`manage_auth\` and replay again.`;
+  }
+  const parameters = mergeReplayParameters(
+    entry.replayParameters ?? entry.parameters,
+    overrides
+  );
+  // Masked values are all that is left when the store was locked
+  if (JSON.stringify(parameters).includes('"****"')) {
+    return `❌ **Cannot replay ${entry.id}**\n\nIts secret parameters were not stored (${sessionManager.credentialStoreError() ?? "credential store unavailable"}). Pass them again in \`overrides\`.`;
+  }
+  const requestOptions = {
+    contentType: entry.contentType,
+    sessionKey: profileSessionKey(session.id, entry.authProfile),
+    timeoutMs: session.requestDefaults?.timeoutMs,
+    retry: session.requestDefaults?.retry,
+    binaryResponse: entry.binaryResponse,
+    downloadDir: entry.downloadDir,
+  };
+  const result = entry.pagination
+    ? await fetchAllPages(
+        httpClient,
+        entry.baseUrl,
+        operation,
+        parameters,
+        authConfig,
+        requestOptions,
+        entry.pagination
+      )
+    : await httpClient.callOperation(
+        entry.baseUrl,
+        operation,
+        parameters,
+        authConfig,
+        requestOptions
+      );
+
+  const replay = createHistoryEntry({
+    docsPath: entry.docsPath,
+    operation,
+    baseUrl: entry.baseUrl,
+    parameters,
+    contentType: entry.contentType,
+    binaryResponse: entry.binaryResponse,
+    downloadDir: entry.downloadDir,
+    pagination: entry.pagination,
+    authConfig,
+    inlineAuth: entry.inlineAuth,
+    result,
+    replayOf: entry.id,
+    authProfile: entry.authProfile,
+  });
+  sessionManager.addHistoryEntry(session.id, replay);
+
+  let response = `🔁 **Replayed ${entry.id}**\n\n`;
+  response += `**Operation:** ${operation.operationId}\n`;
+  response += `**Method:** ${operation.method}\n`;
+  response += `**Path:** ${operation.path}\n`;
+  if (entry.authProfile) response += `**Auth Profile:** ${entry.authProfile}\n`;
+  if (overrides && Object.keys(overrides).length > 0) {
+    response += `**Overrides:** ${JSON.stringify(maskParameters(overrides))}\n`;
+  }
+  response += `**Status:** ${formatHistoryStatus(replay)} (originally ${formatHistoryStatus(
+    entry
+  )})\n`;
+  response += `**Execution Time:** ${result.executionTime}ms\n`;
+  response += `**History ID:** ${replay.id}\n`;
+  if (result.error) response += `**Error:** ${result.error}\n`;
+  if (replay.response !== undefined) {
+    response += `\n**Response Data${
+      replay.responseTruncated ? " (truncated)" : ""
+    }:**\n\`\`\`\n${replay.response}\n\`\`\``;
+  }
+  return response;
+}
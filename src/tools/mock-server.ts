@@ -0,0 +1,143 @@
+import {
+  CallToolResult,
+  TextContent,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { MockServerParams } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import {
+  DEFAULT_MOCK_PORT,
+  mockServerManager,
+  type MockServerInfo,
+} from "../utils/mock-server.js";
+import { resolveDocsPath, specCache } from "../utils/spec-cache.js";
+
+const log = logger.child("mock_server");
+
+export async function mockServer(
+  params: MockServerParams
+): Promise<CallToolResult> {
+  try {
+    let response = "";
+
+    switch (params.action) {
+      case "start":
+        response = await handleStart(params);
+        break;
+      case "stop":
+        response = await handleStop(params.docs_path, params.port);
+        break;
+      case "list":
+        response = handleList();
+        break;
+      default:
+        response = `❌ **Unknown action:** ${params.action}\n\n**Available actions:**\n- start: Serve a spec from a local mock server\n- stop: Stop a mock server\n- list: Show running mock servers`;
+    }
+
+    return {
+      content: [{ type: "text", text: response } as TextContent],
+    };
+  } catch (error) {
+    log.error("Error managing mock server", error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ **Error managing mock server**\n\n${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+        } as TextContent,
+      ],
+    };
+  }
+}
+
+function basePathOf(servers: string[] | undefined): string {
+  try {
+    return new URL(servers?.[0] ?? "", "http://localhost").pathname.replace(
+      /\/$/,
+      ""
+    );
+  } catch {
+    return "";
+  }
+}
+
+async function handleStart(params: MockServerParams): Promise<string> {
+  if (!params.docs_path) {
+    return `❌ **docs_path required**\n\nUsage: \`mock_server action="start" docs_path="api.yaml"\``;
+  }
+
+  const apiInfo = await specCache.getApiInfo(params.docs_path, {
+    forceRefresh: params.force_refresh,
+  });
+  if (!apiInfo) {
+    return `❌ **Failed to parse OpenAPI specification from: ${params.docs_path}**\n\nPlease ensure the file exists and contains a valid OpenAPI/Swagger specification.`;
+  }
+
+  const info = await mockServerManager.start(
+    params.docs_path,
+    apiInfo,
+    params.port ?? DEFAULT_MOCK_PORT
+  );
+  const baseUrl = `${info.url}${basePathOf(apiInfo.servers)}`;
+
+  let response = `✅ **Mock server started for ${info.title}**\n\n`;
+  response += `**URL:** ${info.url}\n`;
+  response += `**Base URL:** ${baseUrl}\n`;
+  response += `**Operations:** ${apiInfo.operations.length}\n\n`;
+  response += `Responses come from the spec's examples and schemas. Requests with invalid path, query or body values get a 400 listing the problems; unknown routes get a 404.\n\n`;
+  response += `**Choosing a response:** send a \`Prefer\` header, e.g. \`Prefer: code=404\` or \`Prefer: example=NAME\`.\n\n`;
+  response += `**Next steps:**\n`;
+  response += `- Call it: \`call_api docs_path="${params.docs_path}" operation_id="OPERATION_ID" base_url="${baseUrl}"\`\n`;
+  response += `- Stop it: \`mock_server action="stop" port=${info.port}\``;
+  return response;
+}
+
+async function handleStop(
+  docsPath?: string,
+  port?: number
+): Promise<string> {
+  let stopped: MockServerInfo[];
+  if (port !== undefined) {
+    const info = await mockServerManager.stop(port);
+    stopped = info ? [info] : [];
+  } else if (docsPath) {
+    const key = resolveDocsPath(docsPath);
+    stopped = [];
+    for (const info of mockServerManager.list()) {
+      if (info.docsPath !== key) continue;
+      await mockServerManager.stop(info.port);
+      stopped.push(info);
+    }
+  } else {
+    stopped = await mockServerManager.stopAll();
+  }
+
+  if (stopped.length === 0) {
+    return `📋 **No matching mock server is running**\n\nUse \`mock_server action="list"\` to see running mock servers.`;
+  }
+  let response = `🛑 **Stopped ${stopped.length} mock server${
+    stopped.length === 1 ? "" : "s"
+  }**\n\n`;
+  for (const info of stopped) {
+    response += `- ${info.title} on port ${info.port} (${info.requestCount} requests served)\n`;
+  }
+  return response;
+}
+
+function handleList(): string {
+  const servers = mockServerManager.list();
+  if (servers.length === 0) {
+    return `📋 **No mock servers running**\n\nStart one with \`mock_server action="start" docs_path="api.yaml"\`.`;
+  }
+
+  let response = `📋 **Running Mock Servers (${servers.length})**\n\n`;
+  for (const info of servers) {
+    response += `### ${info.title}\n`;
+    response += `**URL:** ${info.url}\n`;
+    response += `**OpenAPI:** ${info.docsPath}\n`;
+    response += `**Started:** ${new Date(info.startedAt).toLocaleString()}\n`;
+    response += `**Requests Served:** ${info.requestCount}\n\n`;
+  }
+  return response.trim() + "\n";
+}
@@ -23,6 +23,90 @@ export const DiscoverApisSchema = z.object({
     ),
 });
 
+export const RetryPolicySchema = z
+  .object({
+    max_attempts: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .optional()
+      .describe("Total attempts including the first one. Default: 3"),
+    base_delay_ms: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Base delay for exponential backoff. Default: 500"),
+    max_delay_ms: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe(
+        "Upper bound for a single backoff or Retry-After wait. Default: 30000"
+      ),
+    retry_on_status: z
+      .array(z.number().int())
+      .optional()
+      .describe(
+        "Status codes that trigger a retry. Default: [408, 425, 429, 500, 502, 503, 504]"
+      ),
+    retry_non_idempotent: z
+      .boolean()
+      .optional()
+      .describe(
+        "Also retry POST/PATCH requests. Default: false (only GET, HEAD, OPTIONS, PUT, DELETE, TRACE)"
+      ),
+  })
+  .describe(
+    'Optional: Retry policy with exponential backoff and jitter that honors Retry-After. Example: {"max_attempts": 5, "retry_on_status": [429, 503]}'
+  );
+
+export const PaginationSchema = z
+  .object({
+    mode: z
+      .enum(["auto", "link", "cursor", "offset", "page"])
+      .default("auto")
+      .describe(
+        "How to find the next page. 'auto' tries a Link rel=\"next\" header, then next/cursor fields in the body, then offset and page query parameters. Default: 'auto'"
+      ),
+    max_pages: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Maximum number of pages to fetch. Default: 10"),
+    max_items: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe("Stop once this many items have been collected"),
+    items_path: z
+      .string()
+      .optional()
+      .describe(
+        "Dot path to the items array in each page, e.g. 'data.items'. Detected automatically when omitted"
+      ),
+    cursor_path: z
+      .string()
+      .optional()
+      .describe(
+        "Dot path to the next cursor or next-page URL in the body, e.g. 'meta.next_cursor'"
+      ),
+    cursor_param: z
+      .string()
+      .optional()
+      .describe(
+        "Query parameter that receives the cursor. Detected from the operation parameters when omitted"
+      ),
+  })
+  .describe(
+    'Optional: Follow pagination and return the merged items of every page. Example: {"max_pages": 5} or {"mode": "cursor", "items_path": "data", "cursor_path": "meta.next"}'
+  );
+
 export const CallApiSchema = z.object({
   docs_path: z
     .string()
@@ -38,7 +122,7 @@ export const CallApiSchema = z.object({
     .record(z.any())
     .optional()
     .describe(
-      'Optional: JSON object containing parameters for the API operation. Include path parameters (id, userId), query parameters (limit, filter), header parameters (X-Custom-Header), and request body (use \'body\' key). Example: {"id": 123, "limit": 10, "body": {"name": "John"}}'
+      'Optional: JSON object containing parameters for the API operation. Include path parameters (id, userId), query parameters (limit, filter), header parameters (X-Custom-Header), and request body (use \'body\' key). Example: {"id": 123, "limit": 10, "body": {"name": "John"}}. For multipart/form-data file uploads, give binary fields a local file path (or {"path": "./avatar.png", "filename": "me.png", "contentType": "image/png"}). Example: {"body": {"file": "./data.csv", "note": "import"}}'
     ),
   auth_config: z
     .record(z.string())
@@ -52,6 +136,76 @@ export const CallApiSchema = z.object({
     .describe(
       "Optional: Override the base URL from OpenAPI specification. Use full URL with protocol. Example: 'https://api.staging.example.com' or 'http://localhost:3000'"
     ),
+  content_type: z
+    .string()
+    .optional()
+    .describe(
+      "Optional: Media type to send the request body as, chosen from the operation's declared request content types (see describe_api). Drives body serialization: JSON (incl. application/merge-patch+json), application/x-www-form-urlencoded, text/plain, application/xml. Defaults to JSON when declared, otherwise the first declared type."
+    ),
+  binary_response: z
+    .enum(["auto", "file", "inline"])
+    .default("auto")
+    .describe(
+      "Optional: How to return binary responses (PDFs, images, archives, ...). 'auto' and 'inline' return images and small files inline and save larger ones to the download directory, 'file' always saves to disk. Default: 'auto'"
+    ),
+  download_dir: z
+    .string()
+    .optional()
+    .describe(
+      "Optional: Directory where binary responses are saved. Defaults to the OPENAPI_CLIENT_MCP_DOWNLOAD_DIR environment variable or ~/.openapi-client-mcp/downloads"
+    ),
+  timeout_ms: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional: Per-attempt request timeout in milliseconds. Overrides the session default (manage_session action='configure'). Default: 30000"
+    ),
+  retry: RetryPolicySchema.optional(),
+  paginate: PaginationSchema.optional(),
+  auth_profile: z
+    .string()
+    .optional()
+    .describe(
+      "Optional: Credential profile to call as, saved with manage_auth profile='NAME' (e.g. 'admin', 'user'). 'none' sends no credentials. Default: the default profile"
+    ),
+  compare_profiles: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Optional: Send the same call once per profile and compare status codes and responses, for permission testing. Example: ['admin', 'user', 'none']. Every profile sends a real request, so mind non-idempotent operations"
+    ),
+  dry_run: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Optional: Build the request without sending it and return the URL, method, headers (secrets masked), body, and equivalent curl, HTTPie and fetch commands. Default: false"
+    ),
+  mock: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Optional: Answer from the spec instead of the network. The response is built from the operation's documented examples and schemas, so no server is needed. Default: false"
+    ),
+  mock_prefer: z
+    .string()
+    .optional()
+    .describe(
+      "Optional: With mock, choose the documented response like a Prefer header: 'code=404' for a status code, 'example=name' for a named example, or both ('code=200, example=cat')."
+    ),
+  validate_request: z
+    .boolean()
+    .default(true)
+    .describe(
+      "Optional: Validate parameters and the request body against the operation's schemas (types, enums, formats, ranges, patterns) before sending. Set to false to deliberately send invalid data. Default: true"
+    ),
+  force_refresh: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Optional: Re-read and re-parse the OpenAPI specification instead of using the cached copy. The cache already refreshes automatically when the file, a local file its $refs point to, or the remote document changes; use this after changing a remote $ref target. Default: false"
+    ),
 });
 
 export const DescribeApiSchema = z.object({
@@ -66,6 +220,12 @@ export const DescribeApiSchema = z.object({
     .describe(
       "Optional: Specific operation ID to get detailed information about. If omitted, returns general API overview. Use list_operations to see available operation IDs."
     ),
+  force_refresh: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Optional: Re-read and re-parse the OpenAPI specification instead of using the cached copy. The cache already refreshes automatically when the file, a local file its $refs point to, or the remote document changes; use this after changing a remote $ref target. Default: false"
+    ),
 });
 
 export const ListOperationsSchema = z.object({
@@ -86,6 +246,93 @@ export const ListOperationsSchema = z.object({
     .describe(
       "Optional: Filter operations by HTTP method. Valid values: 'get', 'post', 'put', 'patch', 'delete', 'head', 'options'. Case-insensitive."
     ),
+  force_refresh: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Optional: Re-read and re-parse the OpenAPI specification instead of using the cached copy. The cache already refreshes automatically when the file, a local file its $refs point to, or the remote document changes; use this after changing a remote $ref target. Default: false"
+    ),
+});
+
+export const GenerateCodeSchema = z.object({
+  docs_path: z
+    .string()
+    .describe(
+      "REQUIRED: Path to OpenAPI file or URL. Same format as call_api tool."
+    ),
+  operation_id: z
+    .string()
+    .describe(
+      "REQUIRED: The exact operationId to generate client code for. Use list_operations to see available operation IDs."
+    ),
+  targets: z
+    .array(z.enum(["curl", "typescript", "python", "go"]))
+    .default(["curl", "typescript", "python", "go"])
+    .describe(
+      "Optional: Languages to generate. 'curl', 'typescript' (fetch), 'python' (requests), 'go' (net/http). Default: all"
+    ),
+  parameters: z
+    .record(z.any())
+    .optional()
+    .describe(
+      "Optional: Parameter values to put in the code, same format as call_api. Required parameters that are left out get example values from the schema."
+    ),
+  auth_type: z
+    .enum([
+      "apiKey",
+      "bearer",
+      "basic",
+      "oauth2",
+      "sigv4",
+      "hmac",
+      "digest",
+      "login",
+    ])
+    .optional()
+    .describe(
+      "Optional: Auth type to add placeholders for (same types as manage_auth). Defaults to the schemes of the operation's security requirement, or the auth configured with manage_auth for this API. sigv4 and hmac sign the request with placeholder secrets; digest adds nothing until a server challenge; login puts a placeholder token where the login token goes."
+    ),
+  base_url: z
+    .string()
+    .optional()
+    .describe(
+      "Optional: Override the base URL from the OpenAPI specification."
+    ),
+  force_refresh: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Optional: Re-read and re-parse the OpenAPI specification instead of using the cached copy. Default: false"
+    ),
+});
+
+export const MockServerSchema = z.object({
+  action: z
+    .enum(["start", "stop", "list"])
+    .describe(
+      "REQUIRED: 'start' serves the spec's operations from a local HTTP mock server, 'stop' shuts one down, 'list' shows running mock servers."
+    ),
+  docs_path: z
+    .string()
+    .optional()
+    .describe(
+      "Path to OpenAPI file or URL. Required for 'start'; for 'stop' it stops every mock server of this spec when no port is given."
+    ),
+  port: z
+    .number()
+    .int()
+    .min(0)
+    .max(65535)
+    .optional()
+    .describe(
+      "Optional: Port to listen on (127.0.0.1) or to stop. Default for 'start': 4010; 0 picks a free port."
+    ),
+  force_refresh: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Optional: Re-read and re-parse the OpenAPI specification instead of using the cached copy. Default: false"
+    ),
 });
 
 export const ManageAuthSchema = z.object({
@@ -95,14 +342,46 @@ export const ManageAuthSchema = z.object({
       "REQUIRED: Path to OpenAPI file or URL that this authentication applies to. When user provides a specific OpenAPI file/URL, use it directly. Each API source can have its own authentication configuration."
     ),
   auth_type: z
-    .enum(["apiKey", "bearer", "basic", "oauth2"])
+    .enum([
+      "apiKey",
+      "bearer",
+      "basic",
+      "oauth2",
+      "sigv4",
+      "hmac",
+      "digest",
+      "login",
+    ])
     .describe(
-      "REQUIRED: Type of authentication method. 'apiKey' for API key in header, 'bearer' for Bearer token, 'basic' for username/password, 'oauth2' for OAuth2 access token."
+      "REQUIRED: Type of authentication method. 'apiKey' for API key (header, query or cookie), 'bearer' for Bearer token, 'basic' for username/password, 'oauth2' for an OAuth2 access token or client credentials, 'sigv4' for AWS Signature V4 request signing (API Gateway IAM auth), 'hmac' for HMAC request signatures with a shared secret, 'digest' for HTTP Digest username/password, 'login' for a token obtained by calling the spec's login operation."
     ),
   config: z
     .record(z.string())
     .describe(
-      'REQUIRED: Authentication configuration object. For apiKey: {"headerName": "X-API-Key", "apiKey": "your-key"}. For bearer: {"token": "your-token"}. For basic: {"username": "user", "password": "pass"}. For oauth2: {"accessToken": "your-token"}.'
+      'REQUIRED: Authentication configuration object. For apiKey: {"apiKey": "your-key"} when the spec defines the scheme, otherwise also {"headerName": "X-API-Key"} or {"in": "query", "name": "api_key"}. For bearer: {"token": "your-token"}. For basic: {"username": "user", "password": "pass"}. For oauth2: {"accessToken": "your-token"}, or client credentials {"clientId": "id", "clientSecret": "secret", "tokenUrl": "https://auth.example.com/token", "scopes": "read write", "audience": "optional"} to fetch and refresh tokens automatically (tokenUrl and scopes default to the spec\'s clientCredentials flow), or a browser login {"grantType": "authorization_code", "clientId": "id", "authorizationUrl": "...", "tokenUrl": "...", "redirectPort": "optional"} (URLs default to the spec\'s authorizationCode flow). For sigv4: {"accessKeyId": "AKIA...", "secretAccessKey": "secret", "sessionToken": "optional", "region": "us-east-1", "service": "execute-api"} (region and service default to those in an amazonaws.com server URL; service defaults to execute-api). For hmac: {"secret": "shared-secret", "keyId": "optional", "algorithm": "sha256", "encoding": "hex|base64", "components": "method,path,timestamp,body" (also url, host, nonce, bodyHash, keyId, header:Name), "separator": "\\n", "header": "X-Signature", "template": "{signature}" (also {keyId}, {timestamp}, {nonce}), "timestampHeader": "X-Timestamp", "timestampFormat": "seconds|milliseconds|iso", "nonceHeader": "optional"}. For digest: {"username": "user", "password": "pass"}; the 401 challenge is answered automatically. For login: {"operationId": "login", "parameters": "{\\"body\\": {\\"username\\": \\"me\\", \\"password\\": \\"${env:APP_PASSWORD}\\"}}", "tokenPath": "data.token", "expiresInPath": "optional", "refreshTokenPath": "optional", "refreshOperationId": "optional"}; the login runs on first use and again after a 401, and the token is sent as a Bearer token (or per headerName/tokenPrefix, or the spec\'s scheme). Any value may be a secret reference such as "${env:API_KEY}" or "${file:/run/secrets/token}", stored as written and resolved only when requests are sent.'
+    ),
+  scheme: z
+    .string()
+    .optional()
+    .describe(
+      "Optional: Name of the security scheme in the spec (components.securitySchemes or securityDefinitions) these credentials are for. Defaults to the only scheme matching auth_type. The spec then decides where API keys are sent. Configure each scheme when operations require several together."
+    ),
+  profile: z
+    .string()
+    .regex(/^[\w.-]+$/, "letters, digits, '_', '.' and '-' only")
+    .refine(
+      (name) => name !== "none",
+      "'none' is reserved for calls without credentials"
+    )
+    .optional()
+    .describe(
+      "Optional: Save these credentials as a named profile (e.g. 'admin', 'user') instead of the default credentials. Call as a profile with call_api auth_profile='NAME'. The first profile saved becomes the default."
+    ),
+  make_default: z
+    .boolean()
+    .optional()
+    .describe(
+      "Optional: With profile, make it the default used by call_api when no auth_profile is given."
     ),
 });
 
@@ -134,16 +413,52 @@ export const InitApiSchema = z.object({
 
 export const ManageSessionSchema = z.object({
   action: z
-    .enum(["list", "activate", "delete", "info"])
+    .enum([
+      "list",
+      "activate",
+      "delete",
+      "info",
+      "configure",
+      "history",
+      "show_call",
+      "replay",
+    ])
     .describe(
-      "REQUIRED: Action to perform. 'list' shows all sessions, 'activate' sets active session, 'delete' removes session, 'info' shows session details."
+      "REQUIRED: Action to perform. 'list' shows all sessions, 'activate' sets active session, 'delete' removes session, 'info' shows session details, 'configure' sets the session's default timeout and retry policy, 'history' lists recent calls, 'show_call' shows one recorded call in full, 'replay' sends a recorded call again."
     ),
   session_id: z
     .string()
     .optional()
     .describe(
-      "Optional: Session ID for activate, delete, or info actions. Not needed for 'list' action. Use manage_session action='list' to see available session IDs."
+      "Optional: Session ID for activate, delete, info, or configure actions. Not needed for 'list' action. Use manage_session action='list' to see available session IDs."
     ),
+  timeout_ms: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional: For 'configure' - default per-attempt timeout in milliseconds for calls to this session's API."
+    ),
+  retry: RetryPolicySchema.optional(),
+  entry_id: z
+    .string()
+    .optional()
+    .describe(
+      "Optional: For 'show_call' and 'replay' - ID of a recorded call from manage_session action='history'."
+    ),
+  overrides: z
+    .record(z.any())
+    .optional()
+    .describe(
+      'Optional: For \'replay\' - parameters merged over the recorded ones (same format as call_api parameters); an object body is merged field by field. Example: {"limit": 50} or {"body": {"name": "new"}}'
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Optional: For 'history' - number of most recent calls to show. Default: 20"),
 });
 
 // Type definitions
@@ -151,6 +466,8 @@ export type DiscoverApisParams = z.infer<typeof DiscoverApisSchema>;
 export type CallApiParams = z.infer<typeof CallApiSchema>;
 export type DescribeApiParams = z.infer<typeof DescribeApiSchema>;
 export type ListOperationsParams = z.infer<typeof ListOperationsSchema>;
+export type GenerateCodeParams = z.infer<typeof GenerateCodeSchema>;
+export type MockServerParams = z.infer<typeof MockServerSchema>;
 export type ManageAuthParams = z.infer<typeof ManageAuthSchema>;
 export type InitApiParams = z.infer<typeof InitApiSchema>;
 export type ManageSessionParams = z.infer<typeof ManageSessionSchema>;
@@ -162,10 +479,13 @@ export interface ApiInfo {
   path: string;
   title: string;
   version: string;
+  // `openapi` or `swagger` field of the document, e.g. "3.1.0" or "2.0"
+  specVersion?: string;
   description?: string;
   servers?: string[];
   isRemote: boolean;
   operations: OperationInfo[];
+  securitySchemes?: SecuritySchemeInfo[];
 }
 
 export interface OperationInfo {
@@ -178,6 +498,9 @@ export interface OperationInfo {
   parameters?: ParameterInfo[];
   requestBody?: RequestBodyInfo;
   responses?: Record<string, ResponseInfo>;
+  // Alternatives, any one of which authorizes the call. An empty list means
+  // the operation needs no auth; undefined means the spec does not say.
+  security?: SecurityRequirement[];
 }
 
 export interface ParameterInfo {
@@ -186,12 +509,31 @@ export interface ParameterInfo {
   required: boolean;
   schema: any;
   description?: string;
+  style?: string;
+  explode?: boolean;
+  allowReserved?: boolean;
+  // Set when the parameter is described with `content` instead of `schema`
+  contentType?: string;
+}
+
+export interface EncodingInfo {
+  contentType?: string;
+}
+
+export interface MediaTypeInfo {
+  schema?: any;
+  encoding?: Record<string, EncodingInfo>;
+  example?: any;
+  // Named examples, values only
+  examples?: Record<string, any>;
 }
 
 export interface RequestBodyInfo {
   required: boolean;
+  // Preferred media type (JSON when declared, otherwise the first one)
   contentType: string;
   schema: any;
+  content: Record<string, MediaTypeInfo>;
   description?: string;
 }
 
@@ -199,11 +541,209 @@ export interface ResponseInfo {
   description: string;
   contentType?: string;
   schema?: any;
+  content?: Record<string, MediaTypeInfo>;
 }
 
 export interface AuthConfig {
-  type: "apiKey" | "bearer" | "basic" | "oauth2";
+  type:
+    | "apiKey"
+    | "bearer"
+    | "basic"
+    | "oauth2"
+    | "sigv4"
+    | "hmac"
+    | "digest"
+    | "login";
   config: Record<string, string>;
+  // Security scheme of the spec these credentials were configured for
+  scheme?: string;
+  // Credentials for individual security schemes of the spec, by scheme name
+  schemes?: Record<string, AuthConfig>;
+}
+
+export interface OAuthFlowInfo {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes: Record<string, string>;
+}
+
+// A security scheme from components.securitySchemes (OpenAPI 3) or
+// securityDefinitions (Swagger 2)
+export interface SecuritySchemeInfo {
+  name: string;
+  type: "apiKey" | "http" | "oauth2" | "openIdConnect" | "mutualTLS";
+  description?: string;
+  // apiKey: where the key goes and the header, query or cookie name
+  in?: "header" | "query" | "cookie";
+  paramName?: string;
+  // x-amazon-apigateway-authtype, e.g. "awsSigv4" for API Gateway IAM auth
+  authType?: string;
+  // http: "basic", "bearer", "digest", ...
+  scheme?: string;
+  bearerFormat?: string;
+  // oauth2: keyed by implicit, password, clientCredentials, authorizationCode
+  flows?: Record<string, OAuthFlowInfo>;
+  openIdConnectUrl?: string;
+}
+
+// Schemes that must all be satisfied together
+export type SecurityRequirement = {
+  scheme: SecuritySchemeInfo;
+  scopes: string[];
+}[];
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOnStatus: number[];
+  retryNonIdempotent: boolean;
+}
+
+export interface RequestDefaults {
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy>;
+}
+
+export interface RequestOptions {
+  contentType?: string;
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy>;
+  // Key of the cookie jar used to capture and replay cookies
+  sessionKey?: string;
+  binaryResponse?: BinaryResponseMode;
+  downloadDir?: string;
+  // Absolute URL requested instead of one built from the operation path
+  // and path/query parameters
+  urlOverride?: string;
+}
+
+export type BinaryResponseMode = "auto" | "file" | "inline";
+
+export interface BinaryResponseInfo {
+  contentType: string;
+  size: number;
+  filename: string;
+  savedPath?: string;
+  // Base64 payload, present when the response is small enough to inline
+  base64?: string;
+}
+
+export interface ValidationIssue {
+  // Dotted path of the offending value, e.g. "body.items[0].name"
+  path: string;
+  message: string;
+}
+
+export interface PreparedRequestPart {
+  name: string;
+  value?: string;
+  // Set for file parts
+  filename?: string;
+  path?: string;
+  contentType?: string;
+  size?: number;
+}
+
+// A fully built request that has not been sent
+export interface PreparedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  multipart?: PreparedRequestPart[];
+}
+
+// The parts of a finished request that signatures (SigV4, HMAC, Digest)
+// cover; `body` as sent, when it is not multipart
+export interface SignableRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+// One recorded call_api request, kept with the session for review/replay
+export interface HistoryEntry {
+  id: string;
+  timestamp: string;
+  docsPath: string;
+  operationId: string;
+  method: string;
+  path: string;
+  baseUrl: string;
+  // Secret-looking values masked, at any depth
+  parameters: Record<string, any>;
+  // The parameters as sent, when masking changed them; kept in the
+  // encrypted credential store, never in sessions.json
+  replayParameters?: Record<string, any>;
+  contentType?: string;
+  binaryResponse?: BinaryResponseMode;
+  downloadDir?: string;
+  pagination?: PaginationOptions;
+  // Set when the call used auth_config passed to call_api, which is not
+  // recorded
+  inlineAuth?: boolean;
+  // The resolved request with secrets masked
+  request?: PreparedRequest;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  executionTime?: number;
+  // Response body with secret-looking fields masked, truncated to keep
+  // sessions.json small
+  response?: string;
+  responseTruncated?: boolean;
+  // Entry this call replayed, if any
+  replayOf?: string;
+  // Credential profile the call was made as, when not the default
+  authProfile?: string;
+}
+
+export interface ContractReport {
+  statusCode: number;
+  // Key of `operation.responses` the status matched, e.g. "200", "4XX" or
+  // "default"; undefined when the status is undocumented
+  documentedAs?: string;
+  // Documented media type the response matched
+  contentType?: string;
+  issues: ValidationIssue[];
+  // Fields returned by the server that the schema does not declare
+  undocumentedFields: string[];
+}
+
+export interface PaginationOptions {
+  mode?: "auto" | "link" | "cursor" | "offset" | "page";
+  maxPages?: number;
+  maxItems?: number;
+  itemsPath?: string;
+  cursorPath?: string;
+  cursorParam?: string;
+}
+
+export interface PaginationSummary {
+  // Strategy used to reach the second page; "none" for a single page
+  strategy: "none" | "link" | "cursor" | "offset" | "page";
+  pages: number;
+  items: number;
+  truncated: boolean;
+  stopReason: string;
+}
+
+export interface AttemptInfo {
+  attempt: number;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  // Wait before the next attempt, when one followed
+  retryDelayMs?: number;
+  // Failed with 401 and was retried with a new OAuth2 token
+  tokenRefreshed?: boolean;
+  // Failed with a 401 HTTP Digest challenge and was retried answering it
+  digestChallenged?: boolean;
+  // Failed with 401 and was retried after running the login operation again
+  loggedInAgain?: boolean;
 }
 
 export interface ApiCallResult {
@@ -213,4 +753,11 @@ export interface ApiCallResult {
   error?: string;
   headers?: Record<string, string>;
   executionTime?: number;
+  binary?: BinaryResponseInfo;
+  attempts?: AttemptInfo[];
+  // Final request URL, before any redirects
+  url?: string;
+  // The request as sent, without cookies added during redirects
+  request?: PreparedRequest;
+  pagination?: PaginationSummary;
 }
@@ -0,0 +1,95 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import type { BinaryResponseInfo, RequestOptions } from "../types/index.js";
+import { extensionFromMimeType } from "./mime-types.js";
+
+const MAX_INLINE_IMAGE_BYTES = 1024 * 1024;
+const MAX_INLINE_BLOB_BYTES = 256 * 1024;
+
+export function getDownloadDir(override?: string): string {
+  const dir =
+    override ||
+    process.env.OPENAPI_CLIENT_MCP_DOWNLOAD_DIR ||
+    path.join(os.homedir(), ".openapi-client-mcp", "downloads");
+  return path.resolve(process.cwd(), dir);
+}
+
+// Heuristic for responses without a Content-Type header
+export function looksLikeText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 1024);
+  if (sample.includes(0)) return false;
+  return !sample.toString("utf8").includes("\uFFFD");
+}
+
+function filenameFromDisposition(disposition: string | null): string | null {
+  if (!disposition) return null;
+  const extended = disposition.match(/filename\*\s*=\s*[^']*''([^;]+)/i);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // Fall through to the plain filename parameter
+    }
+  }
+  const plain = disposition.match(/filename\s*=\s*"?([^";]+)"?/i);
+  return plain ? plain[1].trim() : null;
+}
+
+function sanitizeFilename(filename: string): string {
+  const cleaned = path
+    .basename(filename)
+    .replace(/[^a-zA-Z0-9._-]/g, "_")
+    .replace(/^\.+/, "");
+  return cleaned || "download";
+}
+
+async function uniquePath(dir: string, filename: string): Promise<string> {
+  const ext = path.extname(filename);
+  const stem = filename.slice(0, filename.length - ext.length);
+  for (let i = 0; ; i++) {
+    const candidate = path.join(dir, i === 0 ? filename : `${stem}-${i}${ext}`);
+    try {
+      await fs.access(candidate);
+    } catch {
+      return candidate;
+    }
+  }
+}
+
+export async function handleBinaryResponse(
+  buffer: Buffer,
+  contentType: string,
+  disposition: string | null,
+  operationId: string,
+  options: RequestOptions = {}
+): Promise<BinaryResponseInfo> {
+  const mode = options.binaryResponse ?? "auto";
+  const filename = sanitizeFilename(
+    filenameFromDisposition(disposition) ||
+      `${operationId}-${Date.now()}${extensionFromMimeType(contentType)}`
+  );
+  const inlineLimit = contentType.toLowerCase().startsWith("image/")
+    ? MAX_INLINE_IMAGE_BYTES
+    : MAX_INLINE_BLOB_BYTES;
+  const canInline = buffer.length <= inlineLimit;
+
+  const info: BinaryResponseInfo = {
+    contentType,
+    size: buffer.length,
+    filename,
+  };
+
+  if (mode !== "file" && canInline) {
+    info.base64 = buffer.toString("base64");
+  }
+
+  if (mode === "file" || !canInline) {
+    const dir = getDownloadDir(options.downloadDir);
+    await fs.mkdir(dir, { recursive: true });
+    info.savedPath = await uniquePath(dir, filename);
+    await fs.writeFile(info.savedPath, buffer);
+  }
+
+  return info;
+}
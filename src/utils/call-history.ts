@@ -0,0 +1,164 @@
+import { randomBytes } from "crypto";
+import type {
+  ApiCallResult,
+  AuthConfig,
+  BinaryResponseMode,
+  HistoryEntry,
+  OperationInfo,
+  PaginationOptions,
+} from "../types/index.js";
+import {
+  isSecretName,
+  maskPreparedRequest,
+  maskSecretFields,
+} from "./code-snippets.js";
+import { apiKeyNames } from "./security.js";
+
+const MAX_RESPONSE_CHARS = 4000;
+
+// `"name": value` pairs of JSON text, for text that does not parse (e.g.
+// truncated responses)
+const JSON_PAIR =
+  /"((?:[^"\\]|\\.)*)"(\s*:\s*)("(?:[^"\\]|\\.)*"|-?\d[\d.eE+-]*|true|false|null)/g;
+
+function responseText(
+  result: ApiCallResult,
+  secretNames: string[]
+): string | undefined {
+  if (result.binary) {
+    const { contentType, size, savedPath } = result.binary;
+    return `[binary ${contentType}, ${size} bytes${
+      savedPath ? `, saved to ${savedPath}` : ""
+    }]`;
+  }
+  if (result.data === undefined) return undefined;
+  return typeof result.data === "string"
+    ? maskResponseText(result.data)
+    : JSON.stringify(maskSecretFields(result.data, secretNames), null, 2);
+}
+
+// Such as the token a login returns
+export function maskResponseText(text: string): string {
+  try {
+    const parsed = JSON.parse(text);
+    const masked = maskSecretFields(parsed);
+    return JSON.stringify(masked) === JSON.stringify(parsed)
+      ? text
+      : JSON.stringify(masked, null, 2);
+  } catch {
+    // Not JSON, or cut off: mask the pairs that are complete
+  }
+  return text.replace(JSON_PAIR, (pair, name, colon) =>
+    isSecretName(name) ? `"${name}"${colon}"****"` : pair
+  );
+}
+
+export function createHistoryEntry(details: {
+  docsPath: string;
+  operation: OperationInfo;
+  baseUrl: string;
+  parameters?: Record<string, any>;
+  contentType?: string;
+  binaryResponse?: BinaryResponseMode;
+  downloadDir?: string;
+  pagination?: PaginationOptions;
+  authConfig?: AuthConfig;
+  inlineAuth?: boolean;
+  result: ApiCallResult;
+  replayOf?: string;
+  authProfile?: string;
+}): HistoryEntry {
+  const { result } = details;
+  const secretNames = apiKeyNames(details.authConfig, details.operation);
+  const parameters = details.parameters ?? {};
+  const masked = maskParameters(parameters, secretNames);
+  const response = responseText(result, secretNames);
+  const entry: HistoryEntry = {
+    id: `call_${Date.now().toString(36)}${randomBytes(2).toString("hex")}`,
+    timestamp: new Date().toISOString(),
+    docsPath: details.docsPath,
+    operationId: details.operation.operationId,
+    method: details.operation.method,
+    path: details.operation.path,
+    baseUrl: details.baseUrl,
+    parameters: masked,
+    // Replays send the values as they were
+    replayParameters:
+      JSON.stringify(masked) === JSON.stringify(parameters)
+        ? undefined
+        : parameters,
+    contentType: details.contentType,
+    binaryResponse: details.binaryResponse,
+    downloadDir: details.downloadDir,
+    pagination: details.pagination,
+    inlineAuth: details.inlineAuth || undefined,
+    success: result.success,
+    statusCode: result.statusCode,
+    error: result.error,
+    executionTime: result.executionTime,
+    replayOf: details.replayOf,
+    authProfile: details.authProfile,
+  };
+  if (result.request) {
+    entry.request = maskPreparedRequest(result.request, secretNames);
+  }
+  if (response !== undefined) {
+    entry.response = response.slice(0, MAX_RESPONSE_CHARS);
+    entry.responseTruncated = response.length > MAX_RESPONSE_CHARS;
+  }
+  return entry;
+}
+
+export function maskParameters(
+  parameters: Record<string, any>,
+  extraSecretNames: string[] = []
+): Record<string, any> {
+  return maskSecretFields(parameters, extraSecretNames);
+}
+
+// Replay overrides replace the recorded parameters, except that an object
+// `body` is merged field by field at any depth; arrays are replaced
+export function mergeReplayParameters(
+  recorded: Record<string, any>,
+  overrides: Record<string, any> = {}
+): Record<string, any> {
+  const merged = { ...recorded, ...overrides };
+  if (isObject(recorded.body) && isObject(overrides.body)) {
+    merged.body = deepMerge(recorded.body, overrides.body);
+  }
+  return merged;
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepMerge(
+  target: Record<string, any>,
+  source: Record<string, any>
+): Record<string, any> {
+  const merged = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    merged[key] =
+      isObject(merged[key]) && isObject(value)
+        ? deepMerge(merged[key], value)
+        : value;
+  }
+  return merged;
+}
+
+// For entries recorded before history was masked; their parameters become
+// the replay parameters. False when there was nothing to mask.
+export function maskRecordedEntry(entry: HistoryEntry): boolean {
+  const before = JSON.stringify(entry);
+  const parameters = maskParameters(entry.parameters);
+  if (JSON.stringify(parameters) !== JSON.stringify(entry.parameters)) {
+    entry.replayParameters ??= entry.parameters;
+    entry.parameters = parameters;
+  }
+  if (entry.request) entry.request = maskPreparedRequest(entry.request);
+  if (entry.response !== undefined) {
+    entry.response = maskResponseText(entry.response);
+  }
+  return JSON.stringify(entry) !== before;
+}
@@ -0,0 +1,497 @@
+import type { PreparedRequest } from "../types/index.js";
+import { isUrlEncodedContentType } from "./request-body.js";
+
+// Renders a prepared request as equivalent commands and code, and masks
+// credentials before a request is shown to anyone
+
+const MASK = "****";
+// Matched against whole words of a name, so `author` or `sessionCount` stay
+// visible while `X-Auth-Token`, `pushToken` and `client_secret` are masked
+const SECRET_WORDS = new Set([
+  "auth",
+  "authorization",
+  "apikey",
+  "token",
+  "tokens",
+  "secret",
+  "secrets",
+  "password",
+  "passwords",
+  "passwd",
+  "signature",
+  "sessionid",
+  "credential",
+  "credentials",
+]);
+const ALWAYS_SECRET_HEADERS = ["authorization", "proxy-authorization", "cookie"];
+
+// `apiKey`, `X-API-KEY` and `session_id` become ["api", "key"], ["x", "api",
+// "key"] and ["session", "id"]
+function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z\d])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[\s._-]+/)
+    .filter(Boolean);
+}
+
+export function isSecretName(name: string): boolean {
+  const words = nameWords(name);
+  return words.some((word, index) => {
+    const next = words[index + 1];
+    return (
+      SECRET_WORDS.has(word) ||
+      (word === "api" && next === "key") ||
+      (word === "session" &&
+        (next === undefined || next === "id" || next === "key"))
+    );
+  });
+}
+
+function maskValue(value: string): string {
+  // Keep the scheme of `Bearer xyz` / `Basic xyz` so the shape stays readable
+  const scheme = value.match(/^([A-Za-z][\w-]*)\s+\S/);
+  return scheme ? `${scheme[1]} ${MASK}` : MASK;
+}
+
+function maskCookies(value: string): string {
+  return value
+    .split(";")
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair) => `${pair.split("=")[0]}=${MASK}`)
+    .join("; ");
+}
+
+function maskUrl(url: string, secretNames: Set<string>): string {
+  const parsed = new URL(url);
+  let masked = false;
+  for (const key of new Set(parsed.searchParams.keys())) {
+    if (!isSecretName(key) && !secretNames.has(key.toLowerCase())) continue;
+    const count = parsed.searchParams.getAll(key).length;
+    parsed.searchParams.delete(key);
+    for (let i = 0; i < count; i++) parsed.searchParams.append(key, MASK);
+    masked = true;
+  }
+  return masked ? parsed.toString() : url;
+}
+
+// Error messages quote the URL, e.g. "request to <url> failed"
+export function maskUrlsInText(
+  text: string,
+  extraSecretNames: string[] = []
+): string {
+  const secretNames = new Set(
+    extraSecretNames.map((name) => name.toLowerCase())
+  );
+  return text.replace(/\bhttps?:\/\/[^\s"'<>]+/g, (url) => {
+    try {
+      return maskUrl(url, secretNames);
+    } catch {
+      return url;
+    }
+  });
+}
+
+function isSecretField(name: string, secretNames: Set<string>): boolean {
+  return isSecretName(name) || secretNames.has(name.toLowerCase());
+}
+
+export function maskSecretFields(
+  value: any,
+  extraSecretNames: string[] = []
+): any {
+  const secretNames = new Set(
+    extraSecretNames.map((name) => name.toLowerCase())
+  );
+  const mask = (item: any): any => {
+    if (Array.isArray(item)) return item.map(mask);
+    if (!item || typeof item !== "object") return item;
+    return Object.fromEntries(
+      Object.entries(item).map(([key, child]) => [
+        key,
+        isSecretField(key, secretNames) ? MASK : mask(child),
+      ])
+    );
+  };
+  return mask(value);
+}
+
+function maskFormBody(body: string, secretNames: Set<string>): string {
+  return body
+    .split("&")
+    .map((pair) => {
+      const name = pair.split("=")[0];
+      let decoded = name;
+      try {
+        decoded = decodeURIComponent(name.replace(/\+/g, " "));
+      } catch {
+        // Malformed escapes: match the raw name
+      }
+      return isSecretField(decoded, secretNames) ? `${name}=${MASK}` : pair;
+    })
+    .join("&");
+}
+
+function maskBody(
+  body: string,
+  contentType: string | undefined,
+  secretNames: Set<string>
+): string {
+  if (contentType && isUrlEncodedContentType(contentType)) {
+    return maskFormBody(body, secretNames);
+  }
+  let parsed: any;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return body;
+  }
+  if (!parsed || typeof parsed !== "object") return body;
+  const masked = maskSecretFields(parsed, [...secretNames]);
+  const text = JSON.stringify(masked);
+  return text === JSON.stringify(parsed) ? body : text;
+}
+
+// \`extraSecretNames\` covers custom API key headers and query parameters
+// such as X-Custom-Auth or \`key\`
+export function maskPreparedRequest(
+  request: PreparedRequest,
+  extraSecretNames: string[] = []
+): PreparedRequest {
+  const extraNames = new Set(extraSecretNames.map((name) => name.toLowerCase()));
+  const secretHeaders = new Set([...ALWAYS_SECRET_HEADERS, ...extraNames]);
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    const lower = name.toLowerCase();
+    if (lower === "cookie") {
+      headers[name] = maskCookies(value);
+    } else if (secretHeaders.has(lower) || isSecretName(name)) {
+      headers[name] = maskValue(value);
+    } else {
+      headers[name] = value;
+    }
+  }
+  const masked: PreparedRequest = {
+    ...request,
+    url: maskUrl(request.url, extraNames),
+    headers,
+  };
+  if (request.body !== undefined) {
+    const contentType = Object.entries(request.headers).find(
+      ([name]) => name.toLowerCase() === "content-type"
+    )?.[1];
+    masked.body = maskBody(request.body, contentType, extraNames);
+  }
+  if (request.multipart) {
+    masked.multipart = request.multipart.map((part) =>
+      part.value !== undefined && isSecretField(part.name, extraNames)
+        ? { ...part, value: MASK }
+        : part
+    );
+  }
+  return masked;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function partOptions(part: { contentType?: string; filename?: string }): string {
+  let options = "";
+  if (part.contentType) options += `;type=${part.contentType}`;
+  if (part.filename) options += `;filename=${part.filename}`;
+  return options;
+}
+
+export function toCurl(request: PreparedRequest): string {
+  const lines = [`curl -X ${request.method} ${shellQuote(request.url)}`];
+  for (const [name, value] of Object.entries(request.headers)) {
+    lines.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  }
+  for (const part of request.multipart ?? []) {
+    lines.push(
+      part.path
+        ? `-F ${shellQuote(`${part.name}=@${part.path}${partOptions(part)}`)}`
+        : `-F ${shellQuote(
+            `${part.name}=${part.value ?? ""}${
+              part.contentType ? `;type=${part.contentType}` : ""
+            }`
+          )}`
+    );
+  }
+  if (request.body !== undefined) {
+    lines.push(`--data-raw ${shellQuote(request.body)}`);
+  }
+  return lines.join(" \\\n  ");
+}
+
+export function toHttpie(request: PreparedRequest): string {
+  const args = [
+    `${request.multipart ? "http --multipart" : "http"} ${
+      request.method
+    } ${shellQuote(request.url)}`,
+  ];
+  for (const [name, value] of Object.entries(request.headers)) {
+    args.push(shellQuote(`${name}:${value}`));
+  }
+  for (const part of request.multipart ?? []) {
+    args.push(
+      part.path
+        ? shellQuote(
+            `${part.name}@${part.path}${
+              part.contentType ? `;type=${part.contentType}` : ""
+            }`
+          )
+        : shellQuote(`${part.name}=${part.value ?? ""}`)
+    );
+  }
+  if (request.body !== undefined) {
+    args.push(`--raw ${shellQuote(request.body)}`);
+  }
+  return args.join(" \\\n  ");
+}
+
+function isJsonBody(request: PreparedRequest): boolean {
+  const contentType = Object.entries(request.headers).find(
+    ([name]) => name.toLowerCase() === "content-type"
+  )?.[1];
+  if (!contentType || !/[/+]json\b/i.test(contentType)) return false;
+  try {
+    JSON.parse(request.body ?? "");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function indent(text: string, spaces: number): string {
+  return text.replace(/\n/g, `\n${" ".repeat(spaces)}`);
+}
+
+export function toFetch(request: PreparedRequest): string {
+  const lines: string[] = [];
+  let body: string | undefined;
+
+  if (request.multipart) {
+    if (request.multipart.some((part) => part.path)) {
+      lines.push(`import { readFile } from "node:fs/promises";`, "");
+    }
+    lines.push("const form = new FormData();");
+    for (const part of request.multipart) {
+      if (part.path) {
+        lines.push(
+          `form.append(${JSON.stringify(part.name)}, new Blob([await readFile(${JSON.stringify(
+            part.path
+          )})], { type: ${JSON.stringify(
+            part.contentType ?? "application/octet-stream"
+          )} }), ${JSON.stringify(part.filename ?? part.name)});`
+        );
+      } else if (part.contentType) {
+        lines.push(
+          `form.append(${JSON.stringify(part.name)}, new Blob([${JSON.stringify(
+            part.value ?? ""
+          )}], { type: ${JSON.stringify(part.contentType)} }));`
+        );
+      } else {
+        lines.push(
+          `form.append(${JSON.stringify(part.name)}, ${JSON.stringify(
+            part.value ?? ""
+          )});`
+        );
+      }
+    }
+    lines.push("");
+    body = "form";
+  } else if (request.body !== undefined) {
+    body = isJsonBody(request)
+      ? `JSON.stringify(${indent(
+          JSON.stringify(JSON.parse(request.body), null, 2),
+          2
+        )})`
+      : JSON.stringify(request.body);
+  }
+
+  lines.push(`const response = await fetch(${JSON.stringify(request.url)}, {`);
+  lines.push(`  method: ${JSON.stringify(request.method)},`);
+  if (Object.keys(request.headers).length > 0) {
+    lines.push(
+      `  headers: ${indent(JSON.stringify(request.headers, null, 2), 2)},`
+    );
+  }
+  if (body) lines.push(`  body: ${body},`);
+  lines.push("});");
+  return lines.join("\n");
+}
+
+function toPythonLiteral(value: any, depth: number = 0): string {
+  const pad = "    ".repeat(depth + 1);
+  const closing = "    ".repeat(depth);
+  if (value === null || value === undefined) return "None";
+  if (value === true) return "True";
+  if (value === false) return "False";
+  if (typeof value === "number" || typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return `[\n${value
+      .map((item) => `${pad}${toPythonLiteral(item, depth + 1)},`)
+      .join("\n")}\n${closing}]`;
+  }
+  const entries = Object.entries(value);
+  if (entries.length === 0) return "{}";
+  return `{\n${entries
+    .map(
+      ([key, item]) =>
+        `${pad}${JSON.stringify(key)}: ${toPythonLiteral(item, depth + 1)},`
+    )
+    .join("\n")}\n${closing}}`;
+}
+
+export function toPythonRequests(request: PreparedRequest): string {
+  const lines = ["import requests", ""];
+  const args = [`    ${JSON.stringify(request.url)},`];
+  const headers = { ...request.headers };
+
+  if (request.multipart) {
+    const fields: Record<string, string> = {};
+    const files: string[] = [];
+    for (const part of request.multipart) {
+      if (part.path) {
+        files.push(
+          `        ${JSON.stringify(part.name)}: (${JSON.stringify(
+            part.filename ?? part.name
+          )}, open(${JSON.stringify(part.path)}, "rb"), ${JSON.stringify(
+            part.contentType ?? "application/octet-stream"
+          )}),`
+        );
+      } else if (part.contentType) {
+        files.push(
+          `        ${JSON.stringify(part.name)}: (None, ${JSON.stringify(
+            part.value ?? ""
+          )}, ${JSON.stringify(part.contentType)}),`
+        );
+      } else {
+        fields[part.name] = part.value ?? "";
+      }
+    }
+    if (Object.keys(fields).length > 0) {
+      args.push(`    data=${toPythonLiteral(fields, 1)},`);
+    }
+    if (files.length > 0) {
+      args.push(`    files={\n${files.join("\n")}\n    },`);
+    }
+  } else if (request.body !== undefined) {
+    if (isJsonBody(request)) {
+      // requests sets the JSON Content-Type itself
+      for (const name of Object.keys(headers)) {
+        if (name.toLowerCase() === "content-type") delete headers[name];
+      }
+      args.push(`    json=${toPythonLiteral(JSON.parse(request.body), 1)},`);
+    } else {
+      args.push(`    data=${JSON.stringify(request.body)},`);
+    }
+  }
+  if (Object.keys(headers).length > 0) {
+    args.splice(1, 0, `    headers=${toPythonLiteral(headers, 1)},`);
+  }
+
+  lines.push(`response = requests.request(`);
+  lines.push(`    ${JSON.stringify(request.method)},`);
+  lines.push(...args);
+  lines.push(")");
+  lines.push("response.raise_for_status()");
+  lines.push("print(response.status_code, response.text)");
+  return lines.join("\n");
+}
+
+function goString(value: string): string {
+  return value.includes("`") ? JSON.stringify(value) : `\`${value}\``;
+}
+
+export function toGoNetHttp(request: PreparedRequest): string {
+  const imports = new Set(["fmt", "io", "net/http"]);
+  const body: string[] = [];
+  let bodyVar = "nil";
+
+  if (request.multipart) {
+    imports.add("bytes");
+    imports.add("mime/multipart");
+    body.push("\tvar buf bytes.Buffer", "\twriter := multipart.NewWriter(&buf)");
+    for (const part of request.multipart) {
+      if (part.path) {
+        imports.add("os");
+        // A block per file keeps `file`, `part` and `err` declarations apart
+        body.push(
+          "\t{",
+          `\t\tfile, err := os.Open(${JSON.stringify(part.path)})`,
+          "\t\tif err != nil {",
+          "\t\t\tpanic(err)",
+          "\t\t}",
+          `\t\tpart, err := writer.CreateFormFile(${JSON.stringify(
+            part.name
+          )}, ${JSON.stringify(part.filename ?? part.name)})`,
+          "\t\tif err != nil {",
+          "\t\t\tpanic(err)",
+          "\t\t}",
+          "\t\tio.Copy(part, file)",
+          "\t\tfile.Close()",
+          "\t}"
+        );
+      } else {
+        body.push(
+          `\twriter.WriteField(${JSON.stringify(part.name)}, ${goString(
+            part.value ?? ""
+          )})`
+        );
+      }
+    }
+    body.push("\twriter.Close()", "");
+    bodyVar = "&buf";
+  } else if (request.body !== undefined) {
+    imports.add("strings");
+    body.push(`\tbody := strings.NewReader(${goString(request.body)})`, "");
+    bodyVar = "body";
+  }
+
+  const lines = [
+    "package main",
+    "",
+    "import (",
+    ...[...imports].sort().map((name) => `\t"${name}"`),
+    ")",
+    "",
+    "func main() {",
+    ...body,
+    `\treq, err := http.NewRequest(${JSON.stringify(
+      request.method
+    )}, ${JSON.stringify(request.url)}, ${bodyVar})`,
+    "\tif err != nil {",
+    "\t\tpanic(err)",
+    "\t}",
+  ];
+  if (request.multipart) {
+    lines.push(`\treq.Header.Set("Content-Type", writer.FormDataContentType())`);
+  }
+  for (const [name, value] of Object.entries(request.headers)) {
+    lines.push(`\treq.Header.Set(${JSON.stringify(name)}, ${JSON.stringify(value)})`);
+  }
+  lines.push(
+    "",
+    "\tresp, err := http.DefaultClient.Do(req)",
+    "\tif err != nil {",
+    "\t\tpanic(err)",
+    "\t}",
+    "\tdefer resp.Body.Close()",
+    "",
+    "\tdata, err := io.ReadAll(resp.Body)",
+    "\tif err != nil {",
+    "\t\tpanic(err)",
+    "\t}",
+    "\tfmt.Println(resp.Status, string(data))",
+    "}"
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,181 @@
+// Minimal RFC 6265 cookie store used to replay Set-Cookie values on later
+// calls to the same API
+
+interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  hostOnly: boolean;
+  path: string;
+  expires?: number;
+  secure: boolean;
+  httpOnly: boolean;
+}
+
+export interface CookieSummary {
+  name: string;
+  domain: string;
+  path: string;
+  expires?: string;
+}
+
+function defaultPath(pathname: string): string {
+  if (!pathname.startsWith("/")) return "/";
+  const lastSlash = pathname.lastIndexOf("/");
+  return lastSlash <= 0 ? "/" : pathname.substring(0, lastSlash);
+}
+
+function domainMatches(host: string, cookie: StoredCookie): boolean {
+  if (cookie.hostOnly) return host === cookie.domain;
+  return host === cookie.domain || host.endsWith(`.${cookie.domain}`);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  if (!requestPath.startsWith(cookiePath)) return false;
+  return (
+    cookiePath.endsWith("/") || requestPath.charAt(cookiePath.length) === "/"
+  );
+}
+
+export class CookieJar {
+  private cookies: StoredCookie[] = [];
+
+  setCookies(setCookieHeaders: string[], requestUrl: string): void {
+    const url = new URL(requestUrl);
+    for (const header of setCookieHeaders) {
+      this.setCookie(header, url);
+    }
+  }
+
+  private setCookie(header: string, url: URL): void {
+    const [pair, ...attributes] = header.split(";");
+    const separator = pair.indexOf("=");
+    if (separator <= 0) return;
+
+    const cookie: StoredCookie = {
+      name: pair.substring(0, separator).trim(),
+      value: pair.substring(separator + 1).trim(),
+      domain: url.hostname.toLowerCase(),
+      hostOnly: true,
+      path: defaultPath(url.pathname),
+      secure: false,
+      httpOnly: false,
+    };
+
+    let maxAge: number | undefined;
+    for (const attribute of attributes) {
+      const [rawKey, ...rest] = attribute.split("=");
+      const key = rawKey.trim().toLowerCase();
+      const value = rest.join("=").trim();
+      switch (key) {
+        case "domain": {
+          const domain = value.replace(/^\./, "").toLowerCase();
+          if (!domain) break;
+          // Reject cookies for domains the response did not come from
+          if (
+            cookie.domain !== domain &&
+            !cookie.domain.endsWith(`.${domain}`)
+          ) {
+            return;
+          }
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+          break;
+        }
+        case "path":
+          if (value.startsWith("/")) cookie.path = value;
+          break;
+        case "expires": {
+          const expires = Date.parse(value);
+          if (!Number.isNaN(expires)) cookie.expires = expires;
+          break;
+        }
+        case "max-age": {
+          const seconds = Number.parseInt(value, 10);
+          if (!Number.isNaN(seconds)) maxAge = seconds;
+          break;
+        }
+        case "secure":
+          cookie.secure = true;
+          break;
+        case "httponly":
+          cookie.httpOnly = true;
+          break;
+      }
+    }
+    if (maxAge !== undefined) {
+      cookie.expires = Date.now() + maxAge * 1000;
+    }
+
+    this.cookies = this.cookies.filter(
+      (existing) =>
+        !(
+          existing.name === cookie.name &&
+          existing.domain === cookie.domain &&
+          existing.path === cookie.path
+        )
+    );
+    if (cookie.expires === undefined || cookie.expires > Date.now()) {
+      this.cookies.push(cookie);
+    }
+  }
+
+  getCookieHeader(requestUrl: string): string | undefined {
+    const url = new URL(requestUrl);
+    const host = url.hostname.toLowerCase();
+    const now = Date.now();
+    this.cookies = this.cookies.filter(
+      (cookie) => cookie.expires === undefined || cookie.expires > now
+    );
+
+    const matching = this.cookies
+      .filter(
+        (cookie) =>
+          domainMatches(host, cookie) &&
+          pathMatches(url.pathname || "/", cookie.path) &&
+          (!cookie.secure || url.protocol === "https:")
+      )
+      // Longer paths first, as browsers do
+      .sort((a, b) => b.path.length - a.path.length);
+
+    if (matching.length === 0) return undefined;
+    return matching.map((cookie) => `${cookie.name}=${cookie.value}`).join("; ");
+  }
+
+  list(): CookieSummary[] {
+    return this.cookies.map((cookie) => ({
+      name: cookie.name,
+      domain: cookie.domain,
+      path: cookie.path,
+      expires: cookie.expires
+        ? new Date(cookie.expires).toISOString()
+        : undefined,
+    }));
+  }
+
+  clear(): void {
+    this.cookies = [];
+  }
+
+  get size(): number {
+    return this.cookies.length;
+  }
+}
+
+// Merges two Cookie header values; names in `override` win
+export function mergeCookieHeaders(
+  base: string | undefined,
+  override: string | undefined
+): string | undefined {
+  if (!base) return override;
+  if (!override) return base;
+  const overridden = new Set(
+    override.split(";").map((pair) => pair.split("=")[0].trim())
+  );
+  const kept = base
+    .split(";")
+    .map((pair) => pair.trim())
+    .filter((pair) => pair && !overridden.has(pair.split("=")[0].trim()));
+  return [...kept, override].join("; ");
+}
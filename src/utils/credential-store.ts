@@ -0,0 +1,202 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { AuthConfig } from "../types/index.js";
+
+// AES-256-GCM store for session credentials and the unmasked parameters of
+// recorded calls. The key is derived by scrypt from a passphrase, a key file,
+// or a credentials.key generated next to the store on first use.
+
+export const PASSPHRASE_ENV = "OPENAPI_CLIENT_MCP_PASSPHRASE";
+export const KEY_FILE_ENV = "OPENAPI_CLIENT_MCP_KEY_FILE";
+
+const STORE_VERSION = 1;
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+export const PRIVATE_FILE_MODE = 0o600;
+
+interface StoreEnvelope {
+  version: number;
+  kdf: "scrypt";
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export type StoredCredentials = Record<string, AuthConfig>;
+// Parameters of recorded calls as sent, by `${sessionId}/${entryId}`
+export type StoredReplayParameters = Record<string, Record<string, any>>;
+
+interface StoreContents {
+  credentials: StoredCredentials;
+  replayParameters: StoredReplayParameters;
+}
+
+// chmod as well, as the mode only applies to new files
+export function writePrivateFile(filePath: string, content: string): void {
+  fs.writeFileSync(filePath, content, { mode: PRIVATE_FILE_MODE });
+  fs.chmodSync(filePath, PRIVATE_FILE_MODE);
+}
+
+export class CredentialStore {
+  private readonly storeFile: string;
+  private readonly defaultKeyFile: string;
+  private credentials: StoredCredentials = {};
+  private replayParameters: StoredReplayParameters = {};
+  private key?: Buffer;
+  private salt?: Buffer;
+  private lockReason?: string;
+
+  constructor(
+    configDir: string,
+    private readonly env: NodeJS.ProcessEnv = process.env
+  ) {
+    this.storeFile = path.join(configDir, "credentials.enc");
+    this.defaultKeyFile = path.join(configDir, "credentials.key");
+    this.open();
+  }
+
+  get locked(): boolean {
+    return this.lockReason !== undefined;
+  }
+
+  lockedMessage(): string {
+    return `Credential store is locked: ${this.lockReason}. Set ${PASSPHRASE_ENV} to the store's passphrase or ${KEY_FILE_ENV} to its key file, then restart the server.`;
+  }
+
+  get(ref: string): AuthConfig | undefined {
+    return this.credentials[ref];
+  }
+
+  getAll(prefix: string): StoredCredentials {
+    const entries: StoredCredentials = {};
+    for (const [ref, credential] of Object.entries(this.credentials)) {
+      if (ref.startsWith(prefix)) entries[ref.slice(prefix.length)] = credential;
+    }
+    return entries;
+  }
+
+  getReplayParameters(ref: string): Record<string, any> | undefined {
+    return this.replayParameters[ref];
+  }
+
+  save(
+    credentials: StoredCredentials,
+    replayParameters: StoredReplayParameters = {}
+  ): void {
+    if (this.locked) throw new Error(this.lockedMessage());
+    this.credentials = credentials;
+    this.replayParameters = replayParameters;
+    const contents: StoreContents = { credentials, replayParameters };
+    if (!this.salt) this.salt = crypto.randomBytes(16);
+    if (!this.key) this.key = this.deriveKey(this.keyMaterial(true), this.salt);
+
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.key, iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(contents), "utf8"),
+      cipher.final(),
+    ]);
+    const envelope: StoreEnvelope = {
+      version: STORE_VERSION,
+      kdf: "scrypt",
+      salt: this.salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+    writePrivateFile(this.storeFile, JSON.stringify(envelope, null, 2));
+  }
+
+  private open(): void {
+    if (!fs.existsSync(this.storeFile)) {
+      // Nothing to decrypt yet; the key is settled on the first save, but a
+      // configured key file must be readable
+      if (this.env[KEY_FILE_ENV] && !this.env[PASSPHRASE_ENV]) {
+        try {
+          this.keyMaterial(false);
+        } catch (error) {
+          this.lockReason =
+            error instanceof Error ? error.message : String(error);
+        }
+      }
+      return;
+    }
+
+    try {
+      const envelope: StoreEnvelope = JSON.parse(
+        fs.readFileSync(this.storeFile, "utf8")
+      );
+      if (envelope.version !== STORE_VERSION || envelope.kdf !== "scrypt") {
+        throw new Error(
+          `unsupported store format (version ${envelope.version})`
+        );
+      }
+      fs.chmodSync(this.storeFile, PRIVATE_FILE_MODE);
+      const salt = Buffer.from(envelope.salt, "base64");
+      const key = this.deriveKey(this.keyMaterial(false), salt);
+      const decipher = crypto.createDecipheriv(
+        "aes-256-gcm",
+        key,
+        Buffer.from(envelope.iv, "base64")
+      );
+      decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+      let plaintext: string;
+      try {
+        plaintext = Buffer.concat([
+          decipher.update(Buffer.from(envelope.data, "base64")),
+          decipher.final(),
+        ]).toString("utf8");
+      } catch {
+        throw new Error(
+          `${this.storeFile} cannot be decrypted with the configured passphrase or key file`
+        );
+      }
+      const contents: StoreContents = JSON.parse(plaintext);
+      this.credentials = contents.credentials;
+      this.replayParameters = contents.replayParameters;
+      this.salt = salt;
+      this.key = key;
+    } catch (error) {
+      this.lockReason = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  // A store without its key file stays locked
+  private keyMaterial(create: boolean): Buffer {
+    const passphrase = this.env[PASSPHRASE_ENV];
+    if (passphrase) return Buffer.from(passphrase, "utf8");
+
+    const keyFile = this.env[KEY_FILE_ENV];
+    if (keyFile) {
+      try {
+        return fs.readFileSync(path.resolve(keyFile));
+      } catch (error) {
+        throw new Error(
+          `key file ${keyFile} from ${KEY_FILE_ENV} cannot be read (${
+            error instanceof Error ? error.message : "Unknown error"
+          })`
+        );
+      }
+    }
+
+    if (fs.existsSync(this.defaultKeyFile)) {
+      fs.chmodSync(this.defaultKeyFile, PRIVATE_FILE_MODE);
+      return fs.readFileSync(this.defaultKeyFile);
+    }
+    if (!create) {
+      throw new Error(
+        `no passphrase or key file is configured and ${this.defaultKeyFile} is missing`
+      );
+    }
+    const material = crypto.randomBytes(KEY_LENGTH).toString("base64");
+    writePrivateFile(this.defaultKeyFile, material);
+    return Buffer.from(material, "utf8");
+  }
+
+  private deriveKey(material: Buffer, salt: Buffer): Buffer {
+    return crypto.scryptSync(material, salt, KEY_LENGTH);
+  }
+}
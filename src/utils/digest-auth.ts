@@ -0,0 +1,145 @@
+import * as crypto from "crypto";
+import type { AuthConfig, SignableRequest } from "../types/index.js";
+
+// HTTP Digest authentication (RFC 7616). Challenges are kept per origin, so
+// later requests answer them up front.
+
+export interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  opaque?: string;
+  algorithm: string;
+  // Quality of protection the server offers: "auth", "auth-int"
+  qop: string[];
+}
+
+interface ActiveChallenge {
+  challenge: DigestChallenge;
+  // Requests made with this nonce, sent as nc
+  count: number;
+}
+
+const HASHES: Record<string, string> = {
+  MD5: "md5",
+  "SHA-256": "sha256",
+  "SHA-512-256": "sha512-256",
+};
+
+export function isDigest(credential: AuthConfig): boolean {
+  return credential.type === "digest";
+}
+
+// The Digest challenge among the WWW-Authenticate values, which may offer
+// several schemes (e.g. `Basic realm="a", Digest realm="b", nonce="c"`)
+export function parseDigestChallenge(
+  header: string | undefined
+): DigestChallenge | undefined {
+  const scheme = header ? /(?:^|[\s,])Digest\s+/i.exec(header) : null;
+  if (!header || !scheme) return undefined;
+
+  const params: Record<string, string> = {};
+  const param = /\s*([\w-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]*))\s*,?/gy;
+  param.lastIndex = scheme.index + scheme[0].length;
+  let match: RegExpExecArray | null;
+  while ((match = param.exec(header))) {
+    // The next scheme's token has no "=" and ends the parameters
+    params[match[1].toLowerCase()] =
+      match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : match[3];
+  }
+  if (params.realm === undefined || !params.nonce) return undefined;
+  return {
+    realm: params.realm,
+    nonce: params.nonce,
+    opaque: params.opaque,
+    algorithm: params.algorithm ?? "MD5",
+    qop: (params.qop ?? "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+}
+
+export function digestAuthorization(
+  challenge: DigestChallenge,
+  credentials: { username: string; password: string },
+  request: SignableRequest,
+  nonceCount: number,
+  cnonce: string = crypto.randomBytes(16).toString("hex")
+): string {
+  const session = /-sess$/i.test(challenge.algorithm);
+  const name = challenge.algorithm.replace(/-sess$/i, "").toUpperCase();
+  const algorithm = HASHES[name];
+  if (!algorithm) {
+    throw new Error(
+      `HTTP Digest algorithm ${challenge.algorithm} is not supported`
+    );
+  }
+  const hash = (value: string) =>
+    crypto.createHash(algorithm).update(value, "utf8").digest("hex");
+
+  const url = new URL(request.url);
+  const uri = `${url.pathname}${url.search}`;
+  // auth-int also covers the body; plain auth is preferred when offered
+  const qop = challenge.qop.includes("auth")
+    ? "auth"
+    : challenge.qop.includes("auth-int")
+    ? "auth-int"
+    : undefined;
+  const nc = nonceCount.toString(16).padStart(8, "0");
+
+  let ha1 = hash(
+    `${credentials.username}:${challenge.realm}:${credentials.password}`
+  );
+  if (session) ha1 = hash(`${ha1}:${challenge.nonce}:${cnonce}`);
+  const ha2 = hash(
+    qop === "auth-int"
+      ? `${request.method.toUpperCase()}:${uri}:${hash(request.body ?? "")}`
+      : `${request.method.toUpperCase()}:${uri}`
+  );
+  const response = qop
+    ? hash(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+    : hash(`${ha1}:${challenge.nonce}:${ha2}`);
+
+  const quote = (value: string) => `"${value.replace(/(["\\])/g, "\\$1")}"`;
+  const fields = [
+    `username=${quote(credentials.username)}`,
+    `realm=${quote(challenge.realm)}`,
+    `nonce=${quote(challenge.nonce)}`,
+    `uri=${quote(uri)}`,
+    `algorithm=${challenge.algorithm}`,
+    `response=${quote(response)}`,
+  ];
+  if (challenge.opaque !== undefined) {
+    fields.push(`opaque=${quote(challenge.opaque)}`);
+  }
+  if (qop) fields.push(`qop=${qop}`, `nc=${nc}`, `cnonce=${quote(cnonce)}`);
+  return `Digest ${fields.join(", ")}`;
+}
+
+export class DigestChallenges {
+  private challenges: Map<string, ActiveChallenge> = new Map();
+
+  remember(url: string, wwwAuthenticate: string | undefined): boolean {
+    const challenge = parseDigestChallenge(wwwAuthenticate);
+    if (!challenge) return false;
+    this.challenges.set(new URL(url).origin, { challenge, count: 0 });
+    return true;
+  }
+
+  authorize(
+    request: SignableRequest,
+    config: Record<string, string>
+  ): string | undefined {
+    const active = this.challenges.get(new URL(request.url).origin);
+    if (!active) return undefined;
+    active.count++;
+    return digestAuthorization(
+      active.challenge,
+      { username: config.username, password: config.password },
+      request,
+      active.count
+    );
+  }
+}
+
+export const digestChallenges = new DigestChallenges();
@@ -9,8 +9,22 @@ import * as path from "path";
 import type {
   ApiInfo,
   OpenAPIDocument,
+  MediaTypeInfo,
   OperationInfo,
+  ParameterInfo,
+  RequestBodyInfo,
+  ResponseInfo,
+  SecurityRequirement,
+  SecuritySchemeInfo,
 } from "../types/index.js";
+import { logger } from "./logger.js";
+import {
+  isFormContentType,
+  isMultipartContentType,
+  preferredContentType,
+} from "./request-body.js";
+
+const log = logger.child("discovery");
 
 export class OpenApiDiscovery {
   private watchers: Map<string, FSWatcher> = new Map();
@@ -30,7 +44,7 @@ export class OpenApiDiscovery {
           apis.push(apiInfo);
         }
       } catch (error) {
-        console.error(`Failed to parse OpenAPI file ${filePath}:`, error);
+        log.error(`Failed to parse OpenAPI file ${filePath}`, error);
       }
     }
 
@@ -94,15 +108,27 @@ export class OpenApiDiscovery {
   }
 
   async parseOpenApiFile(filePath: string): Promise<ApiInfo | null> {
+    return (await this.parseOpenApiFileWithRefs(filePath))?.apiInfo ?? null;
+  }
+
+  // Also returns the files the document's $refs were resolved from,
+  // including the document itself
+  async parseOpenApiFileWithRefs(
+    filePath: string
+  ): Promise<{ apiInfo: ApiInfo; files: string[] } | null> {
     try {
       const config = await createConfig({});
       const {
         bundle: { parsed },
+        fileDependencies,
       } = await bundle({ ref: filePath, config, dereference: true });
       if (!parsed) return null;
-      return this.extractApiInfo(parsed, filePath);
+      return {
+        apiInfo: this.extractApiInfo(parsed, filePath),
+        files: [...fileDependencies],
+      };
     } catch (error) {
-      console.error(`Error parsing OpenAPI file ${filePath}:`, error);
+      log.error(`Error parsing OpenAPI file ${filePath}`, error);
       return null;
     }
   }
@@ -114,22 +140,30 @@ export class OpenApiDiscovery {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
       const content = await response.text();
-      const config = await createConfig({});
-      const {
-        bundle: { parsed },
-      } = await bundleFromString({
-        source: content,
-        config,
-        dereference: true,
-      });
-      if (!parsed) return null;
-      return this.extractApiInfo(parsed, url, true);
+      return await this.parseOpenApiString(content, url);
     } catch (error) {
-      console.error(`Error fetching OpenAPI from URL ${url}:`, error);
+      log.error(`Error fetching OpenAPI from URL ${url}`, error);
       return null;
     }
   }
 
+  async parseOpenApiString(
+    content: string,
+    source: string,
+    isRemote: boolean = true
+  ): Promise<ApiInfo | null> {
+    const config = await createConfig({});
+    const {
+      bundle: { parsed },
+    } = await bundleFromString({
+      source: content,
+      config,
+      dereference: true,
+    });
+    if (!parsed) return null;
+    return this.extractApiInfo(parsed, source, isRemote);
+  }
+
   private parseContent(content: string): any {
     try {
       // Try JSON first
@@ -149,25 +183,119 @@ export class OpenApiDiscovery {
     source: string,
     isRemote: boolean = false
   ): ApiInfo {
-    const operations = this.extractOperations(spec);
+    const securitySchemes = this.extractSecuritySchemes(spec);
+    const operations = this.extractOperations(spec, securitySchemes);
     const servers = this.extractServers(spec);
     const info = spec.info || {};
     return {
       path: source,
       title: info.title,
       version: info.version,
+      specVersion: (spec as any).openapi || (spec as any).swagger,
       description: info.description,
       servers,
       isRemote,
       operations,
+      ...(securitySchemes.length > 0 ? { securitySchemes } : {}),
+    };
+  }
+
+  private extractSecuritySchemes(spec: OpenAPIDocument): SecuritySchemeInfo[] {
+    const definitions: Record<string, any> =
+      (spec as any).components?.securitySchemes ??
+      (spec as any).securityDefinitions ??
+      {};
+    const schemes: SecuritySchemeInfo[] = [];
+    for (const [name, definition] of Object.entries(definitions)) {
+      if (!definition || typeof definition !== "object") continue;
+      const scheme: SecuritySchemeInfo = {
+        name,
+        type: definition.type,
+        description: definition.description,
+      };
+      switch (definition.type) {
+        case "apiKey":
+          scheme.in = definition.in;
+          scheme.paramName = definition.name;
+          scheme.authType = definition["x-amazon-apigateway-authtype"];
+          break;
+        case "http":
+          scheme.scheme = definition.scheme?.toLowerCase();
+          scheme.bearerFormat = definition.bearerFormat;
+          break;
+        // Swagger 2
+        case "basic":
+          scheme.type = "http";
+          scheme.scheme = "basic";
+          break;
+        case "oauth2":
+          scheme.flows = definition.flows ?? this.swagger2OAuthFlows(definition);
+          break;
+        case "openIdConnect":
+          scheme.openIdConnectUrl = definition.openIdConnectUrl;
+          break;
+      }
+      schemes.push(scheme);
+    }
+    return schemes;
+  }
+
+  private swagger2OAuthFlows(definition: any): SecuritySchemeInfo["flows"] {
+    const flowNames: Record<string, string> = {
+      implicit: "implicit",
+      password: "password",
+      application: "clientCredentials",
+      accessCode: "authorizationCode",
+    };
+    const flow = flowNames[definition.flow];
+    if (!flow) return undefined;
+    return {
+      [flow]: {
+        authorizationUrl: definition.authorizationUrl,
+        tokenUrl: definition.tokenUrl,
+        scopes: definition.scopes ?? {},
+      },
     };
   }
 
-  private extractOperations(spec: OpenAPIDocument): OperationInfo[] {
+  // Requirements naming undefined schemes can never be met and are dropped
+  private extractSecurity(
+    requirements: any,
+    schemes: SecuritySchemeInfo[]
+  ): SecurityRequirement[] | undefined {
+    if (!Array.isArray(requirements)) return undefined;
+    const resolved: SecurityRequirement[] = [];
+    for (const requirement of requirements) {
+      const entries = Object.entries(requirement ?? {});
+      const requirementSchemes: SecurityRequirement = [];
+      for (const [name, scopes] of entries) {
+        const scheme = schemes.find((candidate) => candidate.name === name);
+        if (!scheme) break;
+        requirementSchemes.push({
+          scheme,
+          scopes: Array.isArray(scopes) ? scopes : [],
+        });
+      }
+      if (requirementSchemes.length === entries.length) {
+        resolved.push(requirementSchemes);
+      }
+    }
+    return requirements.length > 0 && resolved.length === 0
+      ? undefined
+      : resolved;
+  }
+
+  private extractOperations(
+    spec: OpenAPIDocument,
+    securitySchemes: SecuritySchemeInfo[] = []
+  ): OperationInfo[] {
     const operations: OperationInfo[] = [];
     if (!spec.paths) {
       return operations;
     }
+    const globalConsumes: string[] | undefined = (spec as any).consumes;
+    const globalProduces: string[] | undefined = (spec as any).produces;
+    const globalSecurity = (spec as any).security;
     for (const [path, pathItem] of Object.entries(spec.paths)) {
       if (!pathItem || typeof pathItem !== "object") continue;
       const methods = [
@@ -183,6 +311,10 @@ export class OpenApiDiscovery {
       for (const method of methods) {
         const operation = (pathItem as any)[method];
         if (!operation) continue;
+        const allParams = [
+          ...((pathItem as any).parameters || []),
+          ...(operation.parameters || []),
+        ];
         operations.push({
           operationId:
             operation.operationId ||
@@ -196,8 +328,20 @@ export class OpenApiDiscovery {
             operation.parameters,
             pathItem.parameters
           ),
-          requestBody: this.extractRequestBody(operation.requestBody),
-          responses: this.extractResponses(operation.responses),
+          requestBody:
+            this.extractRequestBody(operation.requestBody) ??
+            this.extractSwagger2RequestBody(
+              allParams,
+              operation.consumes || globalConsumes
+            ),
+          responses: this.extractResponses(
+            operation.responses,
+            operation.produces || globalProduces
+          ),
+          security: this.extractSecurity(
+            operation.security ?? globalSecurity,
+            securitySchemes
+          ),
         });
       }
     }
@@ -207,48 +351,237 @@ export class OpenApiDiscovery {
   private extractParameters(
     operationParams: any[] = [],
     pathParams: any[] = []
-  ): any[] {
+  ): ParameterInfo[] {
     const allParams = [...(pathParams || []), ...(operationParams || [])];
-    return allParams.map((param) => ({
-      name: param.name,
-      in: param.in,
-      required: param.required || param.in === "path",
-      schema: param.schema || { type: param.type },
-      description: param.description,
-    }));
+    // Operation-level parameters override path-level ones with the same
+    // name and location
+    const merged = new Map<string, any>();
+    for (const param of allParams) {
+      if (!param || param.in === "body" || param.in === "formData") continue;
+      merged.set(`${param.in}:${param.name}`, param);
+    }
+    return [...merged.values()].map((param) => {
+      const contentType = param.content
+        ? Object.keys(param.content)[0]
+        : undefined;
+      const info: ParameterInfo = {
+        name: param.name,
+        in: param.in,
+        required: param.required || param.in === "path",
+        schema:
+          param.schema ||
+          (contentType
+            ? param.content[contentType]?.schema
+            : this.swagger2ParameterSchema(param)),
+        description: param.description,
+      };
+      if (param.style !== undefined) info.style = param.style;
+      if (param.explode !== undefined) info.explode = param.explode;
+      if (param.allowReserved !== undefined)
+        info.allowReserved = param.allowReserved;
+      if (contentType) info.contentType = contentType;
+      if (param.collectionFormat) {
+        Object.assign(
+          info,
+          this.swagger2CollectionStyle(param.collectionFormat, param.in)
+        );
+      }
+      return info;
+    });
   }
 
-  private extractRequestBody(requestBody: any): any {
+  private swagger2CollectionStyle(
+    collectionFormat: string,
+    location: string
+  ): Pick<ParameterInfo, "style" | "explode"> {
+    switch (collectionFormat) {
+      case "multi":
+        return { style: "form", explode: true };
+      case "ssv":
+        return { style: "spaceDelimited", explode: false };
+      case "tsv":
+        return { style: "tabDelimited", explode: false };
+      case "pipes":
+        return { style: "pipeDelimited", explode: false };
+      default:
+        return {
+          style:
+            location === "query" || location === "cookie" ? "form" : "simple",
+          explode: false,
+        };
+    }
+  }
+
+  private extractRequestBody(requestBody: any): RequestBodyInfo | undefined {
     if (!requestBody) return undefined;
-    const content = requestBody.content;
+    const content = this.extractContent(requestBody.content);
     if (!content) return undefined;
-    const contentType = Object.keys(content)[0];
-    const mediaType = content[contentType];
+    const contentType = preferredContentType(Object.keys(content));
     return {
       required: requestBody.required || false,
       contentType,
-      schema: mediaType.schema,
+      schema: content[contentType].schema,
+      content,
       description: requestBody.description,
     };
   }
 
-  private extractResponses(responses: any): Record<string, any> {
+  private extractContent(
+    content: any
+  ): Record<string, MediaTypeInfo> | undefined {
+    if (!content || typeof content !== "object") return undefined;
+    const extracted: Record<string, MediaTypeInfo> = {};
+    for (const [contentType, mediaType] of Object.entries(content)) {
+      const media = mediaType as any;
+      extracted[contentType] = {
+        schema: media?.schema,
+        ...(media?.encoding ? { encoding: media.encoding } : {}),
+        ...(media?.example !== undefined ? { example: media.example } : {}),
+        ...(media?.examples && typeof media.examples === "object"
+          ? {
+              // externalValue examples are not fetched
+              examples: Object.fromEntries(
+                Object.entries(media.examples)
+                  .map(([name, example]) => [name, (example as any)?.value])
+                  .filter(([, value]) => value !== undefined)
+              ),
+            }
+          : {}),
+      };
+    }
+    return Object.keys(extracted).length > 0 ? extracted : undefined;
+  }
+
+  // Swagger 2.0 declares bodies as `in: body` / `in: formData` parameters
+  private extractSwagger2RequestBody(
+    params: any[],
+    consumes: string[] = []
+  ): RequestBodyInfo | undefined {
+    const bodyParam = params.find((param) => param?.in === "body");
+    if (bodyParam) {
+      const contentTypes = consumes.length > 0 ? consumes : ["application/json"];
+      const content: Record<string, MediaTypeInfo> = {};
+      for (const contentType of contentTypes) {
+        content[contentType] = { schema: bodyParam.schema };
+      }
+      return {
+        required: bodyParam.required || false,
+        contentType: preferredContentType(contentTypes),
+        schema: bodyParam.schema,
+        content,
+        description: bodyParam.description,
+      };
+    }
+
+    const formParams = params.filter((param) => param?.in === "formData");
+    if (formParams.length === 0) return undefined;
+
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+    for (const param of formParams) {
+      properties[param.name] = this.swagger2ParameterSchema(param);
+      if (param.required) required.push(param.name);
+    }
+
+    const schema = {
+      type: "object",
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    };
+    const hasFile = formParams.some((param) => param.type === "file");
+    const contentTypes = consumes.filter((type) => isFormContentType(type));
+    if (contentTypes.length === 0) {
+      contentTypes.push(
+        hasFile || consumes.includes("multipart/form-data")
+          ? "multipart/form-data"
+          : "application/x-www-form-urlencoded"
+      );
+    }
+    if (hasFile) {
+      contentTypes.sort(
+        (a, b) =>
+          Number(isMultipartContentType(b)) - Number(isMultipartContentType(a))
+      );
+    }
+
+    const content: Record<string, MediaTypeInfo> = {};
+    for (const contentType of contentTypes) {
+      content[contentType] = { schema };
+    }
+
+    return {
+      required: required.length > 0,
+      contentType: contentTypes[0],
+      schema,
+      content,
+    };
+  }
+
+  private swagger2ParameterSchema(param: any): any {
+    if (param.type === "file") {
+      return {
+        type: "string",
+        format: "binary",
+        description: param.description,
+      };
+    }
+    const schema: Record<string, any> = { type: param.type };
+    for (const key of [
+      "format",
+      "items",
+      "enum",
+      "default",
+      "minimum",
+      "maximum",
+      // Booleans, as in OpenAPI 3.0; converted when validating
+      "exclusiveMinimum",
+      "exclusiveMaximum",
+      "multipleOf",
+      "minLength",
+      "maxLength",
+      "pattern",
+      "minItems",
+      "maxItems",
+      "uniqueItems",
+      "description",
+    ]) {
+      if (param[key] !== undefined) schema[key] = param[key];
+    }
+    return schema;
+  }
+
+  private extractResponses(
+    responses: any,
+    produces: string[] = []
+  ): Record<string, ResponseInfo> {
     if (!responses) return {};
-    const extracted: Record<string, any> = {};
+    const extracted: Record<string, ResponseInfo> = {};
     for (const [status, response] of Object.entries(responses)) {
       if (!response || typeof response !== "object") continue;
       const resp = response as any;
-      let contentType: string | undefined;
-      let schema: any;
-      if (resp.content) {
-        contentType = Object.keys(resp.content)[0];
-        const mediaType = resp.content[contentType];
-        schema = mediaType?.schema;
+      let content = this.extractContent(resp.content);
+      if (!content && resp.schema) {
+        // Swagger 2.0 puts the schema on the response and media types in `produces`
+        content = {};
+        for (const contentType of produces.length > 0
+          ? produces
+          : ["application/json"]) {
+          content[contentType] = {
+            schema: resp.schema,
+            ...(resp.examples?.[contentType] !== undefined
+              ? { example: resp.examples[contentType] }
+              : {}),
+          };
+        }
       }
+      const contentType = content
+        ? preferredContentType(Object.keys(content))
+        : undefined;
       extracted[status] = {
         description: resp.description || "No description",
         contentType,
-        schema,
+        schema: contentType ? content?.[contentType]?.schema : undefined,
+        content,
       };
     }
     return extracted;
@@ -0,0 +1,114 @@
+// Builds plausible example values from schemas, preferring what the spec
+// itself provides (example, default, enum)
+
+const MAX_DEPTH = 5;
+
+const STRING_FORMATS: Record<string, string> = {
+  date: "2024-01-01",
+  "date-time": "2024-01-01T00:00:00Z",
+  time: "12:00:00",
+  email: "user@example.com",
+  uuid: "3fa85f64-5717-4562-b3fc-2c963f66afa6",
+  uri: "https://example.com",
+  url: "https://example.com",
+  hostname: "example.com",
+  ipv4: "192.0.2.1",
+  ipv6: "2001:db8::1",
+  byte: "ZXhhbXBsZQ==",
+  binary: "./file.bin",
+  password: "password",
+};
+
+function firstType(schema: any): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find((type: string) => type !== "null");
+  }
+  if (schema.type) return schema.type;
+  if (schema.properties) return "object";
+  if (schema.items) return "array";
+  return undefined;
+}
+
+export interface ExampleOptions {
+  // Requests leave out readOnly properties, responses writeOnly ones
+  direction?: "request" | "response";
+  // Every property instead of only the required ones
+  allProperties?: boolean;
+}
+
+export function exampleFromSchema(
+  schema: any,
+  name?: string,
+  options: ExampleOptions = {}
+): any {
+  return buildExample(schema, name, options, 0);
+}
+
+function buildExample(
+  schema: any,
+  name: string | undefined,
+  options: ExampleOptions,
+  depth: number
+): any {
+  if (!schema || typeof schema !== "object" || depth > MAX_DEPTH) {
+    return name ? `example_${name}` : "example";
+  }
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+    return schema.examples[0];
+  }
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  const composed = schema.allOf ?? schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(composed) && composed.length > 0) {
+    if (schema.allOf) {
+      // Merge the examples of every allOf branch
+      return composed.reduce((merged: any, branch: any) => {
+        const value = buildExample(branch, name, options, depth + 1);
+        return value && typeof value === "object" && !Array.isArray(value)
+          ? { ...merged, ...value }
+          : merged;
+      }, {});
+    }
+    return buildExample(composed[0], name, options, depth + 1);
+  }
+
+  switch (firstType(schema)) {
+    case "integer":
+      return schema.minimum ?? 1;
+    case "number":
+      return schema.minimum ?? 1.5;
+    case "boolean":
+      return true;
+    case "array":
+      return [buildExample(schema.items, name, options, depth + 1)];
+    case "object": {
+      const example: Record<string, any> = {};
+      const properties = schema.properties ?? {};
+      const required: string[] = schema.required ?? [];
+      // Only required properties when the schema names some, to keep
+      // examples short
+      const names =
+        required.length > 0 && !options.allProperties
+          ? required.filter((key) => key in properties)
+          : Object.keys(properties);
+      const skip =
+        options.direction === "response" ? "writeOnly" : "readOnly";
+      for (const key of names) {
+        if (properties[key]?.[skip]) continue;
+        example[key] = buildExample(properties[key], key, options, depth + 1);
+      }
+      return example;
+    }
+    case "string":
+      return (
+        STRING_FORMATS[schema.format] ?? (name ? `example_${name}` : "string")
+      );
+    default:
+      return name ? `example_${name}` : "example";
+  }
+}
@@ -1,11 +1,58 @@
 import { stringify as flattedStringify } from "flatted";
-import type { OperationInfo } from "../types/index.js";
+import type {
+  AuthConfig,
+  ContractReport,
+  MediaTypeInfo,
+  OperationInfo,
+  SecuritySchemeInfo,
+} from "../types/index.js";
 import { safeClone } from "./safe-clone.js";
+import {
+  compatibleAuthTypes,
+  credentialForScheme,
+  describeScheme,
+} from "./security.js";
 
 export function formatSchema(schema: any): string {
   return flattedStringify(safeClone(schema));
 }
 
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const MAX_UNDOCUMENTED_FIELDS = 20;
+
+export function formatContractReport(report: ContractReport): string {
+  const against = report.documentedAs
+    ? `documented \`${report.documentedAs}\` response${
+        report.contentType ? ` (${report.contentType})` : ""
+      }`
+    : "documented responses";
+  let out = `**Contract:** `;
+  if (report.issues.length === 0 && report.undocumentedFields.length === 0) {
+    return out + `✅ Matches ${against}\n\n`;
+  }
+
+  out += `⚠️ ${report.issues.length} violation(s), ${report.undocumentedFields.length} undocumented field(s) against ${against}\n`;
+  for (const issue of report.issues) {
+    out += `- \`${issue.path}\`: ${issue.message}\n`;
+  }
+  if (report.undocumentedFields.length > 0) {
+    const shown = report.undocumentedFields.slice(0, MAX_UNDOCUMENTED_FIELDS);
+    out += `- Undocumented fields: ${shown
+      .map((field) => `\`${field}\``)
+      .join(", ")}`;
+    if (report.undocumentedFields.length > shown.length) {
+      out += ` and ${report.undocumentedFields.length - shown.length} more`;
+    }
+    out += `\n`;
+  }
+  return out + `\n`;
+}
+
 export function formatParameters(parameters: any[]): string {
   if (!parameters || parameters.length === 0) return "";
   let out = "## Parameters\n\n";
@@ -75,16 +122,52 @@ export function formatRequestBody(requestBody: any): string {
   if (!requestBody) return "";
   let out = "## Request Body\n\n";
   out += `- **Required:** ${requestBody.required ? "Yes" : "No"}\n`;
-  out += `- **Content-Type:** \`${requestBody.contentType}\`\n`;
+  const contentTypes = Object.keys(requestBody.content ?? {});
+  if (contentTypes.length > 1) {
+    out += `- **Content-Types:** ${contentTypes
+      .map((type) => `\`${type}\``)
+      .join(", ")} (default \`${
+      requestBody.contentType
+    }\`, choose with \`content_type\`)\n`;
+  } else {
+    out += `- **Content-Type:** \`${requestBody.contentType}\`\n`;
+  }
   if (requestBody.description)
     out += `- **Description:** ${requestBody.description}\n`;
-  if (requestBody.schema) {
-    out += `\n**Schema:**\n`;
+  out += formatMediaTypeSchemas(requestBody);
+  return out.trim() + "\n";
+}
+
+// Prints one schema block per media type, collapsing media types that share
+// the same schema
+function formatMediaTypeSchemas(body: {
+  schema?: any;
+  content?: Record<string, MediaTypeInfo>;
+}): string {
+  const content = body.content ?? {};
+  const groups: { types: string[]; formatted: string }[] = [];
+  for (const [contentType, media] of Object.entries(content)) {
+    if (!media.schema) continue;
+    const formatted = formatSchema(media.schema);
+    const group = groups.find((g) => g.formatted === formatted);
+    if (group) group.types.push(contentType);
+    else groups.push({ types: [contentType], formatted });
+  }
+  if (groups.length === 0 && body.schema) {
+    groups.push({ types: [], formatted: formatSchema(body.schema) });
+  }
+
+  let out = "";
+  for (const group of groups) {
+    out +=
+      groups.length > 1
+        ? `\n**Schema (${group.types.map((t) => `\`${t}\``).join(", ")}):**\n`
+        : `\n**Schema:**\n`;
     out += "```json\n";
-    out += formatSchema(requestBody.schema) + "\n";
+    out += group.formatted + "\n";
     out += "```\n";
   }
-  return out.trim() + "\n";
+  return out;
 }
 
 export function formatResponses(responses: Record<string, any>): string {
@@ -93,18 +176,90 @@ export function formatResponses(responses: Record<string, any>): string {
   for (const [status, resp] of Object.entries(responses)) {
     out += `### ${status}\n`;
     out += `${resp.description}\n`;
-    if (resp.contentType) out += `**Content-Type:** \`${resp.contentType}\`\n`;
-    if (resp.schema) {
-      out += `\n**Schema:**\n`;
-      out += "```json\n";
-      out += formatSchema(resp.schema) + "\n";
-      out += "```\n";
-    }
+    const contentTypes = Object.keys(resp.content ?? {});
+    if (contentTypes.length > 0)
+      out += `**Content-Type${
+        contentTypes.length > 1 ? "s" : ""
+      }:** ${contentTypes.map((type) => `\`${type}\``).join(", ")}\n`;
+    else if (resp.contentType)
+      out += `**Content-Type:** \`${resp.contentType}\`\n`;
+    out += formatMediaTypeSchemas(resp);
     out += "\n";
   }
   return out.trim() + "\n";
 }
 
+function formatSchemeStatus(
+  scheme: SecuritySchemeInfo,
+  authConfig?: AuthConfig
+): string {
+  return credentialForScheme(scheme, authConfig)
+    ? "✅ configured"
+    : "⚠️ not configured";
+}
+
+function manageAuthHint(scheme: SecuritySchemeInfo, docsPath: string): string {
+  const authType = compatibleAuthTypes(scheme)[0];
+  return authType
+    ? `\`manage_auth docs_path="${docsPath}" auth_type="${authType}" scheme="${scheme.name}"\``
+    : "not supported by manage_auth";
+}
+
+export function formatSecurity(
+  operation: OperationInfo,
+  docsPath: string,
+  authConfig?: AuthConfig
+): string {
+  const security = operation.security;
+  if (!security) return "";
+  let out = "## Authentication\n\n";
+  if (security.length === 0) {
+    return out + "None - this operation is public.\n\n";
+  }
+
+  out +=
+    security.length > 1
+      ? "Any one of these options:\n"
+      : "Requires all of the following:\n";
+  const schemes = new Map<string, SecuritySchemeInfo>();
+  security.forEach((requirement, index) => {
+    const prefix = security.length > 1 ? `${index + 1}. ` : "- ";
+    if (requirement.length === 0) {
+      out += `${prefix}No credentials (auth is optional)\n`;
+      return;
+    }
+    out += `${prefix}${requirement
+      .map(({ scheme, scopes }) => {
+        schemes.set(scheme.name, scheme);
+        return `\`${scheme.name}\` - ${describeScheme(scheme)}${
+          scopes.length > 0 ? `, scopes: ${scopes.join(", ")}` : ""
+        } (${formatSchemeStatus(scheme, authConfig)})`;
+      })
+      .join(" **and** ")}\n`;
+  });
+
+  out += "\n**Configure:**\n";
+  for (const scheme of schemes.values()) {
+    out += `- \`${scheme.name}\`: ${manageAuthHint(scheme, docsPath)}\n`;
+  }
+  return out + "\n";
+}
+
+export function formatSecuritySchemes(
+  schemes: SecuritySchemeInfo[] = [],
+  authConfig?: AuthConfig
+): string {
+  if (schemes.length === 0) return "";
+  let out = "## Authentication\n";
+  for (const scheme of schemes) {
+    out += `- \`${scheme.name}\`: ${describeScheme(scheme)} (${formatSchemeStatus(
+      scheme,
+      authConfig
+    )})\n`;
+  }
+  return out + "\n";
+}
+
 export function formatUsageExample(
   operation: OperationInfo,
   docsPath: string
@@ -145,7 +300,8 @@ export function formatUsageExample(
 
 export function formatOperationDetails(
   operation: OperationInfo,
-  docsPath: string
+  docsPath: string,
+  authConfig?: AuthConfig
 ): string {
   let response = `# ${operation.operationId}\n\n`;
   response += `**${operation.method}** \`${operation.path}\`\n\n`;
@@ -156,6 +312,7 @@ export function formatOperationDetails(
     response += `**Tags:** ${operation.tags.join(", ")}\n\n`;
   response += formatParameters(operation.parameters ?? []);
   response += formatRequestBody(operation.requestBody);
+  response += formatSecurity(operation, docsPath, authConfig);
   response += formatResponses(operation.responses ?? {});
   response += formatUsageExample(operation, docsPath);
   return response.trim() + "\n";
@@ -0,0 +1,174 @@
+import * as crypto from "crypto";
+import type { AuthConfig, SignableRequest } from "../types/index.js";
+
+// HMAC request signatures in the style of webhook and partner APIs: chosen
+// parts of the request are joined and signed with a shared secret. The config
+// keys are listed by manage_auth.
+
+export const HMAC_COMPONENTS = [
+  "method",
+  "path",
+  "url",
+  "host",
+  "timestamp",
+  "nonce",
+  "body",
+  "bodyHash",
+  "keyId",
+];
+export const DEFAULT_HMAC_COMPONENTS = "method,path,timestamp,body";
+const SIGNATURE_ENCODINGS = ["hex", "base64", "base64url"];
+const SECRET_ENCODINGS = ["utf8", "base64", "hex"];
+const TIMESTAMP_FORMATS = ["seconds", "milliseconds", "iso"];
+
+export function isHmac(credential: AuthConfig): boolean {
+  return credential.type === "hmac";
+}
+
+function components(config: Record<string, string>): string[] {
+  return (config.components || DEFAULT_HMAC_COMPONENTS)
+    .split(",")
+    .map((component) => component.trim())
+    .filter(Boolean);
+}
+
+export function checkHmacConfig(config: Record<string, string>): string[] {
+  const problems: string[] = [];
+  if (!config.secret) problems.push("secret is required for HMAC signing");
+  const algorithm = config.algorithm || "sha256";
+  if (!crypto.getHashes().includes(algorithm.toLowerCase())) {
+    problems.push(`algorithm '${algorithm}' is not supported`);
+  }
+  for (const component of components(config)) {
+    if (
+      !HMAC_COMPONENTS.includes(component) &&
+      !/^header:.+/.test(component)
+    ) {
+      problems.push(
+        `unknown component '${component}' (use ${HMAC_COMPONENTS.join(
+          ", "
+        )} or header:Name)`
+      );
+    }
+  }
+  if (components(config).includes("nonce") && !config.nonceHeader) {
+    problems.push("nonceHeader is required to sign a nonce");
+  }
+  const choices: [string, string[]][] = [
+    ["encoding", SIGNATURE_ENCODINGS],
+    ["secretEncoding", SECRET_ENCODINGS],
+    ["timestampFormat", TIMESTAMP_FORMATS],
+  ];
+  for (const [key, allowed] of choices) {
+    if (config[key] && !allowed.includes(config[key])) {
+      problems.push(`${key} must be one of ${allowed.join(", ")}`);
+    }
+  }
+  return problems;
+}
+
+function formatTimestamp(now: Date, format: string | undefined): string {
+  switch (format) {
+    case "milliseconds":
+      return String(now.getTime());
+    case "iso":
+      return now.toISOString();
+    default:
+      return String(Math.floor(now.getTime() / 1000));
+  }
+}
+
+function headerValue(headers: Record<string, string>, name: string): string {
+  const lower = name.toLowerCase();
+  const entry = Object.entries(headers).find(
+    ([key]) => key.toLowerCase() === lower
+  );
+  return entry?.[1] ?? "";
+}
+
+// The signed string, exposed so partners' examples can be checked against it
+export function hmacSigningString(
+  request: SignableRequest,
+  config: Record<string, string>,
+  values: { timestamp: string; nonce: string }
+): string {
+  const url = new URL(request.url);
+  const algorithm = (config.algorithm || "sha256").toLowerCase();
+  const parts = components(config).map((component) => {
+    switch (component) {
+      case "method":
+        return request.method.toUpperCase();
+      case "path":
+        return `${url.pathname}${url.search}`;
+      case "url":
+        return request.url;
+      case "host":
+        return url.host;
+      case "timestamp":
+        return values.timestamp;
+      case "nonce":
+        return values.nonce;
+      case "body":
+        return request.body ?? "";
+      case "bodyHash":
+        return crypto
+          .createHash(algorithm)
+          .update(request.body ?? "", "utf8")
+          .digest("hex");
+      case "keyId":
+        return config.keyId ?? "";
+      default:
+        return headerValue(
+          request.headers,
+          component.slice("header:".length)
+        );
+    }
+  });
+  return parts.join(config.separator ?? "\n");
+}
+
+export function signHmacRequest(
+  request: SignableRequest,
+  config: Record<string, string>,
+  now: Date = new Date(),
+  nonce: string = crypto.randomBytes(16).toString("hex")
+): Record<string, string> {
+  const problems = checkHmacConfig(config);
+  if (problems.length > 0) {
+    throw new Error(`Cannot sign request with HMAC: ${problems.join("; ")}`);
+  }
+
+  const algorithm = (config.algorithm || "sha256").toLowerCase();
+  const timestamp = formatTimestamp(now, config.timestampFormat);
+  // Sent alongside the signature, and signable as header:Name parts
+  const added: Record<string, string> = {};
+  const timestampHeader = config.timestampHeader ?? "X-Timestamp";
+  if (timestampHeader) added[timestampHeader] = timestamp;
+  if (config.nonceHeader) added[config.nonceHeader] = nonce;
+
+  const key = Buffer.from(
+    config.secret,
+    (config.secretEncoding || "utf8") as BufferEncoding
+  );
+  const signingString = hmacSigningString(
+    { ...request, headers: { ...request.headers, ...added } },
+    config,
+    { timestamp, nonce }
+  );
+  const signature = crypto
+    .createHmac(algorithm, key)
+    .update(signingString, "utf8")
+    .digest((config.encoding || "hex") as crypto.BinaryToTextEncoding);
+
+  const placeholders: Record<string, string> = {
+    signature,
+    keyId: config.keyId ?? "",
+    timestamp,
+    nonce,
+    algorithm,
+  };
+  added[config.header || "X-Signature"] = (
+    config.template || "{signature}"
+  ).replace(/\{(\w+)\}/g, (match, name) => placeholders[name] ?? match);
+  return added;
+}
@@ -1,13 +1,81 @@
-import fetch, { RequestInit as NodeRequestInit, Response } from "node-fetch";
+import fetch, {
+  FormData,
+  isRedirect,
+  RequestInit as NodeRequestInit,
+  Response,
+} from "node-fetch";
 import type {
   ApiCallResult,
+  AttemptInfo,
   AuthConfig,
+  BinaryResponseInfo,
   OperationInfo,
-  RequestBodyInfo,
+  PreparedRequest,
+  RequestOptions,
+  SignableRequest,
 } from "../types/index.js";
+import { handleBinaryResponse, looksLikeText } from "./binary-response.js";
+import { maskPreparedRequest, maskUrlsInText } from "./code-snippets.js";
+import { CookieJar, mergeCookieHeaders } from "./cookie-jar.js";
+import { digestChallenges, isDigest } from "./digest-auth.js";
+import { isHmac, signHmacRequest } from "./hmac-signing.js";
+import { isLogin, loginTokens } from "./login-operation.js";
+import { logger } from "./logger.js";
+import { isTextualMimeType } from "./mime-types.js";
+import { oauth2Tokens, obtainsTokens } from "./oauth2.js";
+import {
+  serializeCookieParameter,
+  serializeHeaderParameter,
+  serializePathParameter,
+  serializeQueryParameter,
+} from "./parameter-serializer.js";
+import {
+  describeSerializedBody,
+  extractBodyData,
+  isMultipartContentType,
+  resolveRequestContentType,
+  serializeRequestBody,
+  type SerializedBody,
+} from "./request-body.js";
+import {
+  DEFAULT_TIMEOUT_MS,
+  maxAttemptsFor,
+  resolveRetryPolicy,
+  retryDelayMs,
+} from "./retry-policy.js";
+import { resolveSecretReferences } from "./secret-refs.js";
+import { isSigV4, signSigV4Request } from "./sigv4.js";
+import {
+  apiKeyNames,
+  applyAuthentication,
+  credentialsInUse,
+  signsRequest,
+} from "./security.js";
+
+const log = logger.child("http");
+
+const MAX_REDIRECTS = 20;
+
+// How buildRequest obtains OAuth2 and login tokens: cached or fetched, a
+// new one after a 401, or only those at hand for requests never sent
+type TokenMode = "fetch" | "refresh" | "cached";
+
+export const NO_AUTH_PROFILE = "none";
+
+// Calls made as a named profile keep their own cookies, so one profile's
+// login cookies never authenticate another
+export function profileSessionKey(
+  sessionKey: string,
+  profile?: string
+): string {
+  return profile === undefined ? sessionKey : `${sessionKey}#${profile}`;
+}
 
 export class ApiHttpClient {
   private authConfigs: Map<string, AuthConfig> = new Map();
+  private authProfiles: Map<string, Record<string, AuthConfig>> = new Map();
+  private defaultAuthProfiles: Map<string, string> = new Map();
+  private cookieJars: Map<string, CookieJar> = new Map();
 
   constructor() {
     this.loadAuthFromSessions();
@@ -25,10 +93,21 @@ export class ApiHttpClient {
             // Also set for base URL in case that's used as api_source
             this.authConfigs.set(session.baseUrl, session.authConfig);
           }
+          if (session.authProfiles && session.openApiPath) {
+            for (const source of [session.openApiPath, session.baseUrl]) {
+              this.authProfiles.set(source, { ...session.authProfiles });
+              if (session.defaultAuthProfile) {
+                this.defaultAuthProfiles.set(
+                  source,
+                  session.defaultAuthProfile
+                );
+              }
+            }
+          }
         });
       });
     } catch (error) {
-      console.warn("Failed to load auth configs from sessions:", error);
+      log.warning("Failed to load auth configs from sessions", error);
     }
   }
 
@@ -36,54 +115,381 @@ export class ApiHttpClient {
     baseUrl: string,
     operation: OperationInfo,
     parameters: Record<string, any> = {},
-    authConfig?: AuthConfig
+    authConfig?: AuthConfig,
+    requestOptions: RequestOptions = {}
   ): Promise<ApiCallResult> {
     const startTime = Date.now();
+    const policy = resolveRetryPolicy(requestOptions.retry);
+    const maxAttempts = maxAttemptsFor(policy, operation.method);
+    const attempts: AttemptInfo[] = [];
+
+    // A 401 despite a fetched OAuth2 or login token means it was revoked or
+    // expired early; one extra attempt goes out with a new token
+    const inUse = credentialsInUse(operation, authConfig);
+    const fetchesTokens = inUse.some(obtainsTokens);
+    const logsIn = inUse.some(isLogin);
+    let tokenMode: TokenMode = "fetch";
+    let tokenRenewed = false;
+    // A 401 Digest challenge (or a stale nonce) gets one answered retry
+    const usesDigest = inUse.some(isDigest);
+    let digestAnswered = false;
+
+    let result: ApiCallResult;
+    for (let attempt = 1; ; attempt++) {
+      const attemptStart = Date.now();
+      const outcome = await this.attemptOperation(
+        baseUrl,
+        operation,
+        parameters,
+        authConfig,
+        requestOptions,
+        tokenMode
+      );
+      result = outcome.result;
+      if (tokenMode === "refresh") tokenMode = "fetch";
+      const info: AttemptInfo = {
+        attempt,
+        statusCode: result.statusCode,
+        error: result.error,
+        durationMs: Date.now() - attemptStart,
+      };
+      attempts.push(info);
+
+      if (
+        result.statusCode === 401 &&
+        (fetchesTokens || logsIn) &&
+        !tokenRenewed
+      ) {
+        tokenMode = "refresh";
+        tokenRenewed = true;
+        if (fetchesTokens) {
+          info.tokenRefreshed = true;
+          log.notice(
+            "HTTP 401 with a cached OAuth2 token, requesting a new one"
+          );
+        }
+        if (logsIn) {
+          info.loggedInAgain = true;
+          log.notice("HTTP 401 with the login token, logging in again");
+        }
+        continue;
+      }
+      if (
+        result.statusCode === 401 &&
+        usesDigest &&
+        !digestAnswered &&
+        result.url &&
+        digestChallenges.remember(
+          result.url,
+          result.headers?.["www-authenticate"]
+        )
+      ) {
+        digestAnswered = true;
+        info.digestChallenged = true;
+        log.notice("HTTP Digest challenge received, answering it");
+        continue;
+      }
+      if (result.success || !outcome.retryable || attempt >= maxAttempts) {
+        break;
+      }
+      const delay = retryDelayMs(policy, attempt, {
+        statusCode: result.statusCode,
+        retryAfter: result.headers?.["retry-after"],
+      });
+      if (delay === undefined) break;
+
+      info.retryDelayMs = delay;
+      log.notice(
+        `Attempt ${attempt} failed (${
+          result.statusCode ?? result.error
+        }), retrying in ${delay}ms`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
 
+    return {
+      ...result,
+      executionTime: Date.now() - startTime,
+      attempts,
+    };
+  }
+
+  async prepareRequest(
+    baseUrl: string,
+    operation: OperationInfo,
+    parameters: Record<string, any> = {},
+    authConfig?: AuthConfig,
+    requestOptions: RequestOptions = {}
+  ): Promise<PreparedRequest> {
+    const { url, options } = await this.buildRequest(
+      baseUrl,
+      operation,
+      parameters,
+      authConfig,
+      requestOptions,
+      "cached"
+    );
+    const jar = requestOptions.sessionKey
+      ? this.cookieJars.get(requestOptions.sessionKey)
+      : undefined;
+    return this.describeRequest(operation.method, url, options, jar);
+  }
+
+  private async describeRequest(
+    method: string,
+    url: string,
+    options: NodeRequestInit,
+    jar?: CookieJar
+  ): Promise<PreparedRequest> {
+    const headers = { ...(options.headers as Record<string, string>) };
+    const cookie = mergeCookieHeaders(
+      jar?.getCookieHeader(url),
+      headers["Cookie"]
+    );
+    if (cookie) headers["Cookie"] = cookie;
+
+    const prepared: PreparedRequest = { method, url, headers };
+    if (options.body) {
+      Object.assign(
+        prepared,
+        await describeSerializedBody(options.body as SerializedBody)
+      );
+    }
+    return prepared;
+  }
+
+  private async attemptOperation(
+    baseUrl: string,
+    operation: OperationInfo,
+    parameters: Record<string, any>,
+    authConfig: AuthConfig | undefined,
+    requestOptions: RequestOptions,
+    tokenMode: TokenMode
+  ): Promise<{ result: ApiCallResult; retryable: boolean }> {
+    const startTime = Date.now();
+    const timeoutMs = requestOptions.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    let request: {
+      url: string;
+      options: NodeRequestInit;
+      credentialHeaders: string[];
+    };
     try {
-      const { url, options } = this.buildRequest(
+      request = await this.buildRequest(
         baseUrl,
         operation,
         parameters,
-        authConfig
+        authConfig,
+        requestOptions,
+        tokenMode
       );
+    } catch (error) {
+      // Problems building the request will not go away on retry
+      return {
+        result: {
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Unknown error occurred",
+          executionTime: Date.now() - startTime,
+        },
+        retryable: false,
+      };
+    }
 
-      console.log(`Making ${operation.method} request to: ${url}`);
-      console.log("Request options:", JSON.stringify(options, null, 2));
+    const { url, options, credentialHeaders } = request;
+    const jar = requestOptions.sessionKey
+      ? this.getCookieJar(requestOptions.sessionKey)
+      : undefined;
+    const sent = await this.describeRequest(
+      operation.method,
+      url,
+      options,
+      jar
+    );
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const secretNames = apiKeyNames(authConfig, operation);
 
-      const response = await fetch(url, options);
+    try {
+      // Headers only, masked: bodies may hold credentials under any name
+      const masked = maskPreparedRequest(sent, secretNames);
+      // Query values are left out for the same reason
+      const target = new URL(masked.url);
+      const query = [...new Set(target.searchParams.keys())];
+      log.info(
+        `Making ${operation.method} request to: ${target.origin}${target.pathname}`,
+        query.length > 0 ? { query } : undefined
+      );
+      log.debug("Request headers", masked.headers);
+      const response = await this.fetchWithCookies(
+        url,
+        { ...options, signal: controller.signal },
+        jar,
+        credentialHeaders
+      );
       const executionTime = Date.now() - startTime;
 
-      const result = await this.processResponse(response, executionTime);
+      const result = await this.processResponse(
+        response,
+        executionTime,
+        operation,
+        requestOptions
+      );
+      result.url = url;
+      result.request = sent;
 
-      console.log(
+      log.info(
         `Response status: ${result.statusCode}, execution time: ${result.executionTime}ms`
       );
 
-      return result;
+      return { result, retryable: true };
     } catch (error) {
       const executionTime = Date.now() - startTime;
-      console.error("API call failed:", error);
+      // Query API keys would otherwise show in the quoted URL
+      const message = controller.signal.aborted
+        ? `Request timed out after ${timeoutMs}ms`
+        : error instanceof Error
+        ? maskUrlsInText(error.message, secretNames)
+        : "Unknown error occurred";
+      log.error("API call failed", { error: message });
 
       return {
-        success: false,
-        error:
-          error instanceof Error ? error.message : "Unknown error occurred",
-        executionTime,
+        result: {
+          success: false,
+          error: message,
+          executionTime,
+          url,
+          request: sent,
+        },
+        retryable: true,
       };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Follows redirects manually so Set-Cookie headers on every hop (e.g. a
+  // login that redirects) land in the jar, and credentials stay with the
+  // origin they were meant for
+  private async fetchWithCookies(
+    url: string,
+    options: NodeRequestInit,
+    jar?: CookieJar,
+    credentialHeaders: string[] = []
+  ): Promise<Response> {
+    if (!jar && credentialHeaders.length === 0) return fetch(url, options);
+
+    const headers = { ...(options.headers as Record<string, string>) };
+    let explicitCookies: string | undefined = headers["Cookie"];
+    let init: NodeRequestInit = { ...options, headers, redirect: "manual" };
+    let currentUrl = url;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const cookie = mergeCookieHeaders(
+        jar?.getCookieHeader(currentUrl),
+        explicitCookies
+      );
+      if (cookie) headers["Cookie"] = cookie;
+      else delete headers["Cookie"];
+
+      const response = await fetch(currentUrl, init);
+      const setCookies = response.headers.raw()["set-cookie"];
+      if (setCookies) jar?.setCookies(setCookies, currentUrl);
+
+      const location = response.headers.get("location");
+      if (!isRedirect(response.status) || !location) return response;
+
+      const nextUrl = new URL(location, currentUrl);
+      // Only the jar's cookies for the new origin go along
+      if (nextUrl.origin !== new URL(currentUrl).origin) {
+        for (const name of credentialHeaders) delete headers[name];
+        explicitCookies = undefined;
+      }
+      if (
+        response.status === 303 ||
+        ((response.status === 301 || response.status === 302) &&
+          init.method === "POST")
+      ) {
+        init = { ...init, method: "GET", body: undefined };
+        delete headers["Content-Type"];
+      }
+      currentUrl = nextUrl.toString();
     }
+
+    throw new Error(`Maximum redirect reached at: ${currentUrl}`);
   }
 
-  private buildRequest(
+  private async buildRequest(
     baseUrl: string,
     operation: OperationInfo,
     parameters: Record<string, any>,
-    authConfig?: AuthConfig
-  ): { url: string; options: NodeRequestInit } {
-    let url = this.buildUrl(baseUrl, operation, parameters);
+    authConfig?: AuthConfig,
+    requestOptions: RequestOptions = {},
+    tokenMode: TokenMode = "fetch"
+  ): Promise<{
+    url: string;
+    options: NodeRequestInit;
+    credentialHeaders: string[];
+  }> {
+    let credentials: AuthConfig | undefined;
+    if (authConfig) {
+      const withAccessTokens = await oauth2Tokens.withAccessTokens(
+        authConfig,
+        credentialsInUse(operation, authConfig),
+        {
+          fetch: tokenMode !== "cached",
+          forceRefresh: tokenMode === "refresh",
+        }
+      );
+      // The login operation is called without credentials, sharing this
+      // call's cookies
+      const withLoginTokens = await loginTokens.withTokens(
+        withAccessTokens,
+        credentialsInUse(operation, withAccessTokens),
+        {
+          fetch: tokenMode !== "cached",
+          forceLogin: tokenMode === "refresh",
+          baseUrl,
+          call: (loginOperation, loginParameters, loginBaseUrl) =>
+            this.callOperation(
+              loginBaseUrl,
+              loginOperation,
+              loginParameters,
+              undefined,
+              {
+                sessionKey: requestOptions.sessionKey,
+                timeoutMs: requestOptions.timeoutMs,
+              }
+            ),
+        }
+      );
+      credentials = await resolveSecretReferences(withLoginTokens);
+    }
+    // Pagination follows next-page URLs as given by the API
+    const headers = this.buildHeaders(operation, parameters);
+    const unauthenticated = { ...headers };
+    const url = applyAuthentication(
+      requestOptions.urlOverride ??
+        this.buildUrl(baseUrl, operation, parameters),
+      headers,
+      operation,
+      credentials
+    );
+    // Credential headers, API keys passed as parameters included, are not
+    // sent on to other origins
+    const keyNames = apiKeyNames(authConfig, operation).map((name) =>
+      name.toLowerCase()
+    );
+    const credentialHeaders = new Set(
+      Object.keys(headers).filter(
+        (name) =>
+          headers[name] !== unauthenticated[name] ||
+          keyNames.includes(name.toLowerCase())
+      )
+    );
     const options: NodeRequestInit = {
       method: operation.method,
-      headers: this.buildHeaders(operation, parameters, authConfig),
+      headers,
     };
 
     // Add request body if needed
@@ -91,10 +497,62 @@ export class ApiHttpClient {
       operation.requestBody &&
       ["POST", "PUT", "PATCH"].includes(operation.method)
     ) {
-      options.body = this.buildRequestBody(operation.requestBody, parameters);
+      const resolved = resolveRequestContentType(
+        operation.requestBody,
+        requestOptions.contentType
+      );
+      if (!resolved) {
+        throw new Error(
+          `Content type '${requestOptions.contentType}' is not declared for this operation. Declared: ${Object.keys(
+            operation.requestBody.content
+          ).join(", ")}`
+        );
+      }
+      const { contentType, media } = resolved;
+      const bodyData =
+        extractBodyData(operation.requestBody, parameters, contentType) ?? {};
+      options.body = await serializeRequestBody(bodyData, contentType, media);
+      if (isMultipartContentType(contentType)) {
+        // Let fetch generate the multipart boundary
+        delete headers["Content-Type"];
+      } else {
+        headers["Content-Type"] = contentType;
+      }
     }
 
-    return { url, options };
+    const signers = credentials
+      ? credentialsInUse(operation, credentials).filter(signsRequest)
+      : [];
+    for (const signer of signers) {
+      const multipart = options.body instanceof FormData;
+      if (multipart && !isDigest(signer)) {
+        throw new Error(
+          `${signer.type} signing of multipart/form-data bodies is not supported`
+        );
+      }
+      const request: SignableRequest = {
+        method: operation.method,
+        url,
+        headers,
+        body: multipart ? undefined : options.body?.toString(),
+      };
+      let signed: Record<string, string> = {};
+      if (isSigV4(signer)) {
+        signed = signSigV4Request(request, signer.config);
+      } else if (isHmac(signer)) {
+        signed = signHmacRequest(request, signer.config);
+      } else {
+        const authorization = digestChallenges.authorize(
+          request,
+          signer.config
+        );
+        if (authorization) signed = { Authorization: authorization };
+      }
+      Object.assign(headers, signed);
+      for (const name of Object.keys(signed)) credentialHeaders.add(name);
+    }
+
+    return { url, options, credentialHeaders: [...credentialHeaders] };
   }
 
   private buildUrl(
@@ -111,16 +569,14 @@ export class ApiHttpClient {
         if (param.in === "path" && parameters[param.name] !== undefined) {
           path = path.replace(
             `{${param.name}}`,
-            encodeURIComponent(String(parameters[param.name]))
+            serializePathParameter(param, parameters[param.name])
           );
         } else if (
           param.in === "query" &&
           parameters[param.name] !== undefined
         ) {
           queryParams.push(
-            `${encodeURIComponent(param.name)}=${encodeURIComponent(
-              String(parameters[param.name])
-            )}`
+            ...serializeQueryParameter(param, parameters[param.name])
           );
         }
       }
@@ -141,8 +597,7 @@ export class ApiHttpClient {
 
   private buildHeaders(
     operation: OperationInfo,
-    parameters: Record<string, any>,
-    authConfig?: AuthConfig
+    parameters: Record<string, any>
   ): Record<string, string> {
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
@@ -154,86 +609,37 @@ export class ApiHttpClient {
     if (operation.parameters) {
       for (const param of operation.parameters) {
         if (param.in === "header" && parameters[param.name] !== undefined) {
-          headers[param.name] = String(parameters[param.name]);
+          headers[param.name] = serializeHeaderParameter(
+            param,
+            parameters[param.name]
+          );
         }
       }
     }
 
-    // Add authentication headers
-    if (authConfig) {
-      this.addAuthHeaders(headers, authConfig);
-    }
-
-    return headers;
-  }
-
-  private addAuthHeaders(
-    headers: Record<string, string>,
-    authConfig: AuthConfig
-  ): void {
-    switch (authConfig.type) {
-      case "apiKey":
-        if (authConfig.config.headerName && authConfig.config.apiKey) {
-          headers[authConfig.config.headerName] = authConfig.config.apiKey;
-        }
-        break;
-
-      case "bearer":
-        if (authConfig.config.token) {
-          headers["Authorization"] = `Bearer ${authConfig.config.token}`;
-        }
-        break;
-
-      case "basic":
-        if (authConfig.config.username && authConfig.config.password) {
-          const credentials = Buffer.from(
-            `${authConfig.config.username}:${authConfig.config.password}`
-          ).toString("base64");
-          headers["Authorization"] = `Basic ${credentials}`;
-        }
-        break;
-
-      case "oauth2":
-        if (authConfig.config.accessToken) {
-          headers["Authorization"] = `Bearer ${authConfig.config.accessToken}`;
+    // Add cookie parameters
+    const cookiePairs: string[] = [];
+    if (operation.parameters) {
+      for (const param of operation.parameters) {
+        if (param.in === "cookie" && parameters[param.name] !== undefined) {
+          cookiePairs.push(
+            ...serializeCookieParameter(param, parameters[param.name])
+          );
         }
-        break;
-    }
-  }
-
-  private buildRequestBody(
-    requestBody: RequestBodyInfo,
-    parameters: Record<string, any>
-  ): string {
-    if (
-      !requestBody.required &&
-      !Object.keys(parameters).some((key) => key.startsWith("body_"))
-    ) {
-      return JSON.stringify({});
-    }
-
-    // Extract body parameters (parameters starting with 'body_' or direct body object)
-    const bodyData: Record<string, any> = {};
-
-    // If there's a direct 'body' parameter, use it
-    if (parameters.body && typeof parameters.body === "object") {
-      return JSON.stringify(parameters.body);
-    }
-
-    // Otherwise, collect parameters that start with 'body_'
-    for (const [key, value] of Object.entries(parameters)) {
-      if (key.startsWith("body_")) {
-        const bodyKey = key.substring(5); // Remove 'body_' prefix
-        bodyData[bodyKey] = value;
       }
     }
+    if (cookiePairs.length > 0) {
+      headers["Cookie"] = cookiePairs.join("; ");
+    }
 
-    return JSON.stringify(bodyData);
+    return headers;
   }
 
   private async processResponse(
     response: Response,
-    executionTime: number
+    executionTime: number,
+    operation: OperationInfo,
+    requestOptions: RequestOptions = {}
   ): Promise<ApiCallResult> {
     const headers: Record<string, string> = {};
     response.headers.forEach((value, key) => {
@@ -241,13 +647,27 @@ export class ApiHttpClient {
     });
 
     let data: any;
+    let binary: BinaryResponseInfo | undefined;
     const contentType = response.headers.get("content-type") || "";
 
     try {
       if (contentType.includes("application/json")) {
         data = await response.json();
-      } else {
+      } else if (contentType && isTextualMimeType(contentType)) {
         data = await response.text();
+      } else {
+        const buffer = Buffer.from(await response.arrayBuffer());
+        if (buffer.length === 0 || (!contentType && looksLikeText(buffer))) {
+          data = buffer.toString("utf8");
+        } else {
+          binary = await handleBinaryResponse(
+            buffer,
+            contentType || "application/octet-stream",
+            response.headers.get("content-disposition"),
+            operation.operationId,
+            requestOptions
+          );
+        }
       }
     } catch (error) {
       data = `Failed to parse response: ${
@@ -264,19 +684,79 @@ export class ApiHttpClient {
         : `HTTP ${response.status}: ${response.statusText}`,
       headers,
       executionTime,
+      binary,
     };
   }
 
+  getCookieJar(sessionKey: string): CookieJar {
+    let jar = this.cookieJars.get(sessionKey);
+    if (!jar) {
+      jar = new CookieJar();
+      this.cookieJars.set(sessionKey, jar);
+    }
+    return jar;
+  }
+
+  clearCookies(sessionKey: string): void {
+    for (const key of [...this.cookieJars.keys()]) {
+      if (key === sessionKey || key.startsWith(`${sessionKey}#`)) {
+        this.cookieJars.delete(key);
+      }
+    }
+  }
+
   setAuthConfig(apiSource: string, authConfig: AuthConfig): void {
     this.authConfigs.set(apiSource, authConfig);
+    const defaultProfile = this.defaultAuthProfiles.get(apiSource);
+    if (defaultProfile) {
+      this.authProfiles.set(apiSource, {
+        ...this.authProfiles.get(apiSource),
+        [defaultProfile]: authConfig,
+      });
+    }
+  }
+
+  getAuthConfig(apiSource: string, profile?: string): AuthConfig | undefined {
+    if (profile === NO_AUTH_PROFILE) return undefined;
+    return profile === undefined
+      ? this.authConfigs.get(apiSource)
+      : this.authProfiles.get(apiSource)?.[profile];
+  }
+
+  // It becomes the default when asked to, when it already is, or when the API
+  // has no credentials yet
+  setAuthProfile(
+    apiSource: string,
+    name: string,
+    authConfig: AuthConfig,
+    makeDefault: boolean = false
+  ): void {
+    this.authProfiles.set(apiSource, {
+      ...this.authProfiles.get(apiSource),
+      [name]: authConfig,
+    });
+    if (
+      makeDefault ||
+      !this.authConfigs.has(apiSource) ||
+      this.defaultAuthProfiles.get(apiSource) === name
+    ) {
+      this.defaultAuthProfiles.set(apiSource, name);
+      this.authConfigs.set(apiSource, authConfig);
+    }
+  }
+
+  listAuthProfiles(apiSource: string): Record<string, AuthConfig> {
+    return { ...this.authProfiles.get(apiSource) };
   }
 
-  getAuthConfig(apiSource: string): AuthConfig | undefined {
-    return this.authConfigs.get(apiSource);
+  getDefaultAuthProfile(apiSource: string): string | undefined {
+    return this.defaultAuthProfiles.get(apiSource);
   }
 
   removeAuthConfig(apiSource: string): void {
     this.authConfigs.delete(apiSource);
+    this.authProfiles.delete(apiSource);
+    this.defaultAuthProfiles.delete(apiSource);
   }
 
   // Public method to reload auth configs from sessions
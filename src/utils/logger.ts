@@ -0,0 +1,247 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import * as fs from "fs";
+import * as path from "path";
+import { isSecretName } from "./code-snippets.js";
+
+// Nothing is ever written to stdout, which carries the MCP JSON-RPC stream.
+// Settings come from the OPENAPI_CLIENT_MCP_LOG_* variables (see README).
+
+export type LogLevel = LoggingLevel;
+export type LogFormat = "text" | "json";
+
+export const LOG_LEVELS: LogLevel[] = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+];
+
+const REDACTED = "[REDACTED]";
+const ALWAYS_REDACTED = new Set(["cookie", "set-cookie"]);
+const MAX_DEPTH = 8;
+// Credentials embedded in free text, e.g. a logged header line
+const INLINE_CREDENTIAL = /\b(Bearer|Basic|Digest|AWS4-HMAC-SHA256)\s+[^\s"',]+/gi;
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  logger: string;
+  message: string;
+  data?: unknown;
+}
+
+export interface LoggingOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+  file?: string;
+  redactFields?: string[];
+}
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+function severity(level: LogLevel): number {
+  return LOG_LEVELS.indexOf(level);
+}
+
+function redactText(value: string): string {
+  return value.replace(INLINE_CREDENTIAL, (_, scheme) => `${scheme} ${REDACTED}`);
+}
+
+// Errors become plain objects and cycles are cut
+export function redact(
+  value: unknown,
+  extraFields: Set<string> = new Set(),
+  depth: number = 0,
+  seen: WeakSet<object> = new WeakSet()
+): unknown {
+  if (typeof value === "string") return redactText(value);
+  if (value === null || typeof value !== "object") return value;
+  if (seen.has(value)) return "[Circular]";
+  if (depth > MAX_DEPTH) return "[Truncated]";
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(value.stack ? { stack: redactText(value.stack) } : {}),
+    };
+  }
+  if (value instanceof URLSearchParams) {
+    return redact(Object.fromEntries(value), extraFields, depth, seen);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, extraFields, depth + 1, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] =
+      isSecretName(key) ||
+      ALWAYS_REDACTED.has(key.toLowerCase()) ||
+      extraFields.has(key.toLowerCase())
+        ? REDACTED
+        : redact(item, extraFields, depth + 1, seen);
+  }
+  return result;
+}
+
+function formatText(entry: LogEntry): string {
+  let line = `${entry.time} ${entry.level.toUpperCase()} [${entry.logger}] ${entry.message}`;
+  if (entry.data !== undefined) {
+    line += ` ${
+      typeof entry.data === "string" ? entry.data : JSON.stringify(entry.data)
+    }`;
+  }
+  return line;
+}
+
+class LogDispatcher {
+  level: LogLevel = "info";
+  format: LogFormat = "text";
+  redactFields: Set<string> = new Set();
+  // Until a client sends logging/setLevel, only warnings and worse go to it
+  clientLevel: LogLevel = "warning";
+  private file?: fs.WriteStream;
+  private server?: Server;
+
+  configure(options: LoggingOptions): void {
+    if (options.level) this.level = options.level;
+    if (options.format) this.format = options.format;
+    if (options.redactFields) {
+      this.redactFields = new Set(
+        options.redactFields.map((field) => field.trim().toLowerCase())
+      );
+    }
+    if (options.file !== undefined) {
+      this.file?.end();
+      this.file = options.file
+        ? fs.createWriteStream(path.resolve(options.file), { flags: "a" })
+        : undefined;
+      this.file?.on("error", (error) => {
+        process.stderr.write(
+          `Log file unavailable, using stderr: ${error.message}\n`
+        );
+        this.file = undefined;
+      });
+    }
+  }
+
+  attach(server: Server): void {
+    this.server = server;
+  }
+
+  dispatch(
+    level: LogLevel,
+    logger: string,
+    message: string,
+    data?: unknown
+  ): void {
+    const toSink = severity(level) >= severity(this.level);
+    const toClient =
+      this.server !== undefined && severity(level) >= severity(this.clientLevel);
+    if (!toSink && !toClient) return;
+
+    const entry: LogEntry = {
+      time: new Date().toISOString(),
+      level,
+      logger,
+      message: redactText(message),
+      ...(data !== undefined ? { data: redact(data, this.redactFields) } : {}),
+    };
+
+    if (toSink) {
+      const line =
+        this.format === "json" ? JSON.stringify(entry) : formatText(entry);
+      if (this.file) {
+        this.file.write(line + "\n");
+      } else {
+        process.stderr.write(line + "\n");
+      }
+    }
+    if (toClient) {
+      // Not connected yet, or the client went away; never log this failure,
+      // it would recurse
+      this.server!
+        .sendLoggingMessage({
+          level,
+          logger,
+          data:
+            entry.data === undefined
+              ? entry.message
+              : { message: entry.message, data: entry.data },
+        })
+        .catch(() => undefined);
+    }
+  }
+}
+
+export class Logger {
+  constructor(
+    private readonly name: string,
+    private readonly dispatcher: LogDispatcher = new LogDispatcher()
+  ) {}
+
+  child(name: string): Logger {
+    return new Logger(`${this.name}:${name}`, this.dispatcher);
+  }
+
+  configure(options: LoggingOptions): void {
+    this.dispatcher.configure(options);
+  }
+
+  attachServer(server: Server): void {
+    this.dispatcher.attach(server);
+  }
+
+  setClientLevel(level: LogLevel): void {
+    this.dispatcher.clientLevel = level;
+  }
+
+  log(level: LogLevel, message: string, data?: unknown): void {
+    this.dispatcher.dispatch(level, this.name, message, data);
+  }
+
+  debug(message: string, data?: unknown): void {
+    this.log("debug", message, data);
+  }
+
+  info(message: string, data?: unknown): void {
+    this.log("info", message, data);
+  }
+
+  notice(message: string, data?: unknown): void {
+    this.log("notice", message, data);
+  }
+
+  warning(message: string, data?: unknown): void {
+    this.log("warning", message, data);
+  }
+
+  error(message: string, data?: unknown): void {
+    this.log("error", message, data);
+  }
+}
+
+export function loggingOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): LoggingOptions {
+  const level = env.OPENAPI_CLIENT_MCP_LOG_LEVEL?.toLowerCase();
+  const format = env.OPENAPI_CLIENT_MCP_LOG_FORMAT?.toLowerCase();
+  return {
+    level: isLogLevel(level) ? level : undefined,
+    format: format === "json" || format === "text" ? format : undefined,
+    file: env.OPENAPI_CLIENT_MCP_LOG_FILE || undefined,
+    redactFields: env.OPENAPI_CLIENT_MCP_LOG_REDACT?.split(",").filter(Boolean),
+  };
+}
+
+export const logger = new Logger("openapi-client-mcp");
+logger.configure(loggingOptionsFromEnv());
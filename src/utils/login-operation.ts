@@ -0,0 +1,393 @@
+import type {
+  ApiCallResult,
+  AuthConfig,
+  OperationInfo,
+} from "../types/index.js";
+import { logger } from "./logger.js";
+import { maskSecretFields } from "./code-snippets.js";
+import { getByPath } from "./paginator.js";
+import { resolveConfigReferences, resolveSecretValue } from "./secret-refs.js";
+import { specCache } from "./spec-cache.js";
+
+const log = logger.child("login");
+
+// Login-operation credentials: an operation of the spec (e.g. POST
+// /auth/login) is called without credentials and the token is read from its
+// JSON response. The config keys are listed by manage_auth.
+
+// Tokens are renewed this long before they expire
+const EXPIRY_SKEW_MS = 60 * 1000;
+
+const DEFAULT_REFRESH_PARAMETERS = JSON.stringify({
+  body: { refresh_token: "{refreshToken}" },
+});
+
+// Sent instead of the token in requests that are never sent (dry runs)
+const PENDING_TOKEN = "TOKEN_FROM_LOGIN";
+
+interface LoginToken {
+  token: string;
+  refreshToken?: string;
+  expiresAt?: number;
+}
+
+export interface LoginTokenStatus {
+  cached: boolean;
+  expiresAt?: string;
+}
+
+export type LoginCall = (
+  operation: OperationInfo,
+  parameters: Record<string, any>,
+  baseUrl: string
+) => Promise<ApiCallResult>;
+
+export function isLogin(credential: AuthConfig): boolean {
+  return credential.type === "login";
+}
+
+export function parseLoginParameters(
+  json: string | undefined,
+  key: string = "parameters"
+): Record<string, any> {
+  if (!json) return {};
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(`${key} must be a JSON object of call_api parameters`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`${key} must be a JSON object of call_api parameters`);
+  }
+  return parsed;
+}
+
+export function checkLoginConfig(config: Record<string, string>): string[] {
+  const problems: string[] = [];
+  if (!config.operationId) {
+    problems.push("operationId of the login operation is required");
+  }
+  if (!config.tokenPath) {
+    problems.push(
+      'tokenPath is required: where the token is in the login response, e.g. "token" or "data.access_token"'
+    );
+  }
+  for (const key of ["parameters", "refreshParameters"]) {
+    try {
+      parseLoginParameters(config[key], key);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  if (config.refreshOperationId && !config.refreshTokenPath) {
+    problems.push("refreshTokenPath is required with refreshOperationId");
+  }
+  return problems;
+}
+
+// Dotted names of the values in call_api parameters, e.g. "body.password"
+function leafNames(parameters: Record<string, any>): string[] {
+  const names: string[] = [];
+  const collect = (value: any, prefix: string) => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        collect(child, prefix ? `${prefix}.${key}` : key);
+      }
+    } else {
+      names.push(prefix);
+    }
+  };
+  collect(parameters, "");
+  return names;
+}
+
+// None when the parameters are not valid JSON
+export function loginParameterNames(config: Record<string, string>): string[] {
+  try {
+    return leafNames(parseLoginParameters(config.parameters));
+  } catch {
+    return [];
+  }
+}
+
+// JSON paths may be written with a leading "$."
+function readPath(data: any, path: string): any {
+  return getByPath(data, path.replace(/^\$\.?/, ""));
+}
+
+// Resolved after parsing so secrets cannot break the JSON
+async function resolveParameters(value: any): Promise<any> {
+  if (typeof value === "string") return resolveSecretValue(value);
+  if (Array.isArray(value)) {
+    const items: any[] = [];
+    for (const item of value) items.push(await resolveParameters(item));
+    return items;
+  }
+  if (value && typeof value === "object") {
+    const resolved: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      resolved[key] = await resolveParameters(child);
+    }
+    return resolved;
+  }
+  return value;
+}
+
+function replaceRefreshToken(value: any, refreshToken: string): any {
+  if (typeof value === "string") {
+    return value.replace(/\{refreshToken\}/g, refreshToken);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceRefreshToken(item, refreshToken));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        replaceRefreshToken(child, refreshToken),
+      ])
+    );
+  }
+  return value;
+}
+
+function cacheKey(config: Record<string, string>, baseUrl: string): string {
+  return JSON.stringify([baseUrl, config]);
+}
+
+function isFresh(expiresAt: number | undefined): boolean {
+  return expiresAt === undefined || expiresAt - EXPIRY_SKEW_MS > Date.now();
+}
+
+function tokenFromResponse(
+  operationId: string,
+  data: any,
+  config: Record<string, string>
+): LoginToken {
+  const token = readPath(data, config.tokenPath);
+  if (typeof token !== "string" && typeof token !== "number") {
+    const fields =
+      data && typeof data === "object" ? Object.keys(data).join(", ") : "";
+    throw new Error(
+      `Response of login operation ${operationId} has no token at '${
+        config.tokenPath
+      }'${fields ? ` (fields: ${fields})` : ""}`
+    );
+  }
+  const expiresIn = config.expiresInPath
+    ? Number(readPath(data, config.expiresInPath))
+    : NaN;
+  const refreshToken = config.refreshTokenPath
+    ? readPath(data, config.refreshTokenPath)
+    : undefined;
+  return {
+    token: String(token),
+    refreshToken:
+      typeof refreshToken === "string" && refreshToken
+        ? refreshToken
+        : undefined,
+    expiresAt:
+      Number.isFinite(expiresIn) && expiresIn > 0
+        ? Date.now() + expiresIn * 1000
+        : undefined,
+  };
+}
+
+// Logins run on first use and again after a 401; concurrent calls share one
+// login
+export class LoginTokenManager {
+  private tokens: Map<string, LoginToken> = new Map();
+  private pending: Map<string, Promise<LoginToken>> = new Map();
+
+  async getToken(
+    credential: AuthConfig,
+    baseUrl: string,
+    call: LoginCall,
+    forceLogin: boolean = false
+  ): Promise<string> {
+    const loginBaseUrl = credential.config.baseUrl || baseUrl;
+    const key = cacheKey(credential.config, loginBaseUrl);
+    const cached = this.tokens.get(key);
+    if (cached && isFresh(cached.expiresAt) && !forceLogin) {
+      return cached.token;
+    }
+
+    const token = await this.shared(key, async () => {
+      const config = await resolveConfigReferences({
+        ...credential.config,
+        parameters: "",
+        refreshParameters: "",
+      });
+      // A 401 means the token was rejected, so only a new login helps
+      if (cached?.refreshToken && config.refreshOperationId && !forceLogin) {
+        try {
+          const parameters = replaceRefreshToken(
+            parseLoginParameters(
+              credential.config.refreshParameters || DEFAULT_REFRESH_PARAMETERS,
+              "refreshParameters"
+            ),
+            cached.refreshToken
+          );
+          const refreshed = await this.run(
+            config.refreshOperationId,
+            await resolveParameters(parameters),
+            config,
+            loginBaseUrl,
+            call
+          );
+          // Servers that do not rotate refresh tokens omit them on refresh
+          return {
+            ...refreshed,
+            refreshToken: refreshed.refreshToken ?? cached.refreshToken,
+          };
+        } catch (error) {
+          log.notice("Token refresh failed, logging in again", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      return this.run(
+        config.operationId,
+        await resolveParameters(
+          parseLoginParameters(credential.config.parameters)
+        ),
+        config,
+        loginBaseUrl,
+        call
+      );
+    });
+    this.tokens.set(key, token);
+    return token.token;
+  }
+
+  private async run(
+    operationId: string,
+    parameters: Record<string, any>,
+    config: Record<string, string>,
+    baseUrl: string,
+    call: LoginCall
+  ): Promise<LoginToken> {
+    const apiInfo = config.docsPath
+      ? await specCache.getApiInfo(config.docsPath)
+      : null;
+    const operation = apiInfo?.operations.find(
+      (candidate) => candidate.operationId === operationId
+    );
+    if (!operation) {
+      throw new Error(
+        `Login operation ${operationId} not found in ${
+          config.docsPath ?? "the API specification"
+        }`
+      );
+    }
+
+    log.info(`Logging in with ${operation.method} ${operation.path}`, {
+      operationId,
+      baseUrl,
+    });
+    // Made straight through the HTTP client, so the login is never recorded
+    // in the call history
+    const result = await call(operation, parameters, baseUrl);
+    if (!result.success) {
+      // Error bodies may echo what was sent
+      const sentNames = leafNames(parameters).map(
+        (name) => name.split(".").pop()!
+      );
+      const detail =
+        result.data === undefined
+          ? ""
+          : ` - ${(typeof result.data === "string"
+              ? result.data
+              : JSON.stringify(maskSecretFields(result.data, sentNames))
+            ).slice(0, 200)}`;
+      throw new Error(
+        `Login operation ${operationId} failed: ${
+          result.error ?? `HTTP ${result.statusCode}`
+        }${detail}`
+      );
+    }
+
+    const token = tokenFromResponse(operationId, result.data, config);
+    log.info("Obtained login token", {
+      operationId,
+      expiresAt: token.expiresAt
+        ? new Date(token.expiresAt).toISOString()
+        : undefined,
+    });
+    return token;
+  }
+
+  private shared(
+    key: string,
+    request: () => Promise<LoginToken>
+  ): Promise<LoginToken> {
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = Promise.resolve()
+        .then(request)
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  status(credential: AuthConfig, baseUrl: string): LoginTokenStatus {
+    const token = this.tokens.get(
+      cacheKey(credential.config, credential.config.baseUrl || baseUrl)
+    );
+    if (!token || !isFresh(token.expiresAt)) return { cached: false };
+    return {
+      cached: true,
+      expiresAt:
+        token.expiresAt !== undefined
+          ? new Date(token.expiresAt).toISOString()
+          : undefined,
+    };
+  }
+
+  // Without `fetch`, only tokens at hand are used
+  async withTokens(
+    authConfig: AuthConfig,
+    inUse: AuthConfig[],
+    options: {
+      fetch: boolean;
+      forceLogin?: boolean;
+      baseUrl: string;
+      call: LoginCall;
+    }
+  ): Promise<AuthConfig> {
+    const fill = async (credential: AuthConfig): Promise<AuthConfig> => {
+      // Placeholders (generate_code) carry a token and no operation
+      if (
+        !inUse.includes(credential) ||
+        !isLogin(credential) ||
+        !credential.config.operationId
+      ) {
+        return credential;
+      }
+      const loginBaseUrl = credential.config.baseUrl || options.baseUrl;
+      const token = options.fetch
+        ? await this.getToken(
+            credential,
+            options.baseUrl,
+            options.call,
+            options.forceLogin
+          )
+        : this.status(credential, options.baseUrl).cached
+        ? this.tokens.get(cacheKey(credential.config, loginBaseUrl))!.token
+        : PENDING_TOKEN;
+      return { ...credential, config: { ...credential.config, token } };
+    };
+
+    const resolved = await fill(authConfig);
+    if (!authConfig.schemes) return resolved;
+    const schemes: Record<string, AuthConfig> = {};
+    for (const [name, credential] of Object.entries(authConfig.schemes)) {
+      schemes[name] = await fill(credential);
+    }
+    return { ...resolved, schemes };
+  }
+}
+
+export const loginTokens = new LoginTokenManager();
@@ -0,0 +1,73 @@
+import * as path from "path";
+
+const MIME_TYPES: Record<string, string> = {
+  ".avif": "image/avif",
+  ".bmp": "image/bmp",
+  ".csv": "text/csv",
+  ".doc": "application/msword",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".gif": "image/gif",
+  ".gz": "application/gzip",
+  ".htm": "text/html",
+  ".html": "text/html",
+  ".ico": "image/x-icon",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".tar": "application/x-tar",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".tsv": "text/tab-separated-values",
+  ".txt": "text/plain",
+  ".wav": "audio/wav",
+  ".webp": "image/webp",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xml": "application/xml",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".zip": "application/zip",
+};
+
+export function mimeTypeFromPath(filePath: string): string {
+  return (
+    MIME_TYPES[path.extname(filePath).toLowerCase()] ||
+    "application/octet-stream"
+  );
+}
+
+export function extensionFromMimeType(mimeType: string): string {
+  const base = mimeType.split(";")[0].trim().toLowerCase();
+  const entry = Object.entries(MIME_TYPES).find(([, type]) => type === base);
+  return entry ? entry[0] : ".bin";
+}
+
+// Media types whose payload can be shown to the agent as text
+export function isTextualMimeType(mimeType: string): boolean {
+  const base = mimeType.split(";")[0].trim().toLowerCase();
+  return (
+    base.startsWith("text/") ||
+    base.endsWith("+json") ||
+    base.endsWith("+xml") ||
+    base.endsWith("+yaml") ||
+    [
+      "application/json",
+      "application/xml",
+      "application/yaml",
+      "application/x-yaml",
+      "application/javascript",
+      "application/ecmascript",
+      "application/graphql",
+      "application/x-www-form-urlencoded",
+      "application/x-ndjson",
+      "image/svg+xml",
+    ].includes(base)
+  );
+}
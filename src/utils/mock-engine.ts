@@ -0,0 +1,212 @@
+import type {
+  ApiCallResult,
+  ApiInfo,
+  OperationInfo,
+  ResponseInfo,
+  ValidationIssue,
+} from "../types/index.js";
+import { exampleFromSchema } from "./example-values.js";
+import { isJsonContentType, preferredContentType } from "./request-body.js";
+import { type SchemaDialect, validateRequest } from "./schema-validator.js";
+
+export interface MockPreferences {
+  code?: number;
+  example?: string;
+}
+
+export interface MockResponse {
+  statusCode: number;
+  contentType?: string;
+  body?: any;
+  // Documented response key used, e.g. "200" or "default"
+  documentedAs?: string;
+}
+
+// Parses `Prefer: code=404, example=notFound`
+export function parsePreferHeader(value: string | undefined): MockPreferences {
+  const preferences: MockPreferences = {};
+  for (const part of (value ?? "").split(/[,;]/)) {
+    const [rawKey, ...rest] = part.split("=");
+    const key = rawKey.trim().toLowerCase();
+    const preference = rest.join("=").trim().replace(/^"|"$/g, "");
+    if (key === "code" && /^\d{3}$/.test(preference)) {
+      preferences.code = Number(preference);
+    } else if (key === "example" && preference) {
+      preferences.example = preference;
+    }
+  }
+  return preferences;
+}
+
+function statusFor(key: string): number {
+  if (/^\d{3}$/.test(key)) return Number(key);
+  if (/^\dXX$/i.test(key)) return Number(key.charAt(0)) * 100;
+  return 200;
+}
+
+// The preferred code (exact, range or default), otherwise the first 2XX,
+// otherwise \`default\` or the first one
+function selectResponse(
+  responses: Record<string, ResponseInfo>,
+  code?: number
+): { statusCode: number; key?: string; response?: ResponseInfo } {
+  const keys = Object.keys(responses);
+  if (code !== undefined) {
+    const key = [String(code), `${String(code).charAt(0)}XX`, "default"].find(
+      (candidate) =>
+        keys.some((k) => k.toUpperCase() === candidate.toUpperCase())
+    );
+    const match = keys.find((k) => k.toUpperCase() === key?.toUpperCase());
+    return { statusCode: code, key: match, response: match ? responses[match] : undefined };
+  }
+
+  const success = keys
+    .filter((key) => key.startsWith("2"))
+    .sort((a, b) => statusFor(a) - statusFor(b))[0];
+  const key = success ?? (responses.default ? "default" : keys[0]);
+  if (!key) return { statusCode: 200 };
+  return { statusCode: statusFor(key), key, response: responses[key] };
+}
+
+export function synthesizeResponse(
+  operation: OperationInfo,
+  preferences: MockPreferences = {}
+): MockResponse {
+  const { statusCode, key, response } = selectResponse(
+    operation.responses ?? {},
+    preferences.code
+  );
+  const mock: MockResponse = { statusCode, documentedAs: key };
+  const content = response?.content;
+  if (!content || Object.keys(content).length === 0) return mock;
+
+  // A named example decides the media type when several are declared
+  const withExample = preferences.example
+    ? Object.keys(content).find(
+        (type) => content[type].examples?.[preferences.example!] !== undefined
+      )
+    : undefined;
+  const contentType =
+    withExample ?? preferredContentType(Object.keys(content));
+  const media = content[contentType];
+  mock.contentType = contentType.includes("*")
+    ? "application/json"
+    : contentType;
+
+  const named = preferences.example
+    ? media.examples?.[preferences.example]
+    : undefined;
+  const firstNamed = media.examples
+    ? Object.values(media.examples)[0]
+    : undefined;
+  mock.body =
+    named ??
+    media.example ??
+    firstNamed ??
+    exampleFromSchema(media.schema, undefined, {
+      direction: "response",
+      allProperties: true,
+    });
+  return mock;
+}
+
+function pathPattern(template: string): RegExp {
+  const pattern = template
+    .split(/(\{[^}]+\})/)
+    .map((segment) =>
+      segment.startsWith("{")
+        ? `(?<${segment.slice(1, -1).replace(/\W/g, "_")}>[^/]+)`
+        : segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${pattern}/?$`);
+}
+
+// Paths may include the base path of the first server URL (e.g. /api/v3)
+export function matchOperation(
+  apiInfo: ApiInfo,
+  method: string,
+  pathname: string
+): { operation: OperationInfo; pathParams: Record<string, string> } | undefined {
+  let basePath = "";
+  try {
+    basePath = new URL(apiInfo.servers?.[0] ?? "", "http://localhost")
+      .pathname.replace(/\/$/, "");
+  } catch {
+    // Leave the path as is
+  }
+  const candidates =
+    basePath && pathname.startsWith(basePath)
+      ? [pathname.slice(basePath.length) || "/", pathname]
+      : [pathname];
+
+  for (const candidate of candidates) {
+    // Literal paths win over templated ones (/pets/mine before /pets/{id})
+    const operations = apiInfo.operations
+      .filter((op) => op.method === method.toUpperCase())
+      .sort(
+        (a, b) =>
+          (a.path.match(/\{/g)?.length ?? 0) - (b.path.match(/\{/g)?.length ?? 0)
+      );
+    for (const operation of operations) {
+      const match = candidate.match(pathPattern(operation.path));
+      if (!match) continue;
+      const pathParams: Record<string, string> = {};
+      for (const name of operation.path.match(/\{([^}]+)\}/g) ?? []) {
+        const param = name.slice(1, -1);
+        pathParams[param] = decodeURIComponent(
+          match.groups?.[param.replace(/\W/g, "_")] ?? ""
+        );
+      }
+      return { operation, pathParams };
+    }
+  }
+  return undefined;
+}
+
+export function validateMockRequest(
+  operation: OperationInfo,
+  parameters: Record<string, any>,
+  dialect: SchemaDialect,
+  contentType?: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const param of operation.parameters ?? []) {
+    if (param.required && parameters[param.name] === undefined) {
+      issues.push({ path: param.name, message: `is required (${param.in})` });
+    }
+  }
+  if (operation.requestBody?.required && parameters.body === undefined) {
+    issues.push({ path: "body", message: "is required (request body)" });
+  }
+  return [
+    ...issues,
+    ...validateRequest(operation, parameters, contentType, dialect),
+  ];
+}
+
+export function mockOperationCall(
+  operation: OperationInfo,
+  preferences: MockPreferences = {}
+): ApiCallResult {
+  const mock = synthesizeResponse(operation, preferences);
+  const success = mock.statusCode >= 200 && mock.statusCode < 400;
+  const data =
+    mock.body === undefined ||
+    !mock.contentType ||
+    isJsonContentType(mock.contentType) ||
+    typeof mock.body === "string"
+      ? mock.body
+      : JSON.stringify(mock.body);
+  return {
+    success,
+    statusCode: mock.statusCode,
+    data,
+    error: success ? undefined : `HTTP ${mock.statusCode} (mock)`,
+    headers: {
+      ...(mock.contentType ? { "content-type": mock.contentType } : {}),
+      "x-mock-response": mock.documentedAs ?? "undocumented",
+    },
+    executionTime: 0,
+  };
+}
@@ -0,0 +1,327 @@
+import * as http from "http";
+import type { AddressInfo } from "net";
+import type {
+  ApiInfo,
+  OperationInfo,
+  ParameterInfo,
+} from "../types/index.js";
+import {
+  matchOperation,
+  parsePreferHeader,
+  synthesizeResponse,
+  validateMockRequest,
+} from "./mock-engine.js";
+import { parameterExplode, parameterStyle } from "./parameter-serializer.js";
+import {
+  isJsonContentType,
+  isMultipartContentType,
+  isUrlEncodedContentType,
+} from "./request-body.js";
+import { schemaDialect } from "./schema-validator.js";
+import { resolveDocsPath } from "./spec-cache.js";
+
+export const DEFAULT_MOCK_PORT = 4010;
+export const DEFAULT_MOCK_HOST = "127.0.0.1";
+
+export interface MockServerInfo {
+  docsPath: string;
+  title: string;
+  url: string;
+  port: number;
+  startedAt: string;
+  requestCount: number;
+}
+
+interface RunningMockServer {
+  info: MockServerInfo;
+  server: http.Server;
+}
+
+// Query delimiters as URLSearchParams decodes them
+const DELIMITERS: Record<string, string> = {
+  spaceDelimited: " ",
+  pipeDelimited: "|",
+  tabDelimited: "\t",
+};
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+// Multipart fields by name; files are given by their file name, as the
+// schema's binary fields accept anything
+async function parseMultipart(
+  raw: Buffer,
+  contentType: string
+): Promise<Record<string, any>> {
+  const form = await new Response(raw, {
+    headers: { "Content-Type": contentType },
+  }).formData();
+  const fields: Record<string, any> = {};
+  for (const [name, entry] of form) {
+    const value = typeof entry === "string" ? entry : entry.name;
+    fields[name] = name in fields ? [fields[name], value].flat() : value;
+  }
+  return fields;
+}
+
+async function parseBody(
+  buffer: Buffer,
+  contentType: string | undefined
+): Promise<any> {
+  if (buffer.length === 0) return undefined;
+  if (contentType && isMultipartContentType(contentType)) {
+    return parseMultipart(buffer, contentType);
+  }
+  const raw = buffer.toString("utf8");
+  if (contentType && isUrlEncodedContentType(contentType)) {
+    return Object.fromEntries(new URLSearchParams(raw));
+  }
+  if (!contentType || isJsonContentType(contentType)) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+  return raw;
+}
+
+function parseCookies(header: string | undefined): URLSearchParams {
+  const cookies = new URLSearchParams();
+  for (const pair of (header ?? "").split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator <= 0) continue;
+    const value = pair.slice(separator + 1).trim();
+    let decoded = value;
+    try {
+      decoded = decodeURIComponent(value);
+    } catch {
+      // Not percent-encoded after all
+    }
+    cookies.append(pair.slice(0, separator).trim(), decoded);
+  }
+  return cookies;
+}
+
+// Reads a query or cookie parameter back from its name/value pairs,
+// undoing the style and explode rules it was serialized with
+function formParameter(param: ParameterInfo, pairs: URLSearchParams): any {
+  const style = parameterStyle(param);
+  const explode = parameterExplode(param);
+  const type = param.schema?.type;
+  const delimiter = DELIMITERS[style] ?? ",";
+
+  if (type === "object" && style === "deepObject") {
+    const prefix = `${param.name}[`;
+    const entries = [...pairs].filter(
+      ([name]) => name.startsWith(prefix) && name.endsWith("]")
+    );
+    if (entries.length === 0) return undefined;
+    return Object.fromEntries(
+      entries.map(([name, value]) => [name.slice(prefix.length, -1), value])
+    );
+  }
+  if (type === "object" && explode) {
+    const properties = Object.keys(param.schema.properties ?? {});
+    const entries = properties
+      .filter((name) => pairs.has(name))
+      .map((name) => [name, pairs.get(name)]);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+
+  const values = pairs.getAll(param.name);
+  if (values.length === 0) return undefined;
+  if (type === "array") {
+    return explode ? values : values[0].split(delimiter);
+  }
+  if (type === "object") {
+    const parts = values[0].split(delimiter);
+    const object: Record<string, string> = {};
+    for (let i = 0; i + 1 < parts.length; i += 2) {
+      object[parts[i]] = parts[i + 1];
+    }
+    return object;
+  }
+  if (param.contentType) {
+    try {
+      return JSON.parse(values[0]);
+    } catch {
+      return values[0];
+    }
+  }
+  return values[0];
+}
+
+// Collects the request into the same `parameters` shape call_api takes
+function requestParameters(
+  operation: OperationInfo,
+  url: URL,
+  req: http.IncomingMessage,
+  pathParams: Record<string, string>,
+  body: any
+): Record<string, any> {
+  const parameters: Record<string, any> = {};
+  const cookies = parseCookies(req.headers.cookie);
+  for (const param of operation.parameters ?? []) {
+    if (param.in === "path") {
+      parameters[param.name] = pathParams[param.name];
+    } else if (param.in === "query" || param.in === "cookie") {
+      const value = formParameter(
+        param,
+        param.in === "query" ? url.searchParams : cookies
+      );
+      if (value !== undefined) parameters[param.name] = value;
+    } else if (param.in === "header") {
+      const value = req.headers[param.name.toLowerCase()];
+      if (value !== undefined) parameters[param.name] = value;
+    }
+  }
+  if (body !== undefined) parameters.body = body;
+  return parameters;
+}
+
+function send(
+  res: http.ServerResponse,
+  statusCode: number,
+  body: any,
+  contentType: string = "application/json",
+  headers: Record<string, string> = {}
+): void {
+  const payload =
+    body === undefined
+      ? ""
+      : typeof body === "string" && !isJsonContentType(contentType)
+      ? body
+      : JSON.stringify(body, null, 2);
+  res.writeHead(statusCode, {
+    ...(payload ? { "Content-Type": contentType } : {}),
+    ...headers,
+  });
+  res.end(payload);
+}
+
+// Local HTTP servers answering every operation of a spec with synthesized
+// responses, one server per port
+export class MockServerManager {
+  private servers: Map<number, RunningMockServer> = new Map();
+
+  async start(
+    docsPath: string,
+    apiInfo: ApiInfo,
+    port: number = DEFAULT_MOCK_PORT
+  ): Promise<MockServerInfo> {
+    const existing = this.servers.get(port);
+    if (existing) {
+      throw new Error(
+        `A mock server for ${existing.info.docsPath} is already running on port ${port}`
+      );
+    }
+
+    const dialect = schemaDialect(apiInfo.specVersion);
+    const info: MockServerInfo = {
+      docsPath: resolveDocsPath(docsPath),
+      title: apiInfo.title,
+      url: "",
+      port,
+      startedAt: new Date().toISOString(),
+      requestCount: 0,
+    };
+
+    const server = http.createServer(async (req, res) => {
+      info.requestCount++;
+      try {
+        const url = new URL(req.url ?? "/", info.url);
+        const method = (req.method ?? "GET").toUpperCase();
+        const match = matchOperation(apiInfo, method, url.pathname);
+        if (!match) {
+          send(res, 404, {
+            error: "No operation matches this request",
+            method,
+            path: url.pathname,
+          });
+          return;
+        }
+
+        const { operation, pathParams } = match;
+        const contentType = req.headers["content-type"];
+        const body = await parseBody(await readBody(req), contentType);
+        const parameters = requestParameters(
+          operation,
+          url,
+          req,
+          pathParams,
+          body
+        );
+        const issues = validateMockRequest(
+          operation,
+          parameters,
+          dialect,
+          contentType
+        );
+        if (issues.length > 0) {
+          send(res, 400, {
+            error: "Request validation failed",
+            operationId: operation.operationId,
+            issues,
+          });
+          return;
+        }
+
+        const mock = synthesizeResponse(
+          operation,
+          parsePreferHeader(req.headers["prefer"] as string | undefined)
+        );
+        send(res, mock.statusCode, mock.body, mock.contentType, {
+          "X-Mock-Operation": operation.operationId,
+          "X-Mock-Response": mock.documentedAs ?? "undocumented",
+        });
+      } catch (error) {
+        send(res, 500, {
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, DEFAULT_MOCK_HOST, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    const address = server.address() as AddressInfo;
+    info.port = address.port;
+    info.url = `http://${DEFAULT_MOCK_HOST}:${address.port}`;
+    this.servers.set(info.port, { info, server });
+    return info;
+  }
+
+  async stop(port: number): Promise<MockServerInfo | undefined> {
+    const running = this.servers.get(port);
+    if (!running) return undefined;
+    this.servers.delete(port);
+    await new Promise<void>((resolve) => running.server.close(() => resolve()));
+    return running.info;
+  }
+
+  async stopAll(): Promise<MockServerInfo[]> {
+    const stopped: MockServerInfo[] = [];
+    for (const port of [...this.servers.keys()]) {
+      const info = await this.stop(port);
+      if (info) stopped.push(info);
+    }
+    return stopped;
+  }
+
+  list(): MockServerInfo[] {
+    return [...this.servers.values()].map((running) => running.info);
+  }
+}
+
+export const mockServerManager = new MockServerManager();
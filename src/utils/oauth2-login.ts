@@ -0,0 +1,223 @@
+import * as crypto from "crypto";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import type { AuthConfig } from "../types/index.js";
+import { logger } from "./logger.js";
+import {
+  AUTHORIZATION_CODE,
+  loginKey,
+  normalizeScopes,
+  oauth2Tokens,
+  requestToken,
+  storeTokens,
+} from "./oauth2.js";
+import { resolveConfigReferences } from "./secret-refs.js";
+
+const log = logger.child("oauth2-login");
+
+// OAuth2 authorization code flow with PKCE (RFC 7636) for native apps
+// (RFC 8252): the user opens the authorization URL in a browser and the
+// authorization server redirects back to a loopback listener here
+
+export const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+export const LOOPBACK_HOST = "127.0.0.1";
+export const CALLBACK_PATH = "/callback";
+
+export interface LoginInfo {
+  authorizationUrl: string;
+  redirectUri: string;
+  expiresAt: string;
+  // Settles when the tokens are stored, or the login failed or timed out
+  done: Promise<void>;
+}
+
+interface ActiveLogin {
+  finish: (error?: Error) => void;
+}
+
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = crypto.randomBytes(32).toString("base64url");
+  const challenge = crypto
+    .createHash("sha256")
+    .update(verifier)
+    .digest("base64url");
+  return { verifier, challenge };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    (char) => `&#${char.charCodeAt(0)};`
+  );
+}
+
+function sendPage(
+  res: http.ServerResponse,
+  statusCode: number,
+  title: string,
+  message: string
+): void {
+  res.writeHead(statusCode, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(
+    `<!doctype html><html><head><title>${escapeHtml(
+      title
+    )}</title></head><body><h1>${escapeHtml(title)}</h1><p>${escapeHtml(
+      message
+    )}</p></body></html>`
+  );
+}
+
+export class AuthorizationCodeLogins {
+  private active: Map<string, ActiveLogin> = new Map();
+
+  // The tokens are written into `credential`, which should be the stored one
+  async start(credential: AuthConfig): Promise<LoginInfo> {
+    if (
+      !credential.config.authorizationUrl ||
+      !credential.config.tokenUrl ||
+      !credential.config.clientId
+    ) {
+      throw new Error(
+        "OAuth2 login needs authorizationUrl, tokenUrl and clientId"
+      );
+    }
+    // The authorization server gets values, not ${env:...} references
+    const config = await resolveConfigReferences(credential.config);
+    // Checked before anything is listening or waiting on this login
+    let authorizationUrl: URL;
+    try {
+      authorizationUrl = new URL(config.authorizationUrl);
+    } catch {
+      throw new Error(
+        `OAuth2 authorizationUrl is not a valid URL: ${config.authorizationUrl}`
+      );
+    }
+    const key = loginKey(config);
+    this.active
+      .get(key)
+      ?.finish(new Error("Superseded by a new login for the same client"));
+
+    const { verifier, challenge } = createPkcePair();
+    const state = crypto.randomBytes(16).toString("base64url");
+    let redirectUri = "";
+
+    let settle!: (error?: Error) => void;
+    const done = new Promise<void>((resolve, reject) => {
+      settle = (error) => (error ? reject(error) : resolve());
+    });
+
+    const server = http.createServer(async (req, res) => {
+      const url = new URL(req.url ?? "/", redirectUri);
+      if (url.pathname !== CALLBACK_PATH) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+
+      const error = url.searchParams.get("error");
+      if (error) {
+        const description = url.searchParams.get("error_description");
+        sendPage(res, 400, "Login failed", description ?? error);
+        login.finish(
+          new Error(
+            `Authorization server returned ${error}${
+              description ? `: ${description}` : ""
+            }`
+          )
+        );
+        return;
+      }
+      // Anything else on this port is not the redirect we asked for
+      const code = url.searchParams.get("code");
+      if (url.searchParams.get("state") !== state || !code) {
+        sendPage(
+          res,
+          400,
+          "Invalid login redirect",
+          "The state did not match or the code is missing."
+        );
+        return;
+      }
+
+      try {
+        const tokens = await requestToken(credential.config, {
+          grant_type: AUTHORIZATION_CODE,
+          code,
+          redirect_uri: redirectUri,
+          code_verifier: verifier,
+        });
+        storeTokens(credential, tokens);
+        sendPage(
+          res,
+          200,
+          "Login complete",
+          "You can close this window and return to your assistant."
+        );
+        login.finish();
+      } catch (exchangeError) {
+        const message =
+          exchangeError instanceof Error
+            ? exchangeError.message
+            : "Unknown error";
+        sendPage(res, 502, "Login failed", message);
+        login.finish(new Error(message));
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(Number(config.redirectPort ?? 0), LOOPBACK_HOST, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    const { port } = server.address() as AddressInfo;
+    redirectUri = `http://${LOOPBACK_HOST}:${port}${CALLBACK_PATH}`;
+
+    const timer = setTimeout(
+      () =>
+        login.finish(
+          new Error(
+            `OAuth2 login timed out after ${LOGIN_TIMEOUT_MS / 60000} minutes`
+          )
+        ),
+      LOGIN_TIMEOUT_MS
+    );
+    const login: ActiveLogin = {
+      finish: (error) => {
+        clearTimeout(timer);
+        // Let the response to the browser go out first
+        setImmediate(() => server.close());
+        if (this.active.get(key) === login) this.active.delete(key);
+        settle(error);
+      },
+    };
+    this.active.set(key, login);
+    oauth2Tokens.trackLogin(config, done);
+    done.then(
+      () => log.info("OAuth2 login completed", { clientId: config.clientId }),
+      (error) => log.warning("OAuth2 login failed", error)
+    );
+
+    const params = authorizationUrl.searchParams;
+    params.set("response_type", "code");
+    params.set("client_id", config.clientId);
+    params.set("redirect_uri", redirectUri);
+    const scope = normalizeScopes(config.scopes);
+    if (scope) params.set("scope", scope);
+    if (config.audience) params.set("audience", config.audience);
+    params.set("state", state);
+    params.set("code_challenge", challenge);
+    params.set("code_challenge_method", "S256");
+
+    log.info(`Waiting for the OAuth2 redirect on ${redirectUri}`);
+    return {
+      authorizationUrl: authorizationUrl.toString(),
+      redirectUri,
+      expiresAt: new Date(Date.now() + LOGIN_TIMEOUT_MS).toISOString(),
+      done,
+    };
+  }
+}
+
+export const oauth2Logins = new AuthorizationCodeLogins();
@@ -0,0 +1,331 @@
+import fetch from "node-fetch";
+import type { AuthConfig } from "../types/index.js";
+import { logger } from "./logger.js";
+import { DEFAULT_TIMEOUT_MS } from "./retry-policy.js";
+import { resolveConfigReferences } from "./secret-refs.js";
+import { sessionManager } from "./session-manager.js";
+
+const log = logger.child("oauth2");
+
+// Tokens are renewed this long before they expire
+const EXPIRY_SKEW_MS = 60 * 1000;
+
+export const CLIENT_CREDENTIALS = "client_credentials";
+export const AUTHORIZATION_CODE = "authorization_code";
+
+export interface TokenResponse {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+}
+
+export interface TokenStatus {
+  cached: boolean;
+  expiresAt?: string;
+}
+
+// Config: {tokenUrl, clientId, clientSecret, scopes?, audience?}
+export function isClientCredentials(credential: AuthConfig): boolean {
+  return (
+    credential.type === "oauth2" &&
+    credential.config.grantType === CLIENT_CREDENTIALS
+  );
+}
+
+// The tokens from the login are kept in the config
+export function isAuthorizationCode(credential: AuthConfig): boolean {
+  return (
+    credential.type === "oauth2" &&
+    credential.config.grantType === AUTHORIZATION_CODE
+  );
+}
+
+export function obtainsTokens(credential: AuthConfig): boolean {
+  return isClientCredentials(credential) || isAuthorizationCode(credential);
+}
+
+// Scopes may be given space or comma separated
+export function normalizeScopes(scopes: string | undefined): string {
+  return (scopes ?? "").split(/[\s,]+/).filter(Boolean).join(" ");
+}
+
+function cacheKey(config: Record<string, string>): string {
+  return JSON.stringify([
+    config.tokenUrl,
+    config.clientId,
+    normalizeScopes(config.scopes),
+    config.audience ?? "",
+  ]);
+}
+
+export function loginKey(config: Record<string, string>): string {
+  return JSON.stringify([config.authorizationUrl, config.clientId]);
+}
+
+function isFresh(expiresAt: number | undefined): boolean {
+  return expiresAt === undefined || expiresAt - EXPIRY_SKEW_MS > Date.now();
+}
+
+function storedExpiry(config: Record<string, string>): number | undefined {
+  return config.expiresAt ? Number(config.expiresAt) : undefined;
+}
+
+// Confidential clients authenticate with HTTP Basic unless clientAuth is
+// "body"; public clients (no secret) send their client_id in the body
+export async function requestToken(
+  storedConfig: Record<string, string>,
+  params: Record<string, string>
+): Promise<TokenResponse> {
+  const config = await resolveConfigReferences(storedConfig);
+  if (!config.tokenUrl || !config.clientId) {
+    throw new Error("OAuth2 token requests need tokenUrl and clientId");
+  }
+
+  const body = new URLSearchParams(params);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (!config.clientSecret || config.clientAuth === "body") {
+    body.set("client_id", config.clientId);
+    if (config.clientSecret) body.set("client_secret", config.clientSecret);
+  } else {
+    headers["Authorization"] = `Basic ${Buffer.from(
+      `${encodeURIComponent(config.clientId)}:${encodeURIComponent(
+        config.clientSecret
+      )}`
+    ).toString("base64")}`;
+  }
+
+  log.info(`Requesting OAuth2 token from: ${config.tokenUrl}`, {
+    grantType: params.grant_type,
+    clientId: config.clientId,
+    scope: params.scope,
+  });
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS);
+  let status: number;
+  let payload: any;
+  try {
+    const response = await fetch(config.tokenUrl, {
+      method: "POST",
+      headers,
+      body: body.toString(),
+      signal: controller.signal,
+    });
+    status = response.status;
+    const text = await response.text();
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      payload = { error_description: text.slice(0, 200) };
+    }
+  } catch (error) {
+    throw new Error(
+      `OAuth2 token request to ${config.tokenUrl} failed: ${
+        controller.signal.aborted
+          ? `timed out after ${DEFAULT_TIMEOUT_MS}ms`
+          : error instanceof Error
+          ? error.message
+          : "Unknown error"
+      }`
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (status >= 400 || typeof payload?.access_token !== "string") {
+    const reason = [payload?.error, payload?.error_description]
+      .filter(Boolean)
+      .join(": ");
+    throw new Error(
+      `OAuth2 token request to ${config.tokenUrl} failed: HTTP ${status}${
+        reason ? ` - ${reason}` : " - no access_token in response"
+      }`
+    );
+  }
+
+  const expiresIn = Number(payload.expires_in);
+  log.info("Obtained OAuth2 token", {
+    tokenUrl: config.tokenUrl,
+    expiresIn: Number.isFinite(expiresIn) ? expiresIn : undefined,
+  });
+  return {
+    accessToken: payload.access_token,
+    refreshToken:
+      typeof payload.refresh_token === "string"
+        ? payload.refresh_token
+        : undefined,
+    expiresAt:
+      Number.isFinite(expiresIn) && expiresIn > 0
+        ? Date.now() + expiresIn * 1000
+        : undefined,
+  };
+}
+
+// The sessions hold these same credential objects, so saving them keeps
+// the tokens
+export function storeTokens(credential: AuthConfig, tokens: TokenResponse): void {
+  const { config } = credential;
+  config.accessToken = tokens.accessToken;
+  // Servers that do not rotate refresh tokens omit them on refresh
+  if (tokens.refreshToken) config.refreshToken = tokens.refreshToken;
+  if (tokens.expiresAt !== undefined) {
+    config.expiresAt = String(tokens.expiresAt);
+  } else {
+    delete config.expiresAt;
+  }
+  sessionManager.saveAuthConfigs();
+}
+
+// Concurrent calls share one token request
+export class OAuth2TokenManager {
+  private tokens: Map<string, TokenResponse> = new Map();
+  private pending: Map<string, Promise<TokenResponse>> = new Map();
+  private logins: Map<string, Promise<void>> = new Map();
+
+  async getAccessToken(
+    credential: AuthConfig,
+    forceRefresh: boolean = false
+  ): Promise<string> {
+    if (isAuthorizationCode(credential)) {
+      return this.getAuthorizationCodeToken(credential, forceRefresh);
+    }
+
+    const key = cacheKey(credential.config);
+    const cached = this.tokens.get(key);
+    if (cached && isFresh(cached.expiresAt) && !forceRefresh) {
+      return cached.accessToken;
+    }
+    const token = await this.shared(key, () => {
+      if (!credential.config.clientSecret) {
+        throw new Error("OAuth2 client credentials need a clientSecret");
+      }
+      const params: Record<string, string> = {
+        grant_type: CLIENT_CREDENTIALS,
+      };
+      const scope = normalizeScopes(credential.config.scopes);
+      if (scope) params.scope = scope;
+      if (credential.config.audience) {
+        params.audience = credential.config.audience;
+      }
+      return requestToken(credential.config, params);
+    });
+    this.tokens.set(key, token);
+    return token.accessToken;
+  }
+
+  private async getAuthorizationCodeToken(
+    credential: AuthConfig,
+    forceRefresh: boolean
+  ): Promise<string> {
+    const { config } = credential;
+    // call_api made right after manage_auth waits for the browser login,
+    // which is tracked by the resolved client
+    if (!config.accessToken) {
+      const login = this.logins.get(
+        loginKey(await resolveConfigReferences(config))
+      );
+      if (login) await login;
+    }
+
+    if (
+      config.accessToken &&
+      isFresh(storedExpiry(config)) &&
+      !forceRefresh
+    ) {
+      return config.accessToken;
+    }
+    if (!config.refreshToken) {
+      throw new Error(
+        config.accessToken
+          ? "OAuth2 access token expired and no refresh token was issued; run manage_auth again to log in"
+          : "OAuth2 login not completed; run manage_auth again and open the authorization URL"
+      );
+    }
+
+    const tokens = await this.shared(`refresh:${loginKey(config)}`, () =>
+      requestToken(config, {
+        grant_type: "refresh_token",
+        refresh_token: config.refreshToken,
+      })
+    );
+    storeTokens(credential, tokens);
+    return tokens.accessToken;
+  }
+
+  private shared(
+    key: string,
+    request: () => Promise<TokenResponse>
+  ): Promise<TokenResponse> {
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = Promise.resolve()
+        .then(request)
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  peekAccessToken(credential: AuthConfig): string | undefined {
+    return this.status(credential).cached
+      ? isAuthorizationCode(credential)
+        ? credential.config.accessToken
+        : this.tokens.get(cacheKey(credential.config))?.accessToken
+      : undefined;
+  }
+
+  status(credential: AuthConfig): TokenStatus {
+    const token = isAuthorizationCode(credential)
+      ? credential.config.accessToken
+        ? { expiresAt: storedExpiry(credential.config) }
+        : undefined
+      : this.tokens.get(cacheKey(credential.config));
+    if (!token || !isFresh(token.expiresAt)) return { cached: false };
+    return {
+      cached: true,
+      expiresAt:
+        token.expiresAt !== undefined
+          ? new Date(token.expiresAt).toISOString()
+          : undefined,
+    };
+  }
+
+  trackLogin(config: Record<string, string>, done: Promise<void>): void {
+    const key = loginKey(config);
+    const tracked = done
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.logins.get(key) === tracked) this.logins.delete(key);
+      });
+    this.logins.set(key, tracked);
+  }
+
+  // Without `fetch`, only tokens at hand are used
+  async withAccessTokens(
+    authConfig: AuthConfig,
+    inUse: AuthConfig[],
+    options: { fetch: boolean; forceRefresh?: boolean }
+  ): Promise<AuthConfig> {
+    const fill = async (credential: AuthConfig): Promise<AuthConfig> => {
+      if (!inUse.includes(credential) || !obtainsTokens(credential)) {
+        return credential;
+      }
+      const accessToken = options.fetch
+        ? await this.getAccessToken(credential, options.forceRefresh)
+        : this.peekAccessToken(credential) ?? "TOKEN_FETCHED_ON_SEND";
+      return { ...credential, config: { ...credential.config, accessToken } };
+    };
+
+    const resolved = await fill(authConfig);
+    if (!authConfig.schemes) return resolved;
+    const schemes: Record<string, AuthConfig> = {};
+    for (const [name, credential] of Object.entries(authConfig.schemes)) {
+      schemes[name] = await fill(credential);
+    }
+    return { ...resolved, schemes };
+  }
+}
+
+export const oauth2Tokens = new OAuth2TokenManager();
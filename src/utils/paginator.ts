@@ -0,0 +1,374 @@
+import type {
+  ApiCallResult,
+  AuthConfig,
+  OperationInfo,
+  PaginationOptions,
+  PaginationSummary,
+  RequestOptions,
+} from "../types/index.js";
+import type { ApiHttpClient } from "./http-client.js";
+
+export const DEFAULT_MAX_PAGES = 10;
+
+const ITEM_FIELDS = [
+  "data",
+  "items",
+  "results",
+  "records",
+  "entries",
+  "values",
+  "content",
+  "list",
+];
+const CONTAINER_FIELDS = ["meta", "pagination", "paging", "page_info", "pageInfo", "links", "_links"];
+const NEXT_FIELDS = [
+  "next",
+  "next_url",
+  "nextUrl",
+  "next_cursor",
+  "nextCursor",
+  "next_page_token",
+  "nextPageToken",
+  "next_token",
+  "nextToken",
+  "cursor",
+  "endCursor",
+  "continuation",
+  "continuationToken",
+];
+const CURSOR_PARAMS = [
+  "cursor",
+  "page_token",
+  "pageToken",
+  "next_token",
+  "nextToken",
+  "continuation",
+  "continuationToken",
+  "after",
+  "starting_after",
+  "token",
+];
+const OFFSET_PARAMS = ["offset", "skip", "start"];
+const PAGE_PARAMS = ["page", "page_number", "pageNumber"];
+const LIMIT_PARAMS = ["limit", "per_page", "perPage", "page_size", "pageSize", "size", "count", "top"];
+
+type Strategy = PaginationSummary["strategy"];
+
+// Maps snake_case tool input onto PaginationOptions
+export function paginationOptionsFromParams(params: {
+  mode?: PaginationOptions["mode"];
+  max_pages?: number;
+  max_items?: number;
+  items_path?: string;
+  cursor_path?: string;
+  cursor_param?: string;
+}): PaginationOptions {
+  return {
+    mode: params.mode,
+    maxPages: params.max_pages,
+    maxItems: params.max_items,
+    itemsPath: params.items_path,
+    cursorPath: params.cursor_path,
+    cursorParam: params.cursor_param,
+  };
+}
+
+export function getByPath(value: any, path: string): any {
+  return path
+    .split(".")
+    .filter(Boolean)
+    .reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+function findItems(data: any, itemsPath?: string): any[] | undefined {
+  if (itemsPath) {
+    const items = getByPath(data, itemsPath);
+    return Array.isArray(items) ? items : undefined;
+  }
+  if (Array.isArray(data)) return data;
+  if (!data || typeof data !== "object") return undefined;
+
+  for (const field of ITEM_FIELDS) {
+    if (Array.isArray(data[field])) return data[field];
+    if (data[field] && typeof data[field] === "object") {
+      const nested = findItems(data[field]);
+      if (nested) return nested;
+    }
+  }
+  const firstArray = Object.values(data).find((value) => Array.isArray(value));
+  return firstArray as any[] | undefined;
+}
+
+function findParam(operation: OperationInfo, names: string[]): string | undefined {
+  const queryParams = (operation.parameters ?? []).filter(
+    (param) => param.in === "query"
+  );
+  for (const name of names) {
+    const match = queryParams.find(
+      (param) => param.name.toLowerCase() === name.toLowerCase()
+    );
+    if (match) return match.name;
+  }
+  return undefined;
+}
+
+// Parses `Link: <url>; rel="next", <url>; rel="last"`
+function parseNextLink(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+  for (const part of header.split(/,(?=\s*<)/)) {
+    const match = part.match(/<([^>]+)>\s*;(.*)/);
+    if (match && /rel\s*=\s*"?([^";]*\s)?next(\s[^";]*)?"?/i.test(match[2])) {
+      return match[1].trim();
+    }
+  }
+  return undefined;
+}
+
+function findNextValue(data: any, cursorPath?: string): any {
+  if (cursorPath) return getByPath(data, cursorPath);
+  if (!data || typeof data !== "object" || Array.isArray(data)) return undefined;
+
+  for (const container of [data, ...CONTAINER_FIELDS.map((field) => data[field])]) {
+    if (!container || typeof container !== "object") continue;
+    for (const field of NEXT_FIELDS) {
+      const value = container[field];
+      if (typeof value === "string" && value) return value;
+      // HAL / JSON:API style `{ next: { href } }`
+      if (value && typeof value === "object" && typeof value.href === "string") {
+        return value.href;
+      }
+    }
+  }
+  return undefined;
+}
+
+function isUrlLike(value: string): boolean {
+  return /^https?:\/\//i.test(value) || value.startsWith("/");
+}
+
+function hasMore(data: any): boolean | undefined {
+  if (!data || typeof data !== "object") return undefined;
+  for (const container of [data, ...CONTAINER_FIELDS.map((field) => data[field])]) {
+    if (!container || typeof container !== "object") continue;
+    for (const field of ["has_more", "hasMore", "hasNextPage", "has_next"]) {
+      if (typeof container[field] === "boolean") return container[field];
+    }
+  }
+  return undefined;
+}
+
+function findTotalPages(data: any): number | undefined {
+  if (!data || typeof data !== "object") return undefined;
+  for (const container of [data, ...CONTAINER_FIELDS.map((field) => data[field])]) {
+    if (!container || typeof container !== "object") continue;
+    for (const field of ["total_pages", "totalPages", "last_page", "lastPage", "page_count", "pageCount"]) {
+      if (typeof container[field] === "number") return container[field];
+    }
+  }
+  return undefined;
+}
+
+interface NextPage {
+  strategy: Strategy;
+  url?: string;
+  parameters?: Record<string, any>;
+}
+
+function resolveNextPage(
+  mode: PaginationOptions["mode"],
+  operation: OperationInfo,
+  result: ApiCallResult,
+  items: any[],
+  parameters: Record<string, any>,
+  pageUrl: string | undefined,
+  options: PaginationOptions
+): NextPage | { stop: string } {
+  const tryLink = mode === "auto" || mode === "link";
+  const tryCursor = mode === "auto" || mode === "cursor";
+  const tryOffset = mode === "auto" || mode === "offset";
+  const tryPage = mode === "auto" || mode === "page";
+
+  if (tryLink) {
+    const next = parseNextLink(result.headers?.["link"]);
+    if (next) {
+      return { strategy: "link", url: new URL(next, pageUrl).toString() };
+    }
+    if (mode === "link") return { stop: "no Link rel=\"next\" header" };
+  }
+
+  if (items.length === 0) return { stop: "empty page" };
+
+  if (tryCursor) {
+    const next = findNextValue(result.data, options.cursorPath);
+    if (typeof next === "string" && next) {
+      if (isUrlLike(next)) {
+        return { strategy: "cursor", url: new URL(next, pageUrl).toString() };
+      }
+      const cursorParam =
+        options.cursorParam ?? findParam(operation, CURSOR_PARAMS);
+      if (cursorParam) {
+        return {
+          strategy: "cursor",
+          parameters: { ...parameters, [cursorParam]: next },
+        };
+      }
+      if (mode === "cursor") {
+        return { stop: "found a cursor but no query parameter to send it in" };
+      }
+    }
+
+    // Stripe style: `has_more` plus the last item's id in `starting_after`
+    const startingAfter = findParam(operation, ["starting_after"]);
+    if (hasMore(result.data) === true && startingAfter) {
+      const lastId = items[items.length - 1]?.id;
+      if (lastId !== undefined) {
+        return {
+          strategy: "cursor",
+          parameters: { ...parameters, [startingAfter]: lastId },
+        };
+      }
+    }
+    if (hasMore(result.data) === false) return { stop: "no more results" };
+    if (mode === "cursor") return { stop: "no next cursor in response" };
+  }
+
+  const limitParam = findParam(operation, LIMIT_PARAMS);
+  const limit =
+    limitParam !== undefined && parameters[limitParam] !== undefined
+      ? Number(parameters[limitParam])
+      : undefined;
+  if (limit !== undefined && items.length < limit) {
+    return { stop: "last page was not full" };
+  }
+
+  if (tryOffset) {
+    const offsetParam = findParam(operation, OFFSET_PARAMS);
+    if (offsetParam) {
+      const current = Number(parameters[offsetParam] ?? 0);
+      return {
+        strategy: "offset",
+        parameters: { ...parameters, [offsetParam]: current + items.length },
+      };
+    }
+    if (mode === "offset") return { stop: "operation has no offset parameter" };
+  }
+
+  if (tryPage) {
+    const pageParam = findParam(operation, PAGE_PARAMS);
+    if (pageParam) {
+      const current = Number(parameters[pageParam] ?? 1);
+      const totalPages = findTotalPages(result.data);
+      if (totalPages !== undefined && current >= totalPages) {
+        return { stop: "reached the last page" };
+      }
+      return {
+        strategy: "page",
+        parameters: { ...parameters, [pageParam]: current + 1 },
+      };
+    }
+    if (mode === "page") return { stop: "operation has no page parameter" };
+  }
+
+  return { stop: "no pagination pattern detected" };
+}
+
+export async function fetchAllPages(
+  httpClient: ApiHttpClient,
+  baseUrl: string,
+  operation: OperationInfo,
+  parameters: Record<string, any> = {},
+  authConfig: AuthConfig | undefined,
+  requestOptions: RequestOptions,
+  options: PaginationOptions
+): Promise<ApiCallResult> {
+  const startTime = Date.now();
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const mode = options.mode ?? "auto";
+
+  const items: any[] = [];
+  let itemsFound = false;
+  const seen = new Set<string>();
+  let pageParameters = { ...parameters };
+  let pageUrl: string | undefined;
+  let strategy: Strategy = "none";
+  let pages = 0;
+  let stopReason = `reached max_pages (${maxPages})`;
+  let lastResult: ApiCallResult | undefined;
+
+  while (pages < maxPages) {
+    const result = await httpClient.callOperation(
+      baseUrl,
+      operation,
+      pageParameters,
+      authConfig,
+      { ...requestOptions, urlOverride: pageUrl }
+    );
+    lastResult = result;
+    pages++;
+
+    if (!result.success) {
+      stopReason = `page ${pages} failed: ${result.error}`;
+      break;
+    }
+
+    const pageItems = findItems(result.data, options.itemsPath);
+    if (!pageItems) {
+      stopReason =
+        pages === 1
+          ? "could not find an items array in the response (set items_path)"
+          : `could not find items on page ${pages}`;
+      break;
+    }
+    itemsFound = true;
+    items.push(...pageItems);
+
+    if (options.maxItems !== undefined && items.length >= options.maxItems) {
+      stopReason = `reached max_items (${options.maxItems})`;
+      break;
+    }
+
+    // Keep following the pattern detected on the first page
+    const next = resolveNextPage(
+      strategy === "none" ? mode : strategy,
+      operation,
+      result,
+      pageItems,
+      pageParameters,
+      pageUrl ?? result.url,
+      options
+    );
+    if ("stop" in next) {
+      stopReason = next.stop;
+      break;
+    }
+
+    const key = next.url ?? JSON.stringify(next.parameters);
+    if (seen.has(key)) {
+      stopReason = "next page repeats a previous page";
+      break;
+    }
+    seen.add(key);
+    strategy = next.strategy;
+    pageUrl = next.url;
+    if (next.parameters) pageParameters = next.parameters;
+  }
+
+  const truncated =
+    options.maxItems !== undefined && items.length > options.maxItems;
+  const merged = truncated ? items.slice(0, options.maxItems) : items;
+
+  return {
+    ...lastResult,
+    success: lastResult?.success ?? false,
+    // Without an items array there is nothing to merge; show the raw page
+    data: itemsFound ? merged : lastResult?.data,
+    executionTime: Date.now() - startTime,
+    pagination: {
+      strategy,
+      pages,
+      items: merged.length,
+      truncated,
+      stopReason,
+    },
+  };
+}
@@ -0,0 +1,212 @@
+import type { ParameterInfo } from "../types/index.js";
+
+// Serialization of path, query, header and cookie parameters following the
+// OpenAPI `style` / `explode` / `allowReserved` rules
+
+const DELIMITERS: Record<string, string> = {
+  spaceDelimited: "%20",
+  pipeDelimited: "|",
+  tabDelimited: "%09",
+};
+
+function defaultStyle(location: ParameterInfo["in"]): string {
+  return location === "query" || location === "cookie" ? "form" : "simple";
+}
+
+export function parameterStyle(param: ParameterInfo): string {
+  return param.style || defaultStyle(param.in);
+}
+
+export function parameterExplode(param: ParameterInfo): boolean {
+  return param.explode ?? parameterStyle(param) === "form";
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function primitiveString(value: any): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+const RESERVED_CHARACTERS = /%(3A|2F|3F|23|5B|5D|40|21|24|26|27|28|29|2A|2B|2C|3B|3D)/gi;
+
+function encode(value: any, allowReserved = false): string {
+  const encoded = encodeURIComponent(primitiveString(value));
+  return allowReserved
+    ? encoded.replace(RESERVED_CHARACTERS, (match) =>
+        decodeURIComponent(match)
+      )
+    : encoded;
+}
+
+// Parameters declared with `content` instead of `schema` are sent as a
+// serialized document, usually JSON
+function contentValue(param: ParameterInfo, value: any): any {
+  if (!param.contentType || typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+export function serializePathParameter(
+  param: ParameterInfo,
+  rawValue: any
+): string {
+  const value = contentValue(param, rawValue);
+  const style = parameterStyle(param);
+  const explode = parameterExplode(param);
+  const name = param.name;
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => encode(item));
+    switch (style) {
+      case "label":
+        return `.${items.join(explode ? "." : ",")}`;
+      case "matrix":
+        return explode
+          ? items.map((item) => `;${name}=${item}`).join("")
+          : `;${name}=${items.join(",")}`;
+      default:
+        return items.join(",");
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    const pairs = entries.map(([k, v]) =>
+      explode ? `${encode(k)}=${encode(v)}` : `${encode(k)},${encode(v)}`
+    );
+    switch (style) {
+      case "label":
+        return `.${pairs.join(explode ? "." : ",")}`;
+      case "matrix":
+        return explode
+          ? pairs.map((pair) => `;${pair}`).join("")
+          : `;${name}=${pairs.join(",")}`;
+      default:
+        return pairs.join(",");
+    }
+  }
+
+  switch (style) {
+    case "label":
+      return `.${encode(value)}`;
+    case "matrix":
+      return `;${name}=${encode(value)}`;
+    default:
+      return encode(value);
+  }
+}
+
+function flattenDeepObject(
+  prefix: string,
+  value: any,
+  allowReserved: boolean,
+  out: string[]
+): void {
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      if (child === undefined) continue;
+      flattenDeepObject(`${prefix}[${key}]`, child, allowReserved, out);
+    }
+  } else if (Array.isArray(value)) {
+    for (const item of value) {
+      flattenDeepObject(prefix, item, allowReserved, out);
+    }
+  } else {
+    const key = encode(prefix).replace(/%5B/g, "[").replace(/%5D/g, "]");
+    out.push(`${key}=${encode(value, allowReserved)}`);
+  }
+}
+
+// Returns encoded `name=value` pairs ready to be joined with `&`
+export function serializeQueryParameter(
+  param: ParameterInfo,
+  rawValue: any
+): string[] {
+  const value = contentValue(param, rawValue);
+  const style = parameterStyle(param);
+  const explode = parameterExplode(param);
+  const allowReserved = param.allowReserved ?? false;
+  const name = encode(param.name);
+
+  if (style === "deepObject" && isPlainObject(value)) {
+    const pairs: string[] = [];
+    flattenDeepObject(param.name, value, allowReserved, pairs);
+    return pairs;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => encode(item, allowReserved));
+    if (explode) {
+      return items.map((item) => `${name}=${item}`);
+    }
+    return [`${name}=${items.join(DELIMITERS[style] ?? ",")}`];
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (explode) {
+      return entries.map(
+        ([k, v]) => `${encode(k)}=${encode(v, allowReserved)}`
+      );
+    }
+    const delimiter = DELIMITERS[style] ?? ",";
+    return [
+      `${name}=${entries
+        .map(([k, v]) => `${encode(k)}${delimiter}${encode(v, allowReserved)}`)
+        .join(delimiter)}`,
+    ];
+  }
+
+  return [`${name}=${encode(value, allowReserved)}`];
+}
+
+export function serializeHeaderParameter(
+  param: ParameterInfo,
+  rawValue: any
+): string {
+  const value = contentValue(param, rawValue);
+  const explode = parameterExplode(param);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => primitiveString(item)).join(",");
+  }
+
+  if (isPlainObject(value)) {
+    return Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) =>
+        explode ? `${k}=${primitiveString(v)}` : `${k},${primitiveString(v)}`
+      )
+      .join(",");
+  }
+
+  return primitiveString(value);
+}
+
+// Returns `name=value` pairs ready to be joined with `; `
+export function serializeCookieParameter(
+  param: ParameterInfo,
+  rawValue: any
+): string[] {
+  const value = contentValue(param, rawValue);
+  const explode = parameterExplode(param);
+  const name = param.name;
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => encode(item));
+    return explode
+      ? items.map((item) => `${name}=${item}`)
+      : [`${name}=${items.join(",")}`];
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    return explode
+      ? entries.map(([k, v]) => `${k}=${encode(v)}`)
+      : [`${name}=${entries.map(([k, v]) => `${k},${encode(v)}`).join(",")}`];
+  }
+
+  return [`${name}=${encode(value)}`];
+}
@@ -0,0 +1,336 @@
+import * as fs from "fs/promises";
+import { blobFrom, Blob, File, FormData } from "node-fetch";
+import * as path from "path";
+import type {
+  MediaTypeInfo,
+  PreparedRequestPart,
+  RequestBodyInfo,
+} from "../types/index.js";
+import { mimeTypeFromPath } from "./mime-types.js";
+
+export type SerializedBody = string | URLSearchParams | FormData;
+
+// Local paths of uploaded files, so prepared requests can point back to them
+const fileSources = new WeakMap<Blob, string>();
+
+function baseMediaType(contentType: string): string {
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+export function isJsonContentType(contentType: string): boolean {
+  const base = baseMediaType(contentType);
+  return base === "application/json" || base.endsWith("+json");
+}
+
+export function isMultipartContentType(contentType: string): boolean {
+  return baseMediaType(contentType) === "multipart/form-data";
+}
+
+export function isUrlEncodedContentType(contentType: string): boolean {
+  return baseMediaType(contentType) === "application/x-www-form-urlencoded";
+}
+
+export function isXmlContentType(contentType: string): boolean {
+  const base = baseMediaType(contentType);
+  return (
+    base === "application/xml" || base === "text/xml" || base.endsWith("+xml")
+  );
+}
+
+export function isFormContentType(contentType: string): boolean {
+  return (
+    isMultipartContentType(contentType) || isUrlEncodedContentType(contentType)
+  );
+}
+
+export function preferredContentType(contentTypes: string[]): string {
+  return (
+    contentTypes.find((type) => isJsonContentType(type)) ||
+    contentTypes[0] ||
+    "application/json"
+  );
+}
+
+function mediaRangeMatches(range: string, contentType: string): boolean {
+  const [rangeType, rangeSubtype] = baseMediaType(range).split("/");
+  const [type, subtype] = baseMediaType(contentType).split("/");
+  return (
+    (rangeType === "*" || rangeType === type) &&
+    (rangeSubtype === "*" || rangeSubtype === subtype)
+  );
+}
+
+// Honors wildcard ranges such as \`text/*\` or \`*/*\` declared in the spec
+export function resolveRequestContentType(
+  requestBody: RequestBodyInfo,
+  requested?: string
+): { contentType: string; media: MediaTypeInfo } | undefined {
+  if (!requested) {
+    return {
+      contentType: requestBody.contentType,
+      media: requestBody.content[requestBody.contentType] ?? {
+        schema: requestBody.schema,
+      },
+    };
+  }
+
+  const declared = matchMediaType(
+    Object.keys(requestBody.content),
+    requested
+  );
+  return declared
+    ? { contentType: requested, media: requestBody.content[declared] }
+    : undefined;
+}
+
+export function matchMediaType(
+  declared: string[],
+  contentType: string
+): string | undefined {
+  return (
+    declared.find(
+      (type) => baseMediaType(type) === baseMediaType(contentType)
+    ) ?? declared.find((type) => mediaRangeMatches(type, contentType))
+  );
+}
+
+// From \`body\`, \`body_*\` keys, or (for form encodings) top-level keys named
+// after the body schema's properties
+export function extractBodyData(
+  requestBody: RequestBodyInfo,
+  parameters: Record<string, any> = {},
+  contentType: string = requestBody.contentType
+): any {
+  if (parameters.body !== undefined) {
+    return parameters.body;
+  }
+
+  const bodyData: Record<string, any> = {};
+  for (const [key, value] of Object.entries(parameters)) {
+    if (key.startsWith("body_")) {
+      bodyData[key.substring(5)] = value;
+    }
+  }
+
+  if (isFormContentType(contentType)) {
+    const schema =
+      requestBody.content[contentType]?.schema ?? requestBody.schema;
+    for (const name of Object.keys(schema?.properties ?? {})) {
+      if (parameters[name] !== undefined && bodyData[name] === undefined) {
+        bodyData[name] = parameters[name];
+      }
+    }
+  }
+
+  return Object.keys(bodyData).length > 0 ? bodyData : undefined;
+}
+
+function formFieldValue(value: any): string {
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// A multipart file part: either a plain local path or an object that also
+// overrides the file name and part content type
+export interface FileReference {
+  path: string;
+  filename?: string;
+  contentType?: string;
+}
+
+function isFileReference(value: any): value is FileReference {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    typeof value.path === "string"
+  );
+}
+
+function isBinarySchema(schema: any): boolean {
+  if (!schema || schema.type === "array") return false;
+  return (
+    schema.format === "binary" ||
+    (schema.contentMediaType !== undefined &&
+      schema.contentEncoding === undefined)
+  );
+}
+
+function encodingContentType(contentType?: string): string | undefined {
+  const first = contentType?.split(",")[0].trim();
+  return first && !first.includes("*") ? first : undefined;
+}
+
+async function loadFilePart(
+  reference: string | FileReference,
+  partContentType?: string
+): Promise<File> {
+  const ref = typeof reference === "string" ? { path: reference } : reference;
+  const resolved = path.resolve(process.cwd(), ref.path);
+  try {
+    await fs.access(resolved);
+  } catch {
+    throw new Error(`File not found for multipart upload: ${resolved}`);
+  }
+  const type =
+    ref.contentType || partContentType || mimeTypeFromPath(resolved);
+  const file = new File(
+    [await blobFrom(resolved)],
+    ref.filename || path.basename(resolved),
+    { type }
+  );
+  fileSources.set(file, resolved);
+  return file;
+}
+
+async function buildMultipartBody(
+  data: any,
+  media: MediaTypeInfo
+): Promise<FormData> {
+  const form = new FormData();
+  const properties = media.schema?.properties ?? {};
+
+  for (const [key, value] of Object.entries(data ?? {})) {
+    const propertySchema = properties[key];
+    const items = Array.isArray(value) ? value : [value];
+    const itemSchema = Array.isArray(value)
+      ? propertySchema?.items
+      : propertySchema;
+    const partContentType = encodingContentType(
+      media.encoding?.[key]?.contentType
+    );
+
+    for (const item of items) {
+      if (item === undefined || item === null) continue;
+
+      if (
+        isFileReference(item) ||
+        (typeof item === "string" && isBinarySchema(itemSchema))
+      ) {
+        form.append(key, await loadFilePart(item, partContentType));
+      } else if (partContentType && partContentType !== "text/plain") {
+        const payload =
+          typeof item === "object" ? JSON.stringify(item) : String(item);
+        form.append(key, new Blob([payload], { type: partContentType }));
+      } else {
+        form.append(key, formFieldValue(item));
+      }
+    }
+  }
+
+  return form;
+}
+
+export async function serializeRequestBody(
+  data: any,
+  contentType: string,
+  media: MediaTypeInfo = {}
+): Promise<SerializedBody> {
+  if (isMultipartContentType(contentType)) {
+    return buildMultipartBody(data, media);
+  }
+
+  if (isUrlEncodedContentType(contentType)) {
+    if (typeof data === "string") return data;
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(data ?? {})) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item === undefined || item === null) continue;
+        search.append(key, formFieldValue(item));
+      }
+    }
+    return search;
+  }
+
+  if (isXmlContentType(contentType)) {
+    if (typeof data === "string") return data;
+    const rootName = media.schema?.xml?.name || media.schema?.title || "root";
+    return `<?xml version="1.0" encoding="UTF-8"?>${toXml(
+      data ?? {},
+      rootName,
+      media.schema
+    )}`;
+  }
+
+  if (baseMediaType(contentType).startsWith("text/")) {
+    if (typeof data === "string") return data;
+    return typeof data === "object" ? JSON.stringify(data) : String(data);
+  }
+
+  return JSON.stringify(data ?? {});
+}
+
+// Multipart boundaries are only chosen when sending
+export async function describeSerializedBody(body: SerializedBody): Promise<{
+  body?: string;
+  multipart?: PreparedRequestPart[];
+}> {
+  if (!(body instanceof FormData)) {
+    return { body: body.toString() };
+  }
+
+  const parts: PreparedRequestPart[] = [];
+  for (const [name, value] of body.entries()) {
+    if (typeof value === "string") {
+      parts.push({ name, value });
+      continue;
+    }
+    const part: PreparedRequestPart = {
+      name,
+      contentType: value.type || undefined,
+      size: value.size,
+    };
+    const source = fileSources.get(value);
+    if (source) {
+      part.filename = value.name;
+      part.path = source;
+    } else {
+      // Typed non-file parts, e.g. JSON metadata with an encoding
+      part.value = await value.text();
+    }
+    parts.push(part);
+  }
+  return { multipart: parts };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Minimal JSON-to-XML conversion honoring the OpenAPI `xml` object
+// (name, attribute, wrapped)
+function toXml(value: any, name: string, schema?: any): string {
+  if (value === undefined || value === null) {
+    return `<${name}/>`;
+  }
+
+  if (Array.isArray(value)) {
+    const itemName = schema?.items?.xml?.name || name;
+    const items = value
+      .map((item) => toXml(item, itemName, schema?.items))
+      .join("");
+    return schema?.xml?.wrapped ? `<${name}>${items}</${name}>` : items;
+  }
+
+  if (typeof value === "object") {
+    const attributes: string[] = [];
+    const children: string[] = [];
+    for (const [key, child] of Object.entries(value)) {
+      const childSchema = schema?.properties?.[key];
+      const childName = childSchema?.xml?.name || key;
+      if (childSchema?.xml?.attribute) {
+        attributes.push(`${childName}="${escapeXml(String(child))}"`);
+      } else {
+        children.push(toXml(child, childName, childSchema));
+      }
+    }
+    const attrs = attributes.length > 0 ? ` ${attributes.join(" ")}` : "";
+    return `<${name}${attrs}>${children.join("")}</${name}>`;
+  }
+
+  return `<${name}>${escapeXml(String(value))}</${name}>`;
+}
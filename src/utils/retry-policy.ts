@@ -0,0 +1,107 @@
+import type { RetryPolicy } from "../types/index.js";
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  retryOnStatus: [408, 425, 429, 500, 502, 503, 504],
+  retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE", "TRACE"];
+
+// Later policies override earlier ones field by field
+export function resolveRetryPolicy(
+  ...policies: (Partial<RetryPolicy> | undefined)[]
+): RetryPolicy {
+  let resolved = { ...DEFAULT_RETRY_POLICY };
+  for (const policy of policies) {
+    if (!policy) continue;
+    resolved = {
+      maxAttempts: policy.maxAttempts ?? resolved.maxAttempts,
+      baseDelayMs: policy.baseDelayMs ?? resolved.baseDelayMs,
+      maxDelayMs: policy.maxDelayMs ?? resolved.maxDelayMs,
+      retryOnStatus: policy.retryOnStatus ?? resolved.retryOnStatus,
+      retryNonIdempotent:
+        policy.retryNonIdempotent ?? resolved.retryNonIdempotent,
+    };
+  }
+  return resolved;
+}
+
+// Maps snake_case tool input onto a partial RetryPolicy
+export function retryPolicyFromParams(
+  params?: {
+    max_attempts?: number;
+    base_delay_ms?: number;
+    max_delay_ms?: number;
+    retry_on_status?: number[];
+    retry_non_idempotent?: boolean;
+  }
+): Partial<RetryPolicy> | undefined {
+  if (!params) return undefined;
+  const policy: Partial<RetryPolicy> = {};
+  if (params.max_attempts !== undefined)
+    policy.maxAttempts = params.max_attempts;
+  if (params.base_delay_ms !== undefined)
+    policy.baseDelayMs = params.base_delay_ms;
+  if (params.max_delay_ms !== undefined)
+    policy.maxDelayMs = params.max_delay_ms;
+  if (params.retry_on_status !== undefined)
+    policy.retryOnStatus = params.retry_on_status;
+  if (params.retry_non_idempotent !== undefined)
+    policy.retryNonIdempotent = params.retry_non_idempotent;
+  return policy;
+}
+
+export function maxAttemptsFor(policy: RetryPolicy, method: string): number {
+  const retryable =
+    policy.retryNonIdempotent ||
+    IDEMPOTENT_METHODS.includes(method.toUpperCase());
+  return retryable ? policy.maxAttempts : 1;
+}
+
+// Returns milliseconds to wait, or undefined when Retry-After is absent
+// or unparseable. Accepts both delta-seconds and HTTP-date forms.
+export function parseRetryAfter(
+  value: string | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number.parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+// Decides whether a failed attempt should be retried and how long to wait.
+// Returns undefined when the attempt must not be retried.
+export function retryDelayMs(
+  policy: RetryPolicy,
+  attempt: number,
+  outcome: { statusCode?: number; retryAfter?: string }
+): number | undefined {
+  if (
+    outcome.statusCode !== undefined &&
+    !policy.retryOnStatus.includes(outcome.statusCode)
+  ) {
+    return undefined;
+  }
+
+  const retryAfter = parseRetryAfter(outcome.retryAfter);
+  if (retryAfter !== undefined) {
+    // Waiting longer than the policy allows would block the tool call
+    return retryAfter <= policy.maxDelayMs ? retryAfter : undefined;
+  }
+
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(Math.random() * ceiling);
+}
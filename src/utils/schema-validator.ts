@@ -0,0 +1,497 @@
+import AjvModule, { type ErrorObject, type ValidateFunction } from "ajv";
+import Ajv2020Module from "ajv/dist/2020.js";
+import addFormatsModule from "ajv-formats";
+import type {
+  ApiCallResult,
+  ContractReport,
+  OperationInfo,
+  ValidationIssue,
+} from "../types/index.js";
+import { logger } from "./logger.js";
+import {
+  extractBodyData,
+  isFormContentType,
+  isJsonContentType,
+  isMultipartContentType,
+  matchMediaType,
+  resolveRequestContentType,
+} from "./request-body.js";
+
+const log = logger.child("schema-validator");
+
+// ajv and ajv-formats are CommonJS modules exposing their main export as
+// `default`
+const Ajv = AjvModule.default;
+const Ajv2020 = Ajv2020Module.default;
+const addFormats = addFormatsModule.default;
+
+type AjvInstance = InstanceType<typeof Ajv>;
+
+export type SchemaDialect = "openapi-3.0" | "openapi-3.1";
+
+export interface SchemaValidationOptions {
+  dialect: SchemaDialect;
+  // "request" ignores required readOnly properties, "response" ignores
+  // required writeOnly properties
+  direction: "request" | "response";
+  // Accept strings for numbers/booleans, as query strings and form
+  // fields carry them
+  coerceTypes?: boolean;
+  // Accept anything for `format: binary` (multipart file fields are
+  // given as local paths or file references)
+  binaryAsAny?: boolean;
+}
+
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+
+// OpenAPI 3.1 documents use JSON Schema 2020-12; Swagger 2.0 and OpenAPI
+// 3.0 use the draft-04 based "schema object" handled by conversion
+export function schemaDialect(specVersion: string | undefined): SchemaDialect {
+  return specVersion?.startsWith("3.1") ? "openapi-3.1" : "openapi-3.0";
+}
+
+function addOpenApiFormats(ajv: AjvInstance): void {
+  addFormats(ajv);
+  ajv.addFormat("int32", {
+    type: "number",
+    validate: (value: number) =>
+      Number.isInteger(value) && value >= INT32_MIN && value <= INT32_MAX,
+  });
+  ajv.addFormat("int64", {
+    type: "number",
+    validate: (value: number) => Number.isInteger(value),
+  });
+  ajv.addFormat("float", { type: "number", validate: () => true });
+  ajv.addFormat("double", { type: "number", validate: () => true });
+  ajv.addFormat("byte", /^[A-Za-z0-9+/]*={0,2}$/);
+  ajv.addFormat("binary", true);
+  ajv.addFormat("password", true);
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Turns an OpenAPI schema object into plain JSON Schema. Dereferenced specs
+// can be cyclic, so recursive references are replaced by an empty schema.
+function toJsonSchema(
+  schema: any,
+  options: SchemaValidationOptions,
+  ancestors: Set<object> = new Set()
+): any {
+  if (typeof schema === "boolean") return schema;
+  if (!isObject(schema)) return {};
+  if (ancestors.has(schema)) return {};
+  if (options.binaryAsAny && schema.format === "binary") return {};
+
+  ancestors.add(schema);
+  const converted: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "$schema" || key === "$id" || key.startsWith("x-")) continue;
+    switch (key) {
+      case "properties":
+      case "patternProperties":
+      case "$defs":
+      case "definitions":
+        converted[key] = Object.fromEntries(
+          Object.entries(value ?? {}).map(([name, child]) => [
+            name,
+            toJsonSchema(child, options, ancestors),
+          ])
+        );
+        break;
+      case "items":
+      case "prefixItems":
+      case "allOf":
+      case "anyOf":
+      case "oneOf":
+        converted[key] = Array.isArray(value)
+          ? value.map((child) => toJsonSchema(child, options, ancestors))
+          : toJsonSchema(value, options, ancestors);
+        break;
+      case "additionalProperties":
+      case "not":
+      case "contains":
+      case "propertyNames":
+      case "if":
+      case "then":
+      case "else":
+        converted[key] = toJsonSchema(value, options, ancestors);
+        break;
+      default:
+        converted[key] = value;
+    }
+  }
+  ancestors.delete(schema);
+
+  // Properties the other side of the exchange never sees cannot be required
+  const hidden = options.direction === "request" ? "readOnly" : "writeOnly";
+  if (Array.isArray(converted.required)) {
+    const branches = schemaBranches(schema);
+    converted.required = converted.required.filter(
+      (name: string) =>
+        !branches.some((branch) => branch.properties?.[name]?.[hidden])
+    );
+    if (converted.required.length === 0) delete converted.required;
+  }
+
+  if (options.dialect === "openapi-3.0") {
+    // Draft-04 style boolean exclusive bounds
+    for (const [exclusive, bound] of [
+      ["exclusiveMinimum", "minimum"],
+      ["exclusiveMaximum", "maximum"],
+    ]) {
+      if (typeof converted[exclusive] === "boolean") {
+        if (converted[exclusive] && converted[bound] !== undefined) {
+          converted[exclusive] = converted[bound];
+          delete converted[bound];
+        } else {
+          delete converted[exclusive];
+        }
+      }
+    }
+
+    if (converted.nullable === true || schema["x-nullable"] === true) {
+      delete converted.nullable;
+      if (Array.isArray(converted.enum) && !converted.enum.includes(null)) {
+        converted.enum = [...converted.enum, null];
+      }
+      if (typeof converted.type === "string") {
+        converted.type = [converted.type, "null"];
+      } else if (converted.type === undefined) {
+        return { anyOf: [converted, { type: "null" }] };
+      }
+    } else {
+      delete converted.nullable;
+    }
+  }
+
+  return converted;
+}
+
+function readablePath(root: string, pointer: string): string {
+  let result = root;
+  for (const segment of pointer.split("/").slice(1)) {
+    const key = segment.replace(/~1/g, "/").replace(/~0/g, "~");
+    result += /^\d+$/.test(key) ? `[${key}]` : result ? `.${key}` : key;
+  }
+  return result;
+}
+
+function describeError(error: ErrorObject, root: string): ValidationIssue {
+  const path = readablePath(root, error.instancePath);
+  const params = error.params as Record<string, any>;
+  switch (error.keyword) {
+    case "required":
+      return {
+        path: path ? `${path}.${params.missingProperty}` : params.missingProperty,
+        message: "is required",
+      };
+    case "additionalProperties":
+      return {
+        path: path
+          ? `${path}.${params.additionalProperty}`
+          : params.additionalProperty,
+        message: "is not allowed (additionalProperties: false)",
+      };
+    case "enum":
+      return {
+        path,
+        message: `must be one of: ${params.allowedValues
+          .map((value: any) => JSON.stringify(value))
+          .join(", ")}`,
+      };
+    default:
+      return { path, message: error.message ?? "is invalid" };
+  }
+}
+
+class SchemaValidator {
+  private instances = new Map<string, AjvInstance>();
+  private compiled = new Map<string, WeakMap<object, ValidateFunction>>();
+
+  private getAjv(options: SchemaValidationOptions): AjvInstance {
+    const key = `${options.dialect}:${options.coerceTypes ? "coerce" : "strict"}`;
+    let ajv = this.instances.get(key);
+    if (!ajv) {
+      const AjvClass = options.dialect === "openapi-3.1" ? Ajv2020 : Ajv;
+      ajv = new AjvClass({
+        allErrors: true,
+        strict: false,
+        logger: false,
+        coerceTypes: options.coerceTypes ? "array" : false,
+      });
+      addOpenApiFormats(ajv);
+      this.instances.set(key, ajv);
+    }
+    return ajv;
+  }
+
+  private getValidator(
+    schema: object,
+    options: SchemaValidationOptions
+  ): ValidateFunction | undefined {
+    const key = [
+      options.dialect,
+      options.direction,
+      options.coerceTypes ? "coerce" : "strict",
+      options.binaryAsAny ? "binary" : "",
+    ].join(":");
+    let cache = this.compiled.get(key);
+    if (!cache) {
+      cache = new WeakMap();
+      this.compiled.set(key, cache);
+    }
+    let validate = cache.get(schema);
+    if (!validate) {
+      try {
+        validate = this.getAjv(options).compile(toJsonSchema(schema, options));
+      } catch (error) {
+        // Schemas Ajv cannot compile (e.g. unresolved $ref) are not checked
+        log.warning("Skipping validation for uncompilable schema", error);
+        return undefined;
+      }
+      cache.set(schema, validate);
+    }
+    return validate;
+  }
+
+  validate(
+    schema: any,
+    data: any,
+    root: string,
+    options: SchemaValidationOptions
+  ): ValidationIssue[] {
+    if (!isObject(schema) || Object.keys(schema).length === 0) return [];
+    const validate = this.getValidator(schema, options);
+    if (!validate) return [];
+
+    // Coercion rewrites the data in place
+    const value = options.coerceTypes ? structuredClone(data) : data;
+    if (validate(value)) return [];
+
+    const seen = new Set<string>();
+    const issues: ValidationIssue[] = [];
+    for (const error of validate.errors ?? []) {
+      const issue = describeError(error, root);
+      const key = `${issue.path}:${issue.message}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      issues.push(issue);
+    }
+    return issues;
+  }
+}
+
+export const schemaValidator = new SchemaValidator();
+
+export function validateRequest(
+  operation: OperationInfo,
+  parameters: Record<string, any> = {},
+  contentType: string | undefined,
+  dialect: SchemaDialect
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const param of operation.parameters ?? []) {
+    const value = parameters[param.name];
+    if (value === undefined) continue;
+    issues.push(
+      ...schemaValidator.validate(param.schema, value, param.name, {
+        dialect,
+        direction: "request",
+        coerceTypes: true,
+      })
+    );
+  }
+
+  if (operation.requestBody) {
+    const resolved = resolveRequestContentType(
+      operation.requestBody,
+      contentType
+    );
+    const bodyType = resolved?.contentType ?? operation.requestBody.contentType;
+    const body = extractBodyData(operation.requestBody, parameters, bodyType);
+    if (body !== undefined) {
+      issues.push(
+        ...schemaValidator.validate(
+          resolved?.media.schema ?? operation.requestBody.schema,
+          body,
+          "body",
+          {
+            dialect,
+            direction: "request",
+            coerceTypes: isFormContentType(bodyType),
+            binaryAsAny: isMultipartContentType(bodyType),
+          }
+        )
+      );
+    }
+  }
+
+  return issues;
+}
+
+function schemaBranches(schema: any, ancestors: Set<object> = new Set()): any[] {
+  if (!isObject(schema) || ancestors.has(schema)) return [];
+  ancestors.add(schema);
+  const branches = [schema];
+  for (const key of ["allOf", "anyOf", "oneOf"]) {
+    if (!Array.isArray(schema[key])) continue;
+    for (const branch of schema[key]) {
+      branches.push(...schemaBranches(branch, ancestors));
+    }
+  }
+  return branches;
+}
+
+// Fields present in the data but not declared anywhere in the schema. Plain
+// JSON Schema allows them unless additionalProperties is false, but they
+// usually mean the documentation is behind the implementation.
+function findUndocumentedFields(
+  schema: any,
+  data: any,
+  path: string,
+  out: string[],
+  ancestors: Set<object> = new Set()
+): void {
+  if (!isObject(schema) || ancestors.has(schema)) return;
+  const branches = schemaBranches(schema);
+  ancestors.add(schema);
+
+  if (Array.isArray(data)) {
+    const items = branches.find((branch) => isObject(branch.items))?.items;
+    data.forEach((item, index) =>
+      findUndocumentedFields(items, item, `${path}[${index}]`, out, ancestors)
+    );
+  } else if (isObject(data)) {
+    const declared = branches.filter((branch) => isObject(branch.properties));
+    if (declared.length > 0) {
+      const additional = branches.find(
+        (branch) =>
+          branch.additionalProperties !== undefined &&
+          branch.additionalProperties !== false
+      )?.additionalProperties;
+      const hasPatterns = branches.some((branch) =>
+        isObject(branch.patternProperties)
+      );
+      for (const [key, value] of Object.entries(data)) {
+        const owner = declared.find((branch) => key in branch.properties);
+        if (owner) {
+          findUndocumentedFields(
+            owner.properties[key],
+            value,
+            `${path}.${key}`,
+            out,
+            ancestors
+          );
+        } else if (additional !== undefined) {
+          findUndocumentedFields(additional, value, `${path}.${key}`, out, ancestors);
+        } else if (!hasPatterns) {
+          out.push(`${path}.${key}`);
+        }
+      }
+    }
+  }
+
+  ancestors.delete(schema);
+}
+
+// Status codes match exactly, then by 2XX-style range, then `default`
+export function checkResponseContract(
+  operation: OperationInfo,
+  result: ApiCallResult,
+  dialect: SchemaDialect
+): ContractReport | undefined {
+  if (result.statusCode === undefined) return undefined;
+  const statusCode = result.statusCode;
+  const report: ContractReport = {
+    statusCode,
+    issues: [],
+    undocumentedFields: [],
+  };
+
+  const responses = operation.responses ?? {};
+  const range = `${String(statusCode).charAt(0)}XX`;
+  const documentedAs = [String(statusCode), range, range.toLowerCase(), "default"].find(
+    (key) => responses[key] !== undefined
+  );
+  if (!documentedAs) {
+    report.issues.push({
+      path: "status",
+      message: `${statusCode} is not a documented response (documented: ${
+        Object.keys(responses).join(", ") || "none"
+      })`,
+    });
+    return report;
+  }
+  report.documentedAs = documentedAs;
+
+  const documented = responses[documentedAs];
+  const declared = Object.keys(documented.content ?? {});
+  const contentType = (
+    result.headers?.["content-type"] ||
+    result.binary?.contentType ||
+    ""
+  ).trim();
+  const hasBody =
+    result.binary !== undefined ||
+    (result.data !== undefined && result.data !== "");
+
+  if (declared.length === 0) {
+    if (hasBody) {
+      report.issues.push({
+        path: "response",
+        message: `has a body but the ${documentedAs} response documents none`,
+      });
+    }
+    return report;
+  }
+  if (!hasBody) {
+    report.issues.push({
+      path: "response",
+      message: `is empty but the ${documentedAs} response documents ${declared.join(", ")}`,
+    });
+    return report;
+  }
+
+  const mediaType = contentType
+    ? matchMediaType(declared, contentType)
+    : undefined;
+  if (!mediaType) {
+    report.issues.push({
+      path: "content-type",
+      message: `${contentType || "(none)"} is not documented for ${documentedAs} (documented: ${declared.join(", ")})`,
+    });
+    return report;
+  }
+  report.contentType = mediaType;
+
+  const schema = documented.content?.[mediaType]?.schema;
+  if (!schema || result.binary || !isJsonContentType(contentType)) {
+    return report;
+  }
+
+  let data = result.data;
+  if (typeof data === "string") {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      report.issues.push({ path: "response", message: "is not valid JSON" });
+      return report;
+    }
+  }
+
+  const options: SchemaValidationOptions = { dialect, direction: "response" };
+  report.issues.push(
+    ...schemaValidator.validate(schema, data, "response", options)
+  );
+  findUndocumentedFields(
+    schema,
+    data,
+    "response",
+    report.undocumentedFields
+  );
+  return report;
+}
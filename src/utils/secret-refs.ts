@@ -0,0 +1,112 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import type { AuthConfig } from "../types/index.js";
+
+// Auth config values may reference secrets instead of containing them:
+// `${env:STRIPE_KEY}` or `${file:/run/secrets/token}`. References are stored
+// as written and only resolved when a request is built, so the secrets never
+// reach the sessions file or tool output.
+
+const REFERENCE = /\$\{(env|file):([^}]+)\}/g;
+
+export function hasSecretReference(value: string | undefined): boolean {
+  return !!value && new RegExp(REFERENCE.source).test(value);
+}
+
+function expandHome(filePath: string): string {
+  return filePath === "~" || filePath.startsWith("~/")
+    ? path.join(os.homedir(), filePath.slice(1))
+    : filePath;
+}
+
+async function resolveReference(kind: string, target: string): Promise<string> {
+  const name = target.trim();
+  if (kind === "env") {
+    const value = process.env[name];
+    if (value === undefined) {
+      throw new Error(
+        `Environment variable ${name} referenced in the auth config is not set`
+      );
+    }
+    return value;
+  }
+
+  try {
+    const content = await fs.readFile(path.resolve(expandHome(name)), "utf8");
+    // Secret files usually end with a newline that is not part of the secret
+    return content.replace(/\r?\n$/, "");
+  } catch (error) {
+    throw new Error(
+      `Cannot read secret file ${name} referenced in the auth config: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+export async function resolveSecretValue(value: string): Promise<string> {
+  if (!hasSecretReference(value)) return value;
+  const parts: string[] = [];
+  let last = 0;
+  for (const match of value.matchAll(REFERENCE)) {
+    parts.push(value.slice(last, match.index));
+    parts.push(await resolveReference(match[1], match[2]));
+    last = match.index! + match[0].length;
+  }
+  parts.push(value.slice(last));
+  return parts.join("");
+}
+
+export async function resolveConfigReferences(
+  config: Record<string, string>
+): Promise<Record<string, string>> {
+  if (!Object.values(config).some(hasSecretReference)) return config;
+  const resolved: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config)) {
+    resolved[key] = await resolveSecretValue(value);
+  }
+  return resolved;
+}
+
+export async function resolveSecretReferences(
+  authConfig: AuthConfig
+): Promise<AuthConfig> {
+  const resolved: AuthConfig = {
+    ...authConfig,
+    config: await resolveConfigReferences(authConfig.config),
+  };
+  if (authConfig.schemes) {
+    resolved.schemes = {};
+    for (const [name, credential] of Object.entries(authConfig.schemes)) {
+      resolved.schemes[name] = {
+        ...credential,
+        config: await resolveConfigReferences(credential.config),
+      };
+    }
+  }
+  return resolved;
+}
+
+// The values themselves are never returned
+export async function checkSecretReferences(
+  config: Record<string, string>
+): Promise<string[]> {
+  const problems: string[] = [];
+  for (const value of Object.values(config)) {
+    if (!hasSecretReference(value)) continue;
+    try {
+      await resolveSecretValue(value);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  return problems;
+}
+
+// References are shown as written, literal secrets by their first characters
+export function describeSecret(value: string, visible: number = 8): string {
+  return hasSecretReference(value)
+    ? `\`${value}\` (resolved per request)`
+    : `\`${value.substring(0, visible)}...\` (masked)`;
+}
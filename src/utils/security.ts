@@ -0,0 +1,353 @@
+import type {
+  AuthConfig,
+  OperationInfo,
+  SecurityRequirement,
+  SecuritySchemeInfo,
+} from "../types/index.js";
+import { mergeCookieHeaders } from "./cookie-jar.js";
+import { isDigest } from "./digest-auth.js";
+import { isHmac } from "./hmac-signing.js";
+import { isLogin, loginParameterNames } from "./login-operation.js";
+import { isAuthorizationCode, isClientCredentials } from "./oauth2.js";
+import { isSigV4 } from "./sigv4.js";
+
+export interface SelectedCredential {
+  scheme: SecuritySchemeInfo;
+  credential: AuthConfig;
+}
+
+// Tokens from a login operation fit wherever a bearer token or API key is
+// expected
+export function compatibleAuthTypes(
+  scheme: SecuritySchemeInfo
+): AuthConfig["type"][] {
+  switch (scheme.type) {
+    case "apiKey":
+      // API Gateway describes IAM auth as an Authorization "API key"
+      return scheme.authType?.toLowerCase() === "awssigv4"
+        ? ["sigv4"]
+        : ["apiKey", "login"];
+    case "http":
+      if (scheme.scheme === "basic") return ["basic"];
+      if (scheme.scheme === "bearer") return ["bearer", "oauth2", "login"];
+      if (scheme.scheme === "digest") return ["digest"];
+      return [];
+    case "oauth2":
+    case "openIdConnect":
+      return ["oauth2", "bearer", "login"];
+    default:
+      return [];
+  }
+}
+
+function hasSecret(authConfig: AuthConfig): boolean {
+  const { config } = authConfig;
+  switch (authConfig.type) {
+    case "apiKey":
+      return !!config.apiKey;
+    case "bearer":
+      return !!config.token;
+    case "basic":
+      return !!config.username && !!config.password;
+    case "oauth2":
+      return (
+        !!config.accessToken ||
+        (isClientCredentials(authConfig) &&
+          !!config.clientId &&
+          !!config.clientSecret) ||
+        // Not logged in yet: requests wait for the login or fail saying so
+        isAuthorizationCode(authConfig)
+      );
+    case "sigv4":
+      return !!config.accessKeyId && !!config.secretAccessKey;
+    case "hmac":
+      return !!config.secret;
+    case "digest":
+      return !!config.username && !!config.password;
+    case "login":
+      return !!config.operationId || !!config.token;
+  }
+}
+
+// Signatures and Digest answers are added by the HTTP client
+export function signsRequest(credential: AuthConfig): boolean {
+  return isSigV4(credential) || isHmac(credential) || isDigest(credential);
+}
+
+export function credentialForScheme(
+  scheme: SecuritySchemeInfo,
+  authConfig?: AuthConfig
+): AuthConfig | undefined {
+  if (!authConfig) return undefined;
+  const candidates = [
+    authConfig.schemes?.[scheme.name],
+    !authConfig.scheme || authConfig.scheme === scheme.name
+      ? authConfig
+      : undefined,
+  ];
+  return candidates.find(
+    (candidate): candidate is AuthConfig =>
+      !!candidate &&
+      compatibleAuthTypes(scheme).includes(candidate.type) &&
+      hasSecret(candidate)
+  );
+}
+
+// Empty requirements (auth optional) win only when nothing else can
+export function selectSecurityRequirement(
+  security: SecurityRequirement[],
+  authConfig?: AuthConfig
+): SelectedCredential[] | undefined {
+  let optional = false;
+  for (const requirement of security) {
+    if (requirement.length === 0) {
+      optional = true;
+      continue;
+    }
+    const selected = requirement.map(({ scheme }) => ({
+      scheme,
+      credential: credentialForScheme(scheme, authConfig),
+    }));
+    if (selected.every((entry) => entry.credential)) {
+      return selected as SelectedCredential[];
+    }
+  }
+  return optional ? [] : undefined;
+}
+
+export function credentialsInUse(
+  operation: OperationInfo,
+  authConfig?: AuthConfig
+): AuthConfig[] {
+  if (!authConfig) return [];
+  const security = operation.security;
+  if (security && security.length === 0) return [];
+  const selected = security
+    ? selectSecurityRequirement(security, authConfig)
+    : undefined;
+  return selected
+    ? selected.map(({ credential }) => credential)
+    : [authConfig];
+}
+
+function bearerToken(credential: AuthConfig): string | undefined {
+  return credential.config.accessToken || credential.config.token;
+}
+
+function applyApiKey(
+  query: string[],
+  headers: Record<string, string>,
+  location: string | undefined,
+  name: string | undefined,
+  value: string
+): void {
+  if (!name) return;
+  switch (location) {
+    case "query":
+      query.push(`${encodeURIComponent(name)}=${encodeURIComponent(value)}`);
+      break;
+    case "cookie":
+      headers["Cookie"] = mergeCookieHeaders(
+        headers["Cookie"],
+        `${name}=${value}`
+      )!;
+      break;
+    default:
+      headers[name] = value;
+  }
+}
+
+export function loginTokenTarget(config: Record<string, string>): {
+  location: string;
+  name: string;
+  prefix: string;
+} {
+  const location = config.in ?? "header";
+  const name = config.headerName || config.name || "Authorization";
+  const prefix =
+    config.tokenPrefix ??
+    (location === "header" && name.toLowerCase() === "authorization"
+      ? "Bearer"
+      : "");
+  return { location, name, prefix };
+}
+
+function applyCredential(
+  query: string[],
+  headers: Record<string, string>,
+  scheme: SecuritySchemeInfo,
+  credential: AuthConfig
+): void {
+  if (signsRequest(credential)) return;
+  if (scheme.type === "apiKey") {
+    applyApiKey(
+      query,
+      headers,
+      scheme.in,
+      scheme.paramName,
+      isLogin(credential) ? credential.config.token : credential.config.apiKey
+    );
+  } else if (scheme.type === "http" && scheme.scheme === "basic") {
+    const { username, password } = credential.config;
+    headers["Authorization"] = `Basic ${Buffer.from(
+      `${username}:${password}`
+    ).toString("base64")}`;
+  } else {
+    headers["Authorization"] = `Bearer ${bearerToken(credential)}`;
+  }
+}
+
+function applyConfiguredAuth(
+  query: string[],
+  headers: Record<string, string>,
+  authConfig: AuthConfig
+): void {
+  const { config } = authConfig;
+  switch (authConfig.type) {
+    case "apiKey":
+      if (config.apiKey) {
+        applyApiKey(
+          query,
+          headers,
+          config.in,
+          config.headerName || config.name,
+          config.apiKey
+        );
+      }
+      break;
+
+    case "bearer":
+      if (config.token) {
+        headers["Authorization"] = `Bearer ${config.token}`;
+      }
+      break;
+
+    case "basic":
+      if (config.username && config.password) {
+        const credentials = Buffer.from(
+          `${config.username}:${config.password}`
+        ).toString("base64");
+        headers["Authorization"] = `Basic ${credentials}`;
+      }
+      break;
+
+    case "oauth2":
+      if (config.accessToken) {
+        headers["Authorization"] = `Bearer ${config.accessToken}`;
+      }
+      break;
+
+    case "login":
+      // The token from the login operation, filled in by the HTTP client
+      if (config.token) {
+        const { location, name, prefix } = loginTokenTarget(config);
+        applyApiKey(
+          query,
+          headers,
+          location,
+          name,
+          prefix ? `${prefix} ${config.token}` : config.token
+        );
+      }
+      break;
+
+    case "sigv4":
+    case "hmac":
+    case "digest":
+      // Applied to the finished request (see signsRequest)
+      break;
+  }
+}
+
+// Operations with `security: []` are sent without credentials; credentials
+// that meet none of the requirements are sent as configured
+export function applyAuthentication(
+  url: string,
+  headers: Record<string, string>,
+  operation: OperationInfo,
+  authConfig?: AuthConfig
+): string {
+  if (!authConfig) return url;
+  const security = operation.security;
+  if (security && security.length === 0) return url;
+
+  // Query string keys are appended as is, keeping the serialized parameters
+  const query: string[] = [];
+  const selected = security
+    ? selectSecurityRequirement(security, authConfig)
+    : undefined;
+  if (selected) {
+    for (const { scheme, credential } of selected) {
+      applyCredential(query, headers, scheme, credential);
+    }
+  } else {
+    applyConfiguredAuth(query, headers, authConfig);
+  }
+  if (query.length === 0) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}${query.join("&")}`;
+}
+
+export function apiKeyNames(
+  authConfig?: AuthConfig,
+  operation?: OperationInfo
+): string[] {
+  const names = new Set<string>();
+  for (const credential of [
+    authConfig,
+    ...Object.values(authConfig?.schemes ?? {}),
+  ]) {
+    const name = credential?.config.headerName || credential?.config.name;
+    if (
+      (credential?.type === "apiKey" || credential?.type === "login") &&
+      name
+    ) {
+      names.add(name);
+    }
+    if (credential?.type === "hmac" && credential.config.header) {
+      names.add(credential.config.header);
+    }
+    // What the login operation is sent (e.g. a PIN field), also when it is
+    // called directly
+    if (
+      credential &&
+      isLogin(credential) &&
+      credential.config.operationId === operation?.operationId
+    ) {
+      for (const name of loginParameterNames(credential.config)) {
+        names.add(name.split(".").pop()!);
+      }
+    }
+  }
+  for (const requirement of operation?.security ?? []) {
+    for (const { scheme } of requirement) {
+      if (scheme.type === "apiKey" && scheme.paramName) {
+        names.add(scheme.paramName);
+      }
+    }
+  }
+  return [...names];
+}
+
+export function describeScheme(scheme: SecuritySchemeInfo): string {
+  switch (scheme.type) {
+    case "apiKey":
+      if (compatibleAuthTypes(scheme).includes("sigv4")) {
+        return "AWS Signature V4 (API Gateway IAM)";
+      }
+      return `API key in ${scheme.in ?? "header"} \`${scheme.paramName}\``;
+    case "http":
+      return `HTTP ${scheme.scheme ?? "auth"}${
+        scheme.bearerFormat ? ` (${scheme.bearerFormat})` : ""
+      }`;
+    case "oauth2":
+      return `OAuth2${
+        scheme.flows ? ` (${Object.keys(scheme.flows).join(", ")})` : ""
+      }`;
+    case "openIdConnect":
+      return `OpenID Connect${
+        scheme.openIdConnectUrl ? ` (${scheme.openIdConnectUrl})` : ""
+      }`;
+    default:
+      return scheme.type;
+  }
+}
@@ -1,7 +1,23 @@
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
-import type { AuthConfig } from "../types/index.js";
+import type {
+  AuthConfig,
+  HistoryEntry,
+  RequestDefaults,
+} from "../types/index.js";
+import {
+  CredentialStore,
+  type StoredCredentials,
+  type StoredReplayParameters,
+  writePrivateFile,
+} from "./credential-store.js";
+import { logger } from "./logger.js";
+
+const log = logger.child("sessions");
+
+// Recorded calls kept per session; older entries are dropped first
+export const MAX_HISTORY_ENTRIES = 50;
 
 export interface ApiSession {
   id: string;
@@ -9,6 +25,15 @@ export interface ApiSession {
   baseUrl: string;
   openApiPath?: string;
   authConfig?: AuthConfig;
+  // Key of authConfig in the encrypted credential store; sessions.json never
+  // holds the credentials themselves
+  credentialRef?: string;
+  // Named credential profiles, stored under `${id}/${name}`. When one is the
+  // default, authConfig is that profile.
+  authProfiles?: Record<string, AuthConfig>;
+  defaultAuthProfile?: string;
+  requestDefaults?: RequestDefaults;
+  history?: HistoryEntry[];
   lastUsed: string;
   createdAt: string;
   metadata?: {
@@ -26,15 +51,17 @@ export interface SessionStorage {
 export class SessionManager {
   private sessionFile: string;
   private storage: SessionStorage = { sessions: {} };
+  private credentialStore: CredentialStore;
 
   constructor() {
     // Store sessions in user's home directory
     const configDir = path.join(os.homedir(), ".openapi-client-mcp");
     if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
+      fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
     }
 
     this.sessionFile = path.join(configDir, "sessions.json");
+    this.credentialStore = new CredentialStore(configDir);
     this.loadSessions();
   }
 
@@ -47,16 +74,109 @@ export class SessionManager {
         this.storage = { sessions: {} };
       }
     } catch (error) {
-      console.error("Error loading sessions:", error);
+      log.error("Error loading sessions", error);
       this.storage = { sessions: {} };
     }
+
+    if (this.credentialStore.locked) {
+      log.warning(this.credentialStore.lockedMessage());
+    }
+    let plaintext = 0;
+    for (const session of Object.values(this.storage.sessions)) {
+      const history = session.history ?? [];
+      if (
+        session.authConfig ||
+        session.authProfiles ||
+        history.some((entry) => entry.replayParameters)
+      ) {
+        // Written before credentials and replay parameters moved to the
+        // encrypted store
+        plaintext++;
+      }
+      if (
+        !this.credentialStore.locked &&
+        !session.authConfig &&
+        session.credentialRef
+      ) {
+        session.authConfig = this.credentialStore.get(session.credentialRef);
+        const profiles = this.credentialStore.getAll(`${session.id}/`);
+        if (Object.keys(profiles).length > 0) session.authProfiles = profiles;
+      }
+      // The default profile and authConfig are one object again, so tokens
+      // stored into one show up in the other
+      const defaultProfile =
+        session.defaultAuthProfile &&
+        session.authProfiles?.[session.defaultAuthProfile];
+      if (defaultProfile) session.authConfig = defaultProfile;
+
+      if (this.credentialStore.locked) continue;
+      for (const entry of history) {
+        entry.replayParameters ??= this.credentialStore.getReplayParameters(
+          `${session.id}/${entry.id}`
+        );
+      }
+    }
+    if (plaintext > 0 && !this.credentialStore.locked) {
+      this.saveSessions();
+      log.notice(
+        `Moved credentials of ${plaintext} session(s) from sessions.json into the encrypted credential store`
+      );
+    } else if (plaintext > 0) {
+      log.warning(
+        `Credentials of ${plaintext} session(s) stay in plaintext in sessions.json until the credential store is unlocked`
+      );
+    }
   }
 
+  // Credentials and replay parameters go to the encrypted store,
+  // sessions.json keeps references. While the store is locked, stored
+  // credentials are left untouched and new replay parameters are dropped.
   private saveSessions(): void {
     try {
-      fs.writeFileSync(this.sessionFile, JSON.stringify(this.storage, null, 2));
+      const locked = this.credentialStore.locked;
+      const sessions: Record<string, ApiSession> = {};
+      const credentials: StoredCredentials = {};
+      const replay: StoredReplayParameters = {};
+      for (const [id, stored] of Object.entries(this.storage.sessions)) {
+        const history = stored.history?.map(
+          ({ replayParameters, ...entry }) => {
+            if (replayParameters) {
+              replay[`${id}/${entry.id}`] = replayParameters;
+            }
+            return entry;
+          }
+        );
+        const session = { ...stored, history };
+        const { authConfig, credentialRef, authProfiles, ...rest } = session;
+        if (locked) {
+          sessions[id] = session;
+          continue;
+        }
+        for (const [name, profile] of Object.entries(authProfiles ?? {})) {
+          credentials[`${id}/${name}`] = profile;
+        }
+        if (!authConfig) {
+          sessions[id] = rest;
+        } else if (
+          rest.defaultAuthProfile &&
+          authProfiles?.[rest.defaultAuthProfile] === authConfig
+        ) {
+          sessions[id] = {
+            ...rest,
+            credentialRef: `${id}/${rest.defaultAuthProfile}`,
+          };
+        } else {
+          credentials[id] = authConfig;
+          sessions[id] = { ...rest, credentialRef: id };
+        }
+      }
+      if (!locked) this.credentialStore.save(credentials, replay);
+      writePrivateFile(
+        this.sessionFile,
+        JSON.stringify({ ...this.storage, sessions }, null, 2)
+      );
     } catch (error) {
-      console.error("Error saving sessions:", error);
+      log.error("Error saving sessions", error);
     }
   }
 
@@ -103,6 +223,18 @@ export class SessionManager {
     );
   }
 
+  findSessionForSource(apiSource: string): ApiSession | null {
+    return (
+      this.listSessions().find(
+        (session) =>
+          session.openApiPath === apiSource ||
+          session.baseUrl === apiSource ||
+          (session.openApiPath && session.openApiPath.includes(apiSource)) ||
+          apiSource.includes(session.baseUrl)
+      ) || null
+    );
+  }
+
   getActiveSession(): ApiSession | null {
     if (!this.storage.activeSessionId) return null;
     return this.getSession(this.storage.activeSessionId);
@@ -143,19 +275,116 @@ export class SessionManager {
   setAuthConfig(sessionId: string, authConfig: AuthConfig): boolean {
     const session = this.storage.sessions[sessionId];
     if (!session) return false;
+    if (this.credentialStore.locked) {
+      throw new Error(this.credentialStore.lockedMessage());
+    }
 
     session.authConfig = authConfig;
+    if (session.defaultAuthProfile) {
+      session.authProfiles = {
+        ...session.authProfiles,
+        [session.defaultAuthProfile]: authConfig,
+      };
+    }
     session.lastUsed = new Date().toISOString();
     this.saveSessions();
 
     return true;
   }
 
+  // It becomes the default when asked to, when it already is, or when the
+  // session has no credentials yet
+  setAuthProfile(
+    sessionId: string,
+    name: string,
+    authConfig: AuthConfig,
+    makeDefault: boolean = false
+  ): boolean {
+    const session = this.storage.sessions[sessionId];
+    if (!session) return false;
+    if (this.credentialStore.locked) {
+      throw new Error(this.credentialStore.lockedMessage());
+    }
+
+    session.authProfiles = { ...session.authProfiles, [name]: authConfig };
+    if (
+      makeDefault ||
+      !session.authConfig ||
+      session.defaultAuthProfile === name
+    ) {
+      session.defaultAuthProfile = name;
+      session.authConfig = authConfig;
+    }
+    session.lastUsed = new Date().toISOString();
+    this.saveSessions();
+
+    return true;
+  }
+
+  credentialStoreError(): string | undefined {
+    return this.credentialStore.locked
+      ? this.credentialStore.lockedMessage()
+      : undefined;
+  }
+
+  hasLockedCredentials(sessionId: string): boolean {
+    const session = this.storage.sessions[sessionId];
+    return (
+      !!session?.credentialRef &&
+      !session.authConfig &&
+      this.credentialStore.locked
+    );
+  }
+
+  // For credentials updated in place, e.g. refreshed OAuth2 tokens
+  saveAuthConfigs(): void {
+    this.saveSessions();
+  }
+
   getAuthConfig(sessionId: string): AuthConfig | null {
     const session = this.storage.sessions[sessionId];
     return session?.authConfig || null;
   }
 
+  setRequestDefaults(sessionId: string, defaults: RequestDefaults): boolean {
+    const session = this.storage.sessions[sessionId];
+    if (!session) return false;
+
+    session.requestDefaults = {
+      ...session.requestDefaults,
+      ...defaults,
+      retry: { ...session.requestDefaults?.retry, ...defaults.retry },
+    };
+    session.lastUsed = new Date().toISOString();
+    this.saveSessions();
+
+    return true;
+  }
+
+  addHistoryEntry(sessionId: string, entry: HistoryEntry): boolean {
+    const session = this.storage.sessions[sessionId];
+    if (!session) return false;
+
+    session.history = [...(session.history ?? []), entry].slice(
+      -MAX_HISTORY_ENTRIES
+    );
+    session.lastUsed = new Date().toISOString();
+    this.saveSessions();
+
+    return true;
+  }
+
+  // Most recent first
+  getHistory(sessionId: string): HistoryEntry[] {
+    const session = this.storage.sessions[sessionId];
+    return [...(session?.history ?? [])].reverse();
+  }
+
+  getHistoryEntry(sessionId: string, entryId: string): HistoryEntry | null {
+    const session = this.storage.sessions[sessionId];
+    return session?.history?.find((entry) => entry.id === entryId) || null;
+  }
+
   private generateSessionId(baseUrl: string): string {
     const normalized = this.normalizeBaseUrl(baseUrl);
     const hash = Buffer.from(normalized)
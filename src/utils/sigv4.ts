@@ -0,0 +1,213 @@
+import * as crypto from "crypto";
+import type { AuthConfig, SignableRequest } from "../types/index.js";
+
+// AWS Signature Version 4, for API Gateway IAM auth and other AWS endpoints
+// https://docs.aws.amazon.com/IAM/latest/UserGuide/create-signed-request.html
+
+export const SIGV4_ALGORITHM = "AWS4-HMAC-SHA256";
+export const DEFAULT_SIGV4_SERVICE = "execute-api";
+
+// Headers that may change between signing and sending (cookies from the
+// jar, headers fetch adds) are left out of the signature
+const UNSIGNED_HEADERS = new Set([
+  "authorization",
+  "connection",
+  "content-length",
+  "cookie",
+  "expect",
+  "user-agent",
+  "x-amzn-trace-id",
+]);
+
+export function isSigV4(credential: AuthConfig): boolean {
+  return credential.type === "sigv4";
+}
+
+// Service and region of AWS hostnames such as
+// abc123.execute-api.eu-west-1.amazonaws.com
+export function awsEndpointInfo(
+  url: string
+): { service: string; region: string } | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+  const match = hostname.match(
+    /(?:^|\.)([a-z0-9-]+)[.-]([a-z]{2}(?:-[a-z]+)+-\d)\.amazonaws\.com(?:\.cn)?$/
+  );
+  return match ? { service: match[1], region: match[2] } : undefined;
+}
+
+function sha256Hex(data: string): string {
+  return crypto.createHash("sha256").update(data, "utf8").digest("hex");
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data, "utf8").digest();
+}
+
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+// Path and query as written in the URL, so an already encoded path is
+// encoded again as AWS expects for every service but S3
+function splitUrl(url: string): { host: string; path: string; query: string } {
+  const match = url.match(
+    /^[a-z][a-z0-9+.-]*:\/\/[^/?#]*([^?#]*)(?:\?([^#]*))?/i
+  );
+  if (!match) throw new Error(`Cannot sign request to ${url}`);
+  return {
+    host: new URL(url).host,
+    path: match[1] || "/",
+    query: match[2] ?? "",
+  };
+}
+
+// Removes empty and dot segments; S3 keys are signed as they are
+function canonicalPath(path: string, service: string): string {
+  if (service === "s3") {
+    return path.split("/").map(uriEncode).join("/");
+  }
+  const segments: string[] = [];
+  for (const segment of path.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") segments.pop();
+    else segments.push(uriEncode(segment));
+  }
+  const trailingSlash = segments.length > 0 && /\/\.{0,2}$/.test(path);
+  return `/${segments.join("/")}${trailingSlash ? "/" : ""}`;
+}
+
+function canonicalQuery(query: string): string {
+  return [...new URLSearchParams(query)]
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) =>
+      keyA === keyB
+        ? compareCodePoints(valueA, valueB)
+        : compareCodePoints(keyA, keyB)
+    )
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+}
+
+function compareCodePoints(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Values of names differing only in case are joined with commas
+function signedHeaders(
+  headers: Record<string, string>
+): Record<string, string> {
+  const canonical: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase();
+    if (UNSIGNED_HEADERS.has(lower)) continue;
+    const normalized = value.trim().replace(/\s+/g, " ");
+    canonical[lower] =
+      lower in canonical ? `${canonical[lower]},${normalized}` : normalized;
+  }
+  return canonical;
+}
+
+export function canonicalRequest(
+  request: SignableRequest,
+  service: string,
+  payloadHash: string
+): { canonical: string; signedHeaderNames: string } {
+  const { path, query } = splitUrl(request.url);
+  const headers = signedHeaders(request.headers);
+  const names = Object.keys(headers).sort();
+  const signedHeaderNames = names.join(";");
+  const canonical = [
+    request.method.toUpperCase(),
+    canonicalPath(path, service),
+    canonicalQuery(query),
+    names.map((name) => `${name}:${headers[name]}\n`).join(""),
+    signedHeaderNames,
+    payloadHash,
+  ].join("\n");
+  return { canonical, signedHeaderNames };
+}
+
+// YYYYMMDD'T'HHMMSS'Z'
+export function amzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function credentialScope(
+  date: string,
+  region: string,
+  service: string
+): string {
+  return `${date.substring(0, 8)}/${region}/${service}/aws4_request`;
+}
+
+export function stringToSign(
+  canonical: string,
+  date: string,
+  scope: string
+): string {
+  return [SIGV4_ALGORITHM, date, scope, sha256Hex(canonical)].join("\n");
+}
+
+export function signingKey(
+  secretAccessKey: string,
+  date: string,
+  region: string,
+  service: string
+): Buffer {
+  const dateKey = hmac(`AWS4${secretAccessKey}`, date.substring(0, 8));
+  const regionKey = hmac(dateKey, region);
+  const serviceKey = hmac(regionKey, service);
+  return hmac(serviceKey, "aws4_request");
+}
+
+// An X-Amz-Date already on the request is kept and signed as given
+export function signSigV4Request(
+  request: SignableRequest,
+  config: Record<string, string>,
+  now: Date = new Date()
+): Record<string, string> {
+  const { accessKeyId, secretAccessKey, sessionToken, region } = config;
+  const service = config.service || DEFAULT_SIGV4_SERVICE;
+  if (!accessKeyId || !secretAccessKey || !region) {
+    throw new Error(
+      "AWS SigV4 signing needs accessKeyId, secretAccessKey and region"
+    );
+  }
+
+  const existingDate = Object.entries(request.headers).find(
+    ([name]) => name.toLowerCase() === "x-amz-date"
+  )?.[1];
+  const date = existingDate ?? amzDate(now);
+  const payloadHash = sha256Hex(request.body ?? "");
+  const added: Record<string, string> = {};
+  const host: Record<string, string> = Object.keys(request.headers).some(
+    (name) => name.toLowerCase() === "host"
+  )
+    ? {}
+    : { host: splitUrl(request.url).host };
+  if (!existingDate) added["X-Amz-Date"] = date;
+  if (sessionToken) added["X-Amz-Security-Token"] = sessionToken;
+  if (service === "s3") added["X-Amz-Content-Sha256"] = payloadHash;
+
+  const { canonical, signedHeaderNames } = canonicalRequest(
+    { ...request, headers: { ...host, ...request.headers, ...added } },
+    service,
+    payloadHash
+  );
+  const scope = credentialScope(date, region, service);
+  const signature = crypto
+    .createHmac("sha256", signingKey(secretAccessKey, date, region, service))
+    .update(stringToSign(canonical, date, scope), "utf8")
+    .digest("hex");
+
+  added["Authorization"] = `${SIGV4_ALGORITHM} Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames}, Signature=${signature}`;
+  return added;
+}
@@ -0,0 +1,218 @@
+import { createHash } from "crypto";
+import * as fs from "fs/promises";
+import fetch from "node-fetch";
+import * as path from "path";
+import type { ApiInfo } from "../types/index.js";
+import { OpenApiDiscovery } from "./discovery.js";
+import { logger } from "./logger.js";
+
+const log = logger.child("spec-cache");
+
+interface FileFingerprint {
+  path: string;
+  mtimeMs: number;
+  size: number;
+  hash: string;
+}
+
+interface LocalCacheEntry {
+  kind: "file";
+  apiInfo: ApiInfo;
+  // The document and the local files its $refs point to
+  files: FileFingerprint[];
+  loadedAt: number;
+}
+
+interface RemoteCacheEntry {
+  kind: "url";
+  apiInfo: ApiInfo;
+  etag?: string;
+  lastModified?: string;
+  hash: string;
+  loadedAt: number;
+}
+
+type CacheEntry = LocalCacheEntry | RemoteCacheEntry;
+
+export interface SpecCacheOptions {
+  forceRefresh?: boolean;
+}
+
+export function isRemoteDocsPath(docsPath: string): boolean {
+  return docsPath.startsWith("http://") || docsPath.startsWith("https://");
+}
+
+export function resolveDocsPath(docsPath: string): string {
+  if (isRemoteDocsPath(docsPath)) return docsPath;
+  return path.isAbsolute(docsPath)
+    ? docsPath
+    : path.resolve(process.cwd(), docsPath);
+}
+
+export class SpecCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private pending: Map<string, Promise<ApiInfo | null>> = new Map();
+  private discovery = new OpenApiDiscovery();
+
+  async getApiInfo(
+    docsPath: string,
+    options: SpecCacheOptions = {}
+  ): Promise<ApiInfo | null> {
+    const key = resolveDocsPath(docsPath);
+    if (options.forceRefresh) {
+      this.entries.delete(key);
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const load = (
+      isRemoteDocsPath(key) ? this.loadRemote(key) : this.loadLocal(key)
+    ).finally(() => this.pending.delete(key));
+    this.pending.set(key, load);
+    return load;
+  }
+
+  invalidate(docsPath?: string): void {
+    if (docsPath === undefined) {
+      this.entries.clear();
+      return;
+    }
+    this.entries.delete(resolveDocsPath(docsPath));
+  }
+
+  has(docsPath: string): boolean {
+    return this.entries.has(resolveDocsPath(docsPath));
+  }
+
+  private async loadLocal(filePath: string): Promise<ApiInfo | null> {
+    try {
+      await fs.stat(filePath);
+    } catch {
+      this.entries.delete(filePath);
+      return null;
+    }
+
+    const cached = this.entries.get(filePath);
+    if (cached?.kind === "file" && (await this.unchanged(cached.files))) {
+      return cached.apiInfo;
+    }
+
+    const parsed = await this.discovery.parseOpenApiFileWithRefs(filePath);
+    if (!parsed) {
+      this.entries.delete(filePath);
+      return null;
+    }
+
+    const files: FileFingerprint[] = [];
+    for (const file of parsed.files) {
+      if (isRemoteDocsPath(file)) continue;
+      try {
+        files.push(await this.fingerprint(file));
+      } catch {
+        // Gone since it was read; the next load parses again
+        files.push({ path: file, mtimeMs: -1, size: -1, hash: "" });
+      }
+    }
+    this.entries.set(filePath, {
+      kind: "file",
+      apiInfo: parsed.apiInfo,
+      files,
+      loadedAt: Date.now(),
+    });
+    return parsed.apiInfo;
+  }
+
+  private async fingerprint(filePath: string): Promise<FileFingerprint> {
+    const stat = await fs.stat(filePath);
+    return {
+      path: filePath,
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+      hash: this.hashContent(await fs.readFile(filePath)),
+    };
+  }
+
+  // Files touched without changing their content stay cached
+  private async unchanged(files: FileFingerprint[]): Promise<boolean> {
+    for (const file of files) {
+      let stat;
+      try {
+        stat = await fs.stat(file.path);
+      } catch {
+        return false;
+      }
+      if (stat.mtimeMs === file.mtimeMs && stat.size === file.size) continue;
+      const hash = this.hashContent(await fs.readFile(file.path));
+      if (hash !== file.hash) return false;
+      file.mtimeMs = stat.mtimeMs;
+      file.size = stat.size;
+    }
+    return true;
+  }
+
+  private async loadRemote(url: string): Promise<ApiInfo | null> {
+    const cached = this.entries.get(url);
+    const headers: Record<string, string> = {};
+    if (cached?.kind === "url") {
+      if (cached.etag) headers["If-None-Match"] = cached.etag;
+      if (cached.lastModified)
+        headers["If-Modified-Since"] = cached.lastModified;
+    }
+
+    let content: string;
+    let etag: string | undefined;
+    let lastModified: string | undefined;
+    try {
+      const response = await fetch(url, { headers });
+      if (response.status === 304 && cached) {
+        return cached.apiInfo;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      content = await response.text();
+      etag = response.headers.get("etag") ?? undefined;
+      lastModified = response.headers.get("last-modified") ?? undefined;
+    } catch (error) {
+      log.error(`Error fetching OpenAPI from URL ${url}`, error);
+      return null;
+    }
+
+    const hash = this.hashContent(content);
+    if (cached?.kind === "url" && cached.hash === hash) {
+      cached.etag = etag;
+      cached.lastModified = lastModified;
+      return cached.apiInfo;
+    }
+
+    let apiInfo: ApiInfo | null;
+    try {
+      apiInfo = await this.discovery.parseOpenApiString(content, url);
+    } catch (error) {
+      log.error(`Error parsing OpenAPI from URL ${url}`, error);
+      apiInfo = null;
+    }
+    if (!apiInfo) {
+      this.entries.delete(url);
+      return null;
+    }
+
+    this.entries.set(url, {
+      kind: "url",
+      apiInfo,
+      etag,
+      lastModified,
+      hash,
+      loadedAt: Date.now(),
+    });
+    return apiInfo;
+  }
+
+  private hashContent(content: string | Buffer): string {
+    return createHash("sha256").update(content).digest("hex");
+  }
+}
+
+// Global spec cache shared by every tool that takes a docs_path
+export const specCache = new SpecCache();
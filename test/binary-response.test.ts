@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import {
+  handleBinaryResponse,
+  looksLikeText,
+} from "../src/utils/binary-response.js";
+
+const downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), "downloads-"));
+const PDF = Buffer.from("%PDF-1.7\n...");
+
+describe("handleBinaryResponse", () => {
+  it("returns small responses inline without saving them", async () => {
+    const info = await handleBinaryResponse(
+      PDF,
+      "application/pdf",
+      null,
+      "getReport",
+      { downloadDir }
+    );
+    assert.equal(info.base64, PDF.toString("base64"));
+    assert.equal(info.savedPath, undefined);
+    assert.match(info.filename, /^getReport-\d+\.pdf$/);
+    assert.deepEqual(fs.readdirSync(downloadDir), []);
+  });
+
+  it("saves responses too large to inline", async () => {
+    const large = Buffer.alloc(300 * 1024, 1);
+    const info = await handleBinaryResponse(
+      large,
+      "application/zip",
+      'attachment; filename="../../export.zip"',
+      "export",
+      { downloadDir, binaryResponse: "inline" }
+    );
+    assert.equal(info.base64, undefined);
+    assert.equal(info.savedPath, path.join(downloadDir, "export.zip"));
+    assert.equal(fs.statSync(info.savedPath).size, large.length);
+  });
+
+  it("always saves in file mode, next to earlier downloads", async () => {
+    const info = await handleBinaryResponse(
+      PDF,
+      "application/pdf",
+      "attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf",
+      "getReport",
+      { downloadDir, binaryResponse: "file" }
+    );
+    assert.equal(info.base64, undefined);
+    assert.equal(info.filename, "r_sum_.pdf");
+    const again = await handleBinaryResponse(
+      PDF,
+      "application/pdf",
+      "attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf",
+      "getReport",
+      { downloadDir, binaryResponse: "file" }
+    );
+    assert.equal(again.savedPath, path.join(downloadDir, "r_sum_-1.pdf"));
+  });
+});
+
+describe("looksLikeText", () => {
+  it("tells text from binary content", () => {
+    assert.equal(looksLikeText(Buffer.from("plain text, ünïcode")), true);
+    assert.equal(looksLikeText(Buffer.from([0x89, 0x50, 0x00, 0x47])), false);
+  });
+});
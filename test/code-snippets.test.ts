@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  isSecretName,
+  maskPreparedRequest,
+  maskSecretFields,
+  toCurl,
+} from "../src/utils/code-snippets.js";
+
+describe("isSecretName", () => {
+  it("matches credential words in any naming style", () => {
+    for (const name of [
+      "Authorization",
+      "X-Auth-Token",
+      "apiKey",
+      "X-API-KEY",
+      "api_key",
+      "pushToken",
+      "client_secret",
+      "sessionId",
+      "SESSION",
+    ]) {
+      assert.equal(isSecretName(name), true, name);
+    }
+  });
+
+  it("leaves names that only contain those words visible", () => {
+    for (const name of [
+      "author",
+      "authority",
+      "authorId",
+      "sessionCount",
+      "keyword",
+      "tokenizer",
+    ]) {
+      assert.equal(isSecretName(name), false, name);
+    }
+  });
+});
+
+describe("maskPreparedRequest", () => {
+  it("masks credential headers, query parameters and cookies", () => {
+    const masked = maskPreparedRequest(
+      {
+        method: "GET",
+        url: "https://api.example.com/items?key=k3y&page=2",
+        headers: {
+          Authorization: "Bearer t0ken",
+          "X-Custom": "c",
+          Cookie: "sid=abc; theme=dark",
+        },
+      },
+      ["key", "X-Custom"]
+    );
+    assert.equal(masked.url, "https://api.example.com/items?page=2&key=****");
+    assert.deepEqual(masked.headers, {
+      Authorization: "Bearer ****",
+      "X-Custom": "****",
+      Cookie: "sid=****; theme=****",
+    });
+  });
+
+  it("masks secret fields of JSON bodies at any depth", () => {
+    const request = {
+      method: "POST",
+      url: "https://api.example.com/login",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        username: "me",
+        author: "Jane",
+        password: "hunter2",
+        devices: [{ name: "phone", pushToken: "abc" }],
+        options: { clientSecret: { value: "s" } },
+      }),
+    };
+    const masked = maskPreparedRequest(request);
+    assert.deepEqual(JSON.parse(masked.body!), {
+      username: "me",
+      author: "Jane",
+      password: "****",
+      devices: [{ name: "phone", pushToken: "****" }],
+      options: { clientSecret: "****" },
+    });
+    assert.doesNotMatch(toCurl(masked), /hunter2/);
+  });
+
+  it("masks secret fields of form bodies", () => {
+    const masked = maskPreparedRequest({
+      method: "POST",
+      url: "https://api.example.com/token",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: "grant_type=password&username=me&password=p%40ss&client_secret=s",
+    });
+    assert.equal(
+      masked.body,
+      "grant_type=password&username=me&password=****&client_secret=****"
+    );
+  });
+
+  it("masks secret multipart fields but not files", () => {
+    const masked = maskPreparedRequest({
+      method: "POST",
+      url: "https://api.example.com/upload",
+      headers: {},
+      multipart: [
+        { name: "apiKey", value: "k3y" },
+        { name: "title", value: "Report" },
+        { name: "token", filename: "token.txt", path: "/tmp/token.txt" },
+      ],
+    });
+    assert.deepEqual(masked.multipart, [
+      { name: "apiKey", value: "****" },
+      { name: "title", value: "Report" },
+      { name: "token", filename: "token.txt", path: "/tmp/token.txt" },
+    ]);
+  });
+
+  it("leaves bodies without secrets as they were", () => {
+    const body = '{ "name": "widget" }';
+    const masked = maskPreparedRequest({
+      method: "POST",
+      url: "https://api.example.com/items",
+      headers: { "Content-Type": "application/json" },
+      body,
+    });
+    assert.equal(masked.body, body);
+  });
+});
+
+describe("maskSecretFields", () => {
+  it("masks extra secret names too", () => {
+    assert.deepEqual(
+      maskSecretFields({ body: { value: "v", note: "n" }, q: "x" }, ["value"]),
+      { body: { value: "****", note: "n" }, q: "x" }
+    );
+  });
+});
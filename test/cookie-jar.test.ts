@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CookieJar, mergeCookieHeaders } from "../src/utils/cookie-jar.js";
+
+describe("CookieJar", () => {
+  it("sends cookies back on matching paths, longest path first", () => {
+    const jar = new CookieJar();
+    jar.setCookies(
+      ["sid=abc; Path=/", "pref=compact; Path=/app"],
+      "https://api.example.com/app/login"
+    );
+    assert.equal(
+      jar.getCookieHeader("https://api.example.com/app/items"),
+      "pref=compact; sid=abc"
+    );
+    assert.equal(
+      jar.getCookieHeader("https://api.example.com/apple"),
+      "sid=abc"
+    );
+  });
+
+  it("defaults the path to the request's directory", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["sid=abc"], "https://api.example.com/v1/login");
+    assert.deepEqual(jar.list(), [
+      {
+        name: "sid",
+        domain: "api.example.com",
+        path: "/v1",
+        expires: undefined,
+      },
+    ]);
+    assert.equal(jar.getCookieHeader("https://api.example.com/v2"), undefined);
+  });
+
+  it("keeps host-only cookies off subdomains", () => {
+    const jar = new CookieJar();
+    jar.setCookies(
+      ["host=1; Path=/", "wide=2; Domain=.example.com; Path=/"],
+      "https://example.com/"
+    );
+    assert.equal(jar.getCookieHeader("https://example.com/"), "host=1; wide=2");
+    assert.equal(jar.getCookieHeader("https://api.example.com/"), "wide=2");
+  });
+
+  it("rejects cookies for domains the response did not come from", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["sid=abc; Domain=other.com"], "https://api.example.com/");
+    assert.equal(jar.size, 0);
+  });
+
+  it("sends secure cookies over https only", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["sid=abc; Path=/; Secure"], "https://api.example.com/");
+    assert.equal(jar.getCookieHeader("http://api.example.com/"), undefined);
+    assert.equal(jar.getCookieHeader("https://api.example.com/"), "sid=abc");
+  });
+
+  it("replaces and expires cookies", () => {
+    const jar = new CookieJar();
+    const url = "https://api.example.com/";
+    jar.setCookies(["sid=old; Path=/"], url);
+    jar.setCookies(["sid=new; Path=/"], url);
+    assert.equal(jar.getCookieHeader(url), "sid=new");
+    jar.setCookies(["sid=gone; Path=/; Max-Age=0"], url);
+    assert.equal(jar.getCookieHeader(url), undefined);
+    assert.equal(jar.size, 0);
+  });
+});
+
+describe("mergeCookieHeaders", () => {
+  it("lets the override win for the same name", () => {
+    assert.equal(
+      mergeCookieHeaders("sid=jar; theme=dark", "sid=explicit"),
+      "theme=dark; sid=explicit"
+    );
+    assert.equal(mergeCookieHeaders(undefined, "a=1"), "a=1");
+    assert.equal(mergeCookieHeaders("a=1", undefined), "a=1");
+  });
+});
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import type { AuthConfig } from "../src/types/index.js";
+import {
+  CredentialStore,
+  KEY_FILE_ENV,
+  PASSPHRASE_ENV,
+} from "../src/utils/credential-store.js";
+
+const BEARER: AuthConfig = { type: "bearer", config: { token: "t0ken" } };
+
+function configDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "credential-store-"));
+}
+
+describe("CredentialStore", () => {
+  it("encrypts with a generated key file", () => {
+    const dir = configDir();
+    new CredentialStore(dir, {}).save({ "s1/default": BEARER });
+
+    const storeFile = path.join(dir, "credentials.enc");
+    assert.doesNotMatch(fs.readFileSync(storeFile, "utf8"), /t0ken/);
+    assert.equal(fs.statSync(storeFile).mode & 0o777, 0o600);
+    assert.equal(
+      fs.statSync(path.join(dir, "credentials.key")).mode & 0o777,
+      0o600
+    );
+    assert.deepEqual(new CredentialStore(dir, {}).get("s1/default"), BEARER);
+  });
+
+  it("stays locked without the passphrase it was saved with", () => {
+    const dir = configDir();
+    new CredentialStore(dir, { [PASSPHRASE_ENV]: "right" }).save({
+      "s1/default": BEARER,
+    });
+
+    const reopened = new CredentialStore(dir, { [PASSPHRASE_ENV]: "right" });
+    assert.equal(reopened.locked, false);
+    assert.deepEqual(reopened.get("s1/default"), BEARER);
+
+    const wrong = new CredentialStore(dir, { [PASSPHRASE_ENV]: "wrong" });
+    assert.equal(wrong.locked, true);
+    assert.match(wrong.lockedMessage(), /cannot be decrypted/);
+    assert.equal(wrong.get("s1/default"), undefined);
+    assert.throws(() => wrong.save({}), /Credential store is locked/);
+  });
+
+  it("locks when the configured key file cannot be read", () => {
+    const store = new CredentialStore(configDir(), {
+      [KEY_FILE_ENV]: path.join(configDir(), "missing.key"),
+    });
+    assert.equal(store.locked, true);
+    assert.match(store.lockedMessage(), /missing\.key .* cannot be read/);
+  });
+});
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DigestChallenges,
+  digestAuthorization,
+  parseDigestChallenge,
+} from "../src/utils/digest-auth.js";
+
+const MUFASA_URL = "http://www.example.org/dir/index.html";
+
+// The response field of an Authorization header
+function response(authorization: string): string | undefined {
+  return authorization.match(/response="([0-9a-f]+)"/)?.[1];
+}
+
+describe("digestAuthorization", () => {
+  it("answers the RFC 2617 example", () => {
+    const authorization = digestAuthorization(
+      {
+        realm: "testrealm@host.com",
+        nonce: "dcd98b7102dd2f0e8b11d0f600bfb0c093",
+        opaque: "5ccc069c403ebaf9f0171e9517f40e41",
+        algorithm: "MD5",
+        qop: ["auth", "auth-int"],
+      },
+      { username: "Mufasa", password: "Circle Of Life" },
+      { method: "GET", url: MUFASA_URL, headers: {} },
+      1,
+      "0a4f113b"
+    );
+    assert.equal(response(authorization), "6629fae49393a05397450978507c4ef1");
+    assert.match(authorization, /qop=auth, nc=00000001, cnonce="0a4f113b"/);
+    assert.match(authorization, /opaque="5ccc069c403ebaf9f0171e9517f40e41"/);
+  });
+
+  for (const [algorithm, expected] of [
+    ["MD5", "8ca523f5e9506fed4657c9700eebdbec"],
+    [
+      "SHA-256",
+      "753927fa0e85d155564e2e272a28d1802ca10daf4496794697cf8db5856cb6c1",
+    ],
+  ]) {
+    it(`answers the RFC 7616 ${algorithm} example`, () => {
+      const authorization = digestAuthorization(
+        {
+          realm: "http-auth@example.org",
+          nonce: "7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v",
+          opaque: "FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS",
+          algorithm,
+          qop: ["auth", "auth-int"],
+        },
+        { username: "Mufasa", password: "Circle of Life" },
+        { method: "GET", url: MUFASA_URL, headers: {} },
+        1,
+        "f2/wE4q74E6zIJEtWaHKaf5wv/H5QzzpXusqGemxURZJ"
+      );
+      assert.equal(response(authorization), expected);
+    });
+  }
+});
+
+describe("parseDigestChallenge", () => {
+  it("finds the Digest challenge among several schemes", () => {
+    assert.deepEqual(
+      parseDigestChallenge(
+        'Basic realm="api", Digest realm="a \\"b\\"", qop="auth, auth-int", nonce="n1", algorithm=SHA-256'
+      ),
+      {
+        realm: 'a "b"',
+        nonce: "n1",
+        opaque: undefined,
+        algorithm: "SHA-256",
+        qop: ["auth", "auth-int"],
+      }
+    );
+  });
+
+  it("ignores headers without a Digest challenge", () => {
+    assert.equal(parseDigestChallenge('Basic realm="api"'), undefined);
+    assert.equal(parseDigestChallenge(undefined), undefined);
+  });
+});
+
+describe("DigestChallenges", () => {
+  it("answers an origin's challenge with a rising nonce count", () => {
+    const challenges = new DigestChallenges();
+    const request = { method: "GET", url: MUFASA_URL, headers: {} };
+    const credentials = { username: "Mufasa", password: "Circle Of Life" };
+    assert.equal(challenges.authorize(request, credentials), undefined);
+
+    assert.ok(
+      challenges.remember(
+        "http://www.example.org/other",
+        'Digest realm="testrealm@host.com", qop="auth", nonce="abc"'
+      )
+    );
+    assert.match(challenges.authorize(request, credentials)!, /nc=00000001/);
+    assert.match(challenges.authorize(request, credentials)!, /nc=00000002/);
+    assert.equal(
+      challenges.authorize(
+        { ...request, url: "http://elsewhere.example.org/" },
+        credentials
+      ),
+      undefined
+    );
+  });
+});
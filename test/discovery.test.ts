@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { OperationInfo } from "../src/types/index.js";
+import { OpenApiDiscovery } from "../src/utils/discovery.js";
+import {
+  schemaDialect,
+  validateRequest,
+} from "../src/utils/schema-validator.js";
+
+const SWAGGER2 = JSON.stringify({
+  swagger: "2.0",
+  info: { title: "Legacy", version: "1" },
+  host: "legacy.example.com",
+  basePath: "/v1",
+  schemes: ["https"],
+  paths: {
+    "/pets": {
+      get: {
+        operationId: "listPets",
+        parameters: [
+          {
+            name: "limit",
+            in: "query",
+            type: "integer",
+            minimum: 0,
+            exclusiveMinimum: true,
+            maximum: 100,
+            multipleOf: 5,
+          },
+          {
+            name: "name",
+            in: "query",
+            type: "string",
+            minLength: 2,
+            maxLength: 4,
+          },
+          {
+            name: "tags",
+            in: "query",
+            type: "array",
+            items: { type: "string" },
+            collectionFormat: "pipes",
+            minItems: 1,
+            maxItems: 2,
+            uniqueItems: true,
+          },
+        ],
+        responses: { "200": { description: "ok" } },
+      },
+      post: {
+        operationId: "createPet",
+        consumes: ["application/json", "application/xml"],
+        parameters: [
+          {
+            name: "pet",
+            in: "body",
+            required: true,
+            schema: {
+              type: "object",
+              properties: { name: { type: "string" } },
+            },
+          },
+        ],
+        responses: { "201": { description: "created" } },
+      },
+    },
+    "/pets/{id}/photo": {
+      put: {
+        operationId: "uploadPhoto",
+        parameters: [
+          { name: "id", in: "path", required: true, type: "string" },
+          { name: "caption", in: "formData", type: "string", maxLength: 10 },
+          { name: "file", in: "formData", required: true, type: "file" },
+        ],
+        responses: { "204": { description: "stored" } },
+      },
+    },
+  },
+});
+
+async function operations(): Promise<Record<string, OperationInfo>> {
+  const apiInfo = await new OpenApiDiscovery().parseOpenApiString(
+    SWAGGER2,
+    "legacy.json"
+  );
+  assert.ok(apiInfo);
+  return Object.fromEntries(
+    apiInfo.operations.map((operation) => [operation.operationId, operation])
+  );
+}
+
+describe("Swagger 2.0 discovery", () => {
+  it("maps body parameters onto the consumed media types", async () => {
+    const { createPet } = await operations();
+    assert.equal(createPet.parameters?.length, 0);
+    assert.equal(createPet.requestBody?.required, true);
+    assert.equal(createPet.requestBody?.contentType, "application/json");
+    assert.deepEqual(Object.keys(createPet.requestBody?.content ?? {}), [
+      "application/json",
+      "application/xml",
+    ]);
+  });
+
+  it("maps formData parameters with files onto a multipart body", async () => {
+    const { uploadPhoto } = await operations();
+    assert.deepEqual(
+      uploadPhoto.parameters?.map((param) => param.name),
+      ["id"]
+    );
+    const body = uploadPhoto.requestBody!;
+    assert.equal(body.contentType, "multipart/form-data");
+    assert.deepEqual(body.schema.required, ["file"]);
+    assert.deepEqual(body.schema.properties.file, {
+      type: "string",
+      format: "binary",
+      description: undefined,
+    });
+    assert.equal(body.schema.properties.caption.maxLength, 10);
+  });
+
+  it("keeps the validation keywords of plain parameters", async () => {
+    const { listPets } = await operations();
+    const [limit, name, tags] = listPets.parameters!;
+    assert.equal(tags.style, "pipeDelimited");
+    assert.equal(tags.explode, false);
+
+    const dialect = schemaDialect("2.0");
+    const valid = { limit: 5, name: "Tom", tags: ["a", "b"] };
+    assert.deepEqual(validateRequest(listPets, valid, undefined, dialect), []);
+    const invalid = { limit: 0, name: "Tommy", tags: ["a", "a"] };
+    assert.deepEqual(
+      validateRequest(listPets, invalid, undefined, dialect)
+        .map((issue) => issue.path)
+        .sort(),
+      [limit.name, name.name, tags.name]
+    );
+    assert.deepEqual(
+      validateRequest(listPets, { limit: 7 }, undefined, dialect).map(
+        (issue) => issue.path
+      ),
+      ["limit"]
+    );
+  });
+});
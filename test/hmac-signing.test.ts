@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkHmacConfig, signHmacRequest } from "../src/utils/hmac-signing.js";
+
+// Expected signatures computed independently with `openssl dgst -hmac`
+const NOW = new Date("2024-01-02T03:04:05Z");
+const ORDER = {
+  method: "POST",
+  url: "https://api.example.com/orders?id=7",
+  headers: { "Content-Type": "application/json" },
+  body: '{"a":1}',
+};
+
+describe("signHmacRequest", () => {
+  it("signs method, path, timestamp and body by default", () => {
+    assert.deepEqual(signHmacRequest(ORDER, { secret: "s3cr3t" }, NOW), {
+      "X-Timestamp": "1704164645",
+      "X-Signature":
+        "a6f625dd244a52a19e7a4d1bef0a83ff1817cefa00e17066cac10144d8c823d2",
+    });
+  });
+
+  it("follows a webhook-style template without a timestamp header", () => {
+    const headers = signHmacRequest(
+      ORDER,
+      {
+        secret: "whsec_test",
+        components: "timestamp,body",
+        separator: ".",
+        header: "Stripe-Signature",
+        template: "t={timestamp},v1={signature}",
+        timestampHeader: "",
+      },
+      NOW
+    );
+    assert.deepEqual(headers, {
+      "Stripe-Signature":
+        "t=1704164645,v1=b4b5f87ad8e1b12f88452c799088cbb9d8e76e0709eecdfdbadf40b743f93c35",
+    });
+  });
+
+  it("signs the key ID, nonce and request headers", () => {
+    const headers = signHmacRequest(
+      {
+        method: "get",
+        url: "https://api.example.com/v1/items",
+        headers: { "X-Request-Id": "req-1" },
+      },
+      {
+        secret: "k3y",
+        keyId: "partner-42",
+        algorithm: "sha512",
+        encoding: "base64",
+        components: "method,path,keyId,nonce,header:x-request-id",
+        separator: "|",
+        header: "Authorization",
+        template: "HMAC {keyId}:{nonce}:{signature}",
+        nonceHeader: "X-Nonce",
+      },
+      NOW,
+      "n0nce"
+    );
+    assert.equal(headers["X-Nonce"], "n0nce");
+    assert.equal(
+      headers["Authorization"],
+      "HMAC partner-42:n0nce:OfjxDLd0O1YDRS17dqdztcj1REHj1TbDKHGYguyM61/tqnPrUnrMnF56tp/aIizPvBWGCZEkW4t3aqjm/qKkrw=="
+    );
+  });
+});
+
+describe("checkHmacConfig", () => {
+  it("reports unknown components and a nonce without a header", () => {
+    assert.deepEqual(
+      checkHmacConfig({ secret: "x", components: "method,foo,nonce" }),
+      [
+        "unknown component 'foo' (use method, path, url, host, timestamp, nonce, body, bodyHash, keyId or header:Name)",
+        "nonceHeader is required to sign a nonce",
+      ]
+    );
+  });
+});
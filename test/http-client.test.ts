@@ -0,0 +1,214 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { AuthConfig, OperationInfo } from "../src/types/index.js";
+
+// The client loads saved sessions from the home directory
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), "http-client-"));
+const { ApiHttpClient } = await import("../src/utils/http-client.js");
+
+const OPERATION: OperationInfo = {
+  operationId: "getItems",
+  path: "/items",
+  method: "GET",
+};
+
+// Headers each server received, by path
+const received: Record<string, http.IncomingHttpHeaders> = {};
+let first: http.Server;
+let other: http.Server;
+let firstUrl: string;
+let otherUrl: string;
+
+// Cookies are not kept apart by port, so the servers differ in host name
+function listen(
+  host: string,
+  handler: (
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ) => void
+): Promise<[http.Server, string]> {
+  const server = http.createServer(handler);
+  return new Promise((resolve) =>
+    server.listen(0, host, () =>
+      resolve([
+        server,
+        `http://${host}:${(server.address() as AddressInfo).port}`,
+      ])
+    )
+  );
+}
+
+before(async () => {
+  [other, otherUrl] = await listen("127.0.0.1", (request, response) => {
+    received[`other${request.url}`] = request.headers;
+    response.setHeader("Content-Type", "application/json");
+    response.end("{}");
+  });
+  [first, firstUrl] = await listen("localhost", (request, response) => {
+    received[`first${request.url}`] = request.headers;
+    const targets: Record<string, string> = {
+      "/items": `${otherUrl}/landing`,
+      "/local": "/items-moved",
+    };
+    if (request.url! in targets) {
+      response.writeHead(302, {
+        Location: targets[request.url!],
+        "Set-Cookie": "sid=first; Path=/",
+      });
+      response.end();
+      return;
+    }
+    response.setHeader("Content-Type", "application/json");
+    response.end("{}");
+  });
+});
+
+after(() => {
+  first.close();
+  other.close();
+});
+
+const API_KEY: AuthConfig = {
+  type: "apiKey",
+  config: { in: "header", headerName: "X-API-Key", apiKey: "k3y" },
+};
+
+// Each credential type and the headers it adds
+const CREDENTIALS: [AuthConfig, string[]][] = [
+  [API_KEY, ["x-api-key"]],
+  [{ type: "bearer", config: { token: "t0ken" } }, ["authorization"]],
+  [
+    {
+      type: "apiKey",
+      config: { in: "cookie", name: "api_key", apiKey: "k3y" },
+    },
+    ["cookie"],
+  ],
+  [
+    { type: "hmac", config: { secret: "s3cr3t" } },
+    ["x-signature", "x-timestamp"],
+  ],
+  [
+    {
+      type: "sigv4",
+      config: {
+        accessKeyId: "AKIDEXAMPLE",
+        secretAccessKey: "secret",
+        region: "us-east-1",
+        service: "execute-api",
+        sessionToken: "session-token",
+      },
+    },
+    ["authorization", "x-amz-date", "x-amz-security-token"],
+  ],
+];
+
+describe("ApiHttpClient redirects", () => {
+  for (const [credential, names] of CREDENTIALS) {
+    for (const sessionKey of [undefined, "session"]) {
+      it(`drops ${credential.type} headers on another origin (${
+        sessionKey ? "with" : "without"
+      } cookies)`, async () => {
+        const result = await new ApiHttpClient().callOperation(
+          firstUrl,
+          OPERATION,
+          {},
+          credential,
+          { sessionKey }
+        );
+        assert.equal(result.success, true);
+        for (const name of names) {
+          assert.ok(received["first/items"][name], name);
+          assert.equal(received["other/landing"][name], undefined, name);
+        }
+      });
+    }
+  }
+
+  it("keeps credentials and cookies on the same origin", async () => {
+    const client = new ApiHttpClient();
+    const result = await client.callOperation(
+      firstUrl,
+      { ...OPERATION, path: "/local" },
+      {},
+      API_KEY,
+      { sessionKey: "same-origin" }
+    );
+    assert.equal(result.success, true);
+    assert.equal(received["first/items-moved"]["x-api-key"], "k3y");
+    assert.equal(received["first/items-moved"]["cookie"], "sid=first");
+  });
+});
+
+describe("ApiHttpClient network errors", () => {
+  it("masks query credentials in the error", async () => {
+    const closed = await listen("127.0.0.1", () => {});
+    closed[0].close();
+    const result = await new ApiHttpClient().callOperation(
+      closed[1],
+      OPERATION,
+      {},
+      {
+        type: "apiKey",
+        config: { in: "query", name: "api_key", apiKey: "k3y" },
+      },
+      { retry: { maxAttempts: 1 } }
+    );
+    assert.equal(result.success, false);
+    assert.match(result.error!, /api_key=\*\*\*\*/);
+    assert.doesNotMatch(result.error!, /k3y/);
+  });
+});
+
+describe("ApiHttpClient token renewal", () => {
+  it("requests one new token after a 401, not on every retry", async () => {
+    const statuses = [401, 503, 200];
+    let tokenRequests = 0;
+    const [server, url] = await listen("127.0.0.1", (request, response) => {
+      response.setHeader("Content-Type", "application/json");
+      if (request.url === "/token") {
+        tokenRequests++;
+        response.end(
+          JSON.stringify({
+            access_token: `t${tokenRequests}`,
+            expires_in: 3600,
+          })
+        );
+        return;
+      }
+      response.statusCode = statuses.shift()!;
+      response.end("{}");
+    });
+    try {
+      const result = await new ApiHttpClient().callOperation(
+        url,
+        OPERATION,
+        {},
+        {
+          type: "oauth2",
+          config: {
+            grantType: "client_credentials",
+            tokenUrl: `${url}/token`,
+            clientId: "renewal",
+            clientSecret: "s",
+          },
+        },
+        { retry: { maxAttempts: 3, baseDelayMs: 1 } }
+      );
+      assert.equal(result.success, true);
+      assert.deepEqual(
+        result.attempts?.map((attempt) => attempt.statusCode),
+        [401, 503, 200]
+      );
+      // The first token, then one renewal for the 401
+      assert.equal(tokenRequests, 2);
+    } finally {
+      server.close();
+    }
+  });
+});
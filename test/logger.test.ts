@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Logger, loggingOptionsFromEnv, redact } from "../src/utils/logger.js";
+
+// Lines the logger writes to stderr while `run` runs
+function captureStderr(run: () => void): string[] {
+  const lines: string[] = [];
+  const write = process.stderr.write;
+  process.stderr.write = ((chunk: string) => {
+    lines.push(chunk.trimEnd());
+    return true;
+  }) as typeof process.stderr.write;
+  try {
+    run();
+  } finally {
+    process.stderr.write = write;
+  }
+  return lines;
+}
+
+describe("redact", () => {
+  it("redacts secret fields, cookies and inline credentials", () => {
+    assert.deepEqual(
+      redact({
+        headers: {
+          Authorization: "Bearer t0ken",
+          Cookie: "sid=abc",
+          Accept: "application/json",
+        },
+        note: "sent Basic dXNlcjpwYXNz to the server",
+        items: [{ apiKey: "k3y", author: "Jane" }],
+      }),
+      {
+        headers: {
+          Authorization: "[REDACTED]",
+          Cookie: "[REDACTED]",
+          Accept: "application/json",
+        },
+        note: "sent Basic [REDACTED] to the server",
+        items: [{ apiKey: "[REDACTED]", author: "Jane" }],
+      }
+    );
+  });
+
+  it("redacts configured fields, errors and cycles", () => {
+    const data: Record<string, any> = { tenant: "acme", error: new Error("x") };
+    data.self = data;
+    const redacted = redact(data, new Set(["tenant"])) as Record<string, any>;
+    assert.equal(redacted.tenant, "[REDACTED]");
+    assert.equal(redacted.error.message, "x");
+    assert.equal(redacted.self, "[Circular]");
+  });
+});
+
+describe("Logger", () => {
+  it("writes entries at or above the level to stderr", () => {
+    const log = new Logger("test");
+    log.configure({ level: "warning", format: "json" });
+    const lines = captureStderr(() => {
+      log.child("child").info("hidden");
+      log.child("child").warning("Call failed", { token: "t0ken" });
+    });
+    assert.equal(lines.length, 1);
+    const entry = JSON.parse(lines[0]);
+    assert.equal(entry.level, "warning");
+    assert.equal(entry.logger, "test:child");
+    assert.equal(entry.message, "Call failed");
+    assert.deepEqual(entry.data, { token: "[REDACTED]" });
+  });
+
+  it("formats text lines", () => {
+    const log = new Logger("test");
+    log.configure({ level: "debug", format: "text" });
+    const [line] = captureStderr(() => log.debug("Fetching", "spec.yaml"));
+    assert.match(line, /^\S+Z DEBUG \[test\] Fetching spec\.yaml$/);
+  });
+});
+
+describe("loggingOptionsFromEnv", () => {
+  it("ignores unknown levels and formats", () => {
+    assert.deepEqual(
+      loggingOptionsFromEnv({
+        OPENAPI_CLIENT_MCP_LOG_LEVEL: "DEBUG",
+        OPENAPI_CLIENT_MCP_LOG_FORMAT: "xml",
+        OPENAPI_CLIENT_MCP_LOG_REDACT: "tenant,,account",
+      }),
+      {
+        level: "debug",
+        format: undefined,
+        file: undefined,
+        redactFields: ["tenant", "account"],
+      }
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import type {
+  ApiCallResult,
+  AuthConfig,
+  OperationInfo,
+} from "../src/types/index.js";
+import { maskPreparedRequest } from "../src/utils/code-snippets.js";
+import type { LoginCall } from "../src/utils/login-operation.js";
+
+// Security helpers load the sessions from the home directory
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), "login-"));
+const { LoginTokenManager } = await import("../src/utils/login-operation.js");
+const { apiKeyNames } = await import("../src/utils/security.js");
+
+const docsPath = path.join(process.env.HOME, "api.yaml");
+fs.writeFileSync(
+  docsPath,
+  `openapi: 3.0.0
+info: {title: Login API, version: "1"}
+paths:
+  /auth/login:
+    post:
+      operationId: login
+      requestBody:
+        content:
+          application/json:
+            schema: {type: object}
+      responses: {"200": {description: ok}}
+`
+);
+
+process.env.TEST_LOGIN_PIN = "1234";
+const LOGIN: AuthConfig = {
+  type: "login",
+  config: {
+    operationId: "login",
+    parameters: JSON.stringify({
+      body: { username: "me", pin: "${env:TEST_LOGIN_PIN}" },
+    }),
+    tokenPath: "data.token",
+    expiresInPath: "data.expires_in",
+    docsPath,
+  },
+};
+
+// A login call answering with `result`, counting the calls made
+function stubCall(result: Partial<ApiCallResult>): LoginCall & {
+  calls: Record<string, any>[];
+} {
+  const calls: Record<string, any>[] = [];
+  const call = async (_operation: OperationInfo, parameters: any) => {
+    calls.push(parameters);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    return { success: true, executionTime: 1, ...result } as ApiCallResult;
+  };
+  return Object.assign(call, { calls });
+}
+
+describe("LoginTokenManager", () => {
+  it("logs in once for concurrent calls, resolving references", async () => {
+    const logins = new LoginTokenManager();
+    const call = stubCall({
+      statusCode: 200,
+      data: { data: { token: "t0ken", expires_in: 3600 } },
+    });
+    const tokens = await Promise.all(
+      [1, 2, 3].map(() =>
+        logins.getToken(LOGIN, "https://api.example.com", call)
+      )
+    );
+    assert.deepEqual(tokens, ["t0ken", "t0ken", "t0ken"]);
+    assert.deepEqual(call.calls, [{ body: { username: "me", pin: "1234" } }]);
+    assert.equal(logins.status(LOGIN, "https://api.example.com").cached, true);
+  });
+
+  it("masks what was sent in a failed login's error", async () => {
+    const call = stubCall({
+      success: false,
+      statusCode: 401,
+      error: "HTTP 401: Unauthorized",
+      data: { error: "bad credentials", pin: "1234", sessionId: "s" },
+    });
+    await assert.rejects(
+      new LoginTokenManager().getToken(LOGIN, "https://api.example.com", call),
+      (error: Error) => {
+        assert.match(error.message, /^Login operation login failed: HTTP 401/);
+        assert.match(error.message, /"pin":"\*\*\*\*","sessionId":"\*\*\*\*"/);
+        return true;
+      }
+    );
+  });
+});
+
+describe("apiKeyNames", () => {
+  it("masks the login fields when the login operation is shown", () => {
+    const operation: OperationInfo = {
+      operationId: "login",
+      path: "/auth/login",
+      method: "POST",
+    };
+    const masked = maskPreparedRequest(
+      {
+        method: "POST",
+        url: "https://api.example.com/auth/login",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: "me", pin: "1234", remember: true }),
+      },
+      apiKeyNames(LOGIN, operation)
+    );
+    assert.deepEqual(JSON.parse(masked.body!), {
+      username: "****",
+      pin: "****",
+      remember: true,
+    });
+  });
+});
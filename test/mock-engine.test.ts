@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ApiInfo, OperationInfo } from "../src/types/index.js";
+import {
+  matchOperation,
+  mockOperationCall,
+  parsePreferHeader,
+  synthesizeResponse,
+} from "../src/utils/mock-engine.js";
+
+const GET_PET: OperationInfo = {
+  operationId: "getPet",
+  path: "/pets/{petId}",
+  method: "GET",
+  responses: {
+    "200": {
+      description: "The pet",
+      content: {
+        "application/xml": { example: "<pet/>" },
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              id: { type: "integer" },
+              name: { type: "string" },
+            },
+          },
+          examples: { tom: { id: 1, name: "Tom" } },
+        },
+      },
+    },
+    "4XX": {
+      description: "Not found",
+      content: {
+        "text/plain": { example: "no such pet" },
+        "application/json": { examples: { gone: { error: "gone" } } },
+      },
+    },
+  },
+};
+
+const API: ApiInfo = {
+  path: "/specs/pets.yaml",
+  title: "Pets",
+  version: "1",
+  servers: ["https://pets.example.com/api/v3"],
+  isRemote: false,
+  operations: [
+    GET_PET,
+    { operationId: "getMyPet", path: "/pets/mine", method: "GET" },
+  ],
+};
+
+describe("parsePreferHeader", () => {
+  it("reads the code and example preferences", () => {
+    assert.deepEqual(parsePreferHeader('code=404, example="gone"'), {
+      code: 404,
+      example: "gone",
+    });
+    assert.deepEqual(parsePreferHeader("code=abc; respond-async"), {});
+  });
+});
+
+describe("synthesizeResponse", () => {
+  it("prefers JSON and its first named example", () => {
+    assert.deepEqual(synthesizeResponse(GET_PET), {
+      statusCode: 200,
+      documentedAs: "200",
+      contentType: "application/json",
+      body: { id: 1, name: "Tom" },
+    });
+  });
+
+  it("answers a preferred code from a matching range", () => {
+    const mock = synthesizeResponse(GET_PET, { code: 404 });
+    assert.equal(mock.statusCode, 404);
+    assert.equal(mock.documentedAs, "4XX");
+    assert.deepEqual(mock.body, { error: "gone" });
+  });
+
+  it("lets a named example pick the media type", () => {
+    const mock = synthesizeResponse(
+      {
+        ...GET_PET,
+        responses: {
+          "200": {
+            description: "ok",
+            content: {
+              "application/json": { example: {} },
+              "text/csv": { examples: { csv: "id\n1" } },
+            },
+          },
+        },
+      },
+      { example: "csv" }
+    );
+    assert.equal(mock.contentType, "text/csv");
+    assert.equal(mock.body, "id\n1");
+  });
+
+  it("builds a body from the schema without examples", () => {
+    const mock = synthesizeResponse({
+      ...GET_PET,
+      responses: {
+        "201": {
+          description: "created",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: { id: { type: "integer" } },
+              },
+            },
+          },
+        },
+      },
+    });
+    assert.equal(mock.statusCode, 201);
+    assert.equal(typeof mock.body.id, "number");
+  });
+});
+
+describe("matchOperation", () => {
+  it("strips the server base path and prefers literal paths", () => {
+    assert.equal(
+      matchOperation(API, "get", "/api/v3/pets/mine")?.operation.operationId,
+      "getMyPet"
+    );
+    assert.deepEqual(matchOperation(API, "GET", "/pets/a%20b")?.pathParams, {
+      petId: "a b",
+    });
+    assert.equal(matchOperation(API, "DELETE", "/pets/1"), undefined);
+  });
+});
+
+describe("mockOperationCall", () => {
+  it("returns a failed result for error codes", () => {
+    const result = mockOperationCall(GET_PET, { code: 404 });
+    assert.equal(result.success, false);
+    assert.equal(result.error, "HTTP 404 (mock)");
+    assert.equal(result.headers?.["x-mock-response"], "4XX");
+  });
+});
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { MockServerInfo } from "../src/utils/mock-server.js";
+import { MockServerManager } from "../src/utils/mock-server.js";
+import { SpecCache } from "../src/utils/spec-cache.js";
+
+const docsPath = path.join(
+  fs.mkdtempSync(path.join(os.tmpdir(), "mock-server-")),
+  "pets.yaml"
+);
+fs.writeFileSync(
+  docsPath,
+  `openapi: 3.0.3
+info: {title: Pets, version: "1"}
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      parameters:
+        - {name: tags, in: query, explode: false, schema: {type: array, items: {type: string, enum: [a, b]}}}
+        - {name: ids, in: query, style: pipeDelimited, explode: false, schema: {type: array, items: {type: integer}}}
+        - {name: filter, in: query, style: deepObject, schema: {type: object, properties: {kind: {type: string, enum: [cat, dog]}}}}
+        - {name: tenant, in: cookie, required: true, schema: {type: string, minLength: 2}}
+      responses:
+        "200":
+          description: ok
+          content:
+            application/json:
+              example: [{id: 1, name: Tom}]
+    post:
+      operationId: uploadPet
+      requestBody:
+        required: true
+        content:
+          multipart/form-data:
+            schema:
+              type: object
+              required: [name, photo]
+              properties:
+                name: {type: string, maxLength: 5}
+                age: {type: integer}
+                photo: {type: string, format: binary}
+      responses:
+        "201": {description: created}
+`
+);
+
+const servers = new MockServerManager();
+let mock: MockServerInfo;
+
+before(async () => {
+  const apiInfo = await new SpecCache().getApiInfo(docsPath);
+  mock = await servers.start(docsPath, apiInfo!, 0);
+});
+
+after(() => servers.stopAll());
+
+async function issues(response: Response): Promise<string[]> {
+  if (response.status !== 400) return [];
+  const { issues } = (await response.json()) as {
+    issues: { path: string }[];
+  };
+  return issues.map((issue) => issue.path);
+}
+
+describe("MockServerManager", () => {
+  it("answers with the documented example", async () => {
+    const response = await fetch(`${mock.url}/pets`, {
+      headers: { Cookie: "tenant=acme" },
+    });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("x-mock-operation"), "listPets");
+    assert.deepEqual(await response.json(), [{ id: 1, name: "Tom" }]);
+  });
+
+  it("reads cookie parameters", async () => {
+    const missing = await fetch(`${mock.url}/pets`);
+    assert.deepEqual(await issues(missing), ["tenant"]);
+    const short = await fetch(`${mock.url}/pets`, {
+      headers: { Cookie: "theme=dark; tenant=x" },
+    });
+    assert.deepEqual(await issues(short), ["tenant"]);
+  });
+
+  it("reads query parameters by style and explode", async () => {
+    const valid = await fetch(
+      `${mock.url}/pets?tags=a,b&ids=1|2&filter[kind]=cat`,
+      { headers: { Cookie: "tenant=acme" } }
+    );
+    assert.equal(valid.status, 200);
+
+    const invalid = await fetch(
+      `${mock.url}/pets?tags=a,c&ids=1|x&filter[kind]=cow`,
+      { headers: { Cookie: "tenant=acme" } }
+    );
+    assert.deepEqual((await issues(invalid)).sort(), [
+      "filter.kind",
+      "ids[1]",
+      "tags[1]",
+    ]);
+  });
+
+  it("validates multipart bodies field by field", async () => {
+    const form = new FormData();
+    form.append("name", "Tom");
+    form.append("age", "3");
+    form.append("photo", new Blob(["..."]), "tom.png");
+    const created = await fetch(`${mock.url}/pets`, {
+      method: "POST",
+      body: form,
+    });
+    assert.equal(created.status, 201);
+
+    const invalid = new FormData();
+    invalid.append("name", "Tommy Lee");
+    const rejected = await fetch(`${mock.url}/pets`, {
+      method: "POST",
+      body: invalid,
+    });
+    assert.deepEqual((await issues(rejected)).sort(), [
+      "body.name",
+      "body.photo",
+    ]);
+  });
+
+  it("answers 404 for unknown paths", async () => {
+    const response = await fetch(`${mock.url}/owners`);
+    assert.equal(response.status, 404);
+  });
+});
@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import * as crypto from "node:crypto";
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { AuthConfig } from "../src/types/index.js";
+
+// Tokens are saved with the sessions in the home directory
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), "oauth2-login-"));
+const { oauth2Logins } = await import("../src/utils/oauth2-login.js");
+const { oauth2Tokens } = await import("../src/utils/oauth2.js");
+
+// Stand-in authorization server: /authorize redirects straight back with a
+// code (or the error asked for with ?deny), /token checks the PKCE verifier
+// against the challenge the code was issued for
+const codes = new Map<string, { challenge: string; redirectUri: string }>();
+const tokenRequests: URLSearchParams[] = [];
+let server: http.Server;
+let issuer: string;
+
+function handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+  const url = new URL(req.url ?? "/", issuer);
+  if (url.pathname === "/authorize") {
+    const redirect = new URL(url.searchParams.get("redirect_uri")!);
+    redirect.searchParams.set("state", url.searchParams.get("state")!);
+    if (url.searchParams.has("deny")) {
+      redirect.searchParams.set("error", "access_denied");
+      redirect.searchParams.set("error_description", "User said no");
+    } else {
+      const code = crypto.randomBytes(8).toString("hex");
+      codes.set(code, {
+        challenge: url.searchParams.get("code_challenge")!,
+        redirectUri: redirect.origin + redirect.pathname,
+      });
+      redirect.searchParams.set("code", code);
+    }
+    res.writeHead(302, { Location: redirect.toString() });
+    res.end();
+    return;
+  }
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const params = new URLSearchParams(body);
+    tokenRequests.push(params);
+    const issued = codes.get(params.get("code") ?? "");
+    const challenge = crypto
+      .createHash("sha256")
+      .update(params.get("code_verifier") ?? "")
+      .digest("base64url");
+    res.setHeader("Content-Type", "application/json");
+    if (
+      !issued ||
+      issued.challenge !== challenge ||
+      issued.redirectUri !== params.get("redirect_uri")
+    ) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: "invalid_grant" }));
+      return;
+    }
+    res.end(
+      JSON.stringify({
+        access_token: "access-1",
+        refresh_token: "refresh-1",
+        expires_in: 3600,
+      })
+    );
+  });
+}
+
+before(async () => {
+  server = http.createServer(handle);
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => server.close());
+
+function credential(config: Record<string, string> = {}): AuthConfig {
+  return {
+    type: "oauth2",
+    config: {
+      grantType: "authorization_code",
+      clientId: "cli",
+      authorizationUrl: `${issuer}/authorize`,
+      tokenUrl: `${issuer}/token`,
+      scopes: "read,write",
+      ...config,
+    },
+  };
+}
+
+// A free port for the loopback listener
+async function freePort(): Promise<number> {
+  const probe = http.createServer();
+  await new Promise<void>((resolve) => probe.listen(0, "127.0.0.1", resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+describe("AuthorizationCodeLogins", () => {
+  it("logs in with PKCE through the loopback redirect", async () => {
+    const stored = credential();
+    const login = await oauth2Logins.start(stored);
+    const authorizationUrl = new URL(login.authorizationUrl);
+    assert.equal(authorizationUrl.searchParams.get("client_id"), "cli");
+    assert.equal(authorizationUrl.searchParams.get("scope"), "read write");
+    assert.equal(
+      authorizationUrl.searchParams.get("code_challenge_method"),
+      "S256"
+    );
+
+    // The browser follows the redirect back to the listener
+    const page = await fetch(login.authorizationUrl);
+    assert.equal(page.status, 200);
+    assert.match(await page.text(), /Login complete/);
+    await login.done;
+
+    assert.equal(stored.config.accessToken, "access-1");
+    assert.equal(stored.config.refreshToken, "refresh-1");
+    assert.equal(
+      tokenRequests.at(-1)?.get("grant_type"),
+      "authorization_code"
+    );
+    assert.equal(tokenRequests.at(-1)?.get("client_id"), "cli");
+  });
+
+  it("resolves secret references before sending the user off", async () => {
+    process.env.TEST_OAUTH2_ISSUER = issuer;
+    process.env.TEST_OAUTH2_CLIENT = "cli-from-env";
+    const stored = credential({
+      clientId: "${env:TEST_OAUTH2_CLIENT}",
+      authorizationUrl: "${env:TEST_OAUTH2_ISSUER}/authorize",
+      tokenUrl: "${env:TEST_OAUTH2_ISSUER}/token",
+      audience: "${env:TEST_OAUTH2_CLIENT}",
+    });
+    const login = await oauth2Logins.start(stored);
+    const authorizationUrl = new URL(login.authorizationUrl);
+    assert.equal(authorizationUrl.origin, issuer);
+    assert.equal(
+      authorizationUrl.searchParams.get("client_id"),
+      "cli-from-env"
+    );
+    assert.equal(
+      authorizationUrl.searchParams.get("audience"),
+      "cli-from-env"
+    );
+
+    // Token lookups wait for the login in progress
+    const token = oauth2Tokens.getAccessToken(stored);
+    await fetch(login.authorizationUrl);
+    assert.equal(await token, "access-1");
+    assert.equal(stored.config.clientId, "${env:TEST_OAUTH2_CLIENT}");
+  });
+
+  it("fails when the authorization server denies the login", async () => {
+    const login = await oauth2Logins.start(
+      credential({ authorizationUrl: `${issuer}/authorize?deny=1` })
+    );
+    const page = await fetch(login.authorizationUrl);
+    assert.equal(page.status, 400);
+    await assert.rejects(login.done, /access_denied: User said no/);
+  });
+
+  it("ignores redirects with another state", async () => {
+    const login = await oauth2Logins.start(credential({ clientId: "other" }));
+    const forged = new URL(login.redirectUri);
+    forged.searchParams.set("code", "forged");
+    forged.searchParams.set("state", "wrong");
+    assert.equal((await fetch(forged)).status, 400);
+
+    await fetch(login.authorizationUrl);
+    await login.done;
+  });
+
+  it("rejects an invalid authorizationUrl before listening", async () => {
+    const redirectPort = String(await freePort());
+    await assert.rejects(
+      oauth2Logins.start(
+        credential({ authorizationUrl: "not a url", redirectPort })
+      ),
+      /authorizationUrl is not a valid URL/
+    );
+
+    // The port is still free for the next attempt
+    const login = await oauth2Logins.start(credential({ redirectPort }));
+    assert.equal(new URL(login.redirectUri).port, redirectPort);
+    await fetch(login.authorizationUrl);
+    await login.done;
+  });
+});
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { AuthConfig } from "../src/types/index.js";
+
+// Tokens are saved with the sessions in the home directory
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), "oauth2-"));
+const { OAuth2TokenManager } = await import("../src/utils/oauth2.js");
+
+// Token endpoint issuing numbered tokens; client "bad" is refused
+const tokenRequests: { authorization?: string; body: URLSearchParams }[] = [];
+let server: http.Server;
+let tokenUrl: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const params = new URLSearchParams(body);
+      tokenRequests.push({
+        authorization: req.headers.authorization,
+        body: params,
+      });
+      res.setHeader("Content-Type", "application/json");
+      if (params.get("client_id") === "bad") {
+        res.statusCode = 401;
+        res.end(
+          JSON.stringify({
+            error: "invalid_client",
+            error_description: "Unknown client",
+          })
+        );
+        return;
+      }
+      // Slow enough for concurrent calls to overlap
+      setTimeout(
+        () =>
+          res.end(
+            JSON.stringify({
+              access_token: `token-${tokenRequests.length}`,
+              expires_in: 3600,
+            })
+          ),
+        10
+      );
+    });
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`;
+});
+
+after(() => server.close());
+
+function credential(config: Record<string, string> = {}): AuthConfig {
+  return {
+    type: "oauth2",
+    config: {
+      grantType: "client_credentials",
+      tokenUrl,
+      clientId: "cli",
+      clientSecret: "s3cret",
+      scopes: "read, write",
+      ...config,
+    },
+  };
+}
+
+describe("OAuth2TokenManager client credentials", () => {
+  it("requests one token for concurrent calls and caches it", async () => {
+    const tokens = new OAuth2TokenManager();
+    const stored = credential();
+    const first = tokenRequests.length;
+    const issued = await Promise.all(
+      [1, 2, 3].map(() => tokens.getAccessToken(stored))
+    );
+    assert.equal(new Set(issued).size, 1);
+    assert.equal(await tokens.getAccessToken(stored), issued[0]);
+    assert.equal(tokenRequests.length, first + 1);
+    assert.equal(tokens.status(stored).cached, true);
+
+    const { authorization, body } = tokenRequests.at(-1)!;
+    assert.equal(
+      authorization,
+      `Basic ${Buffer.from("cli:s3cret").toString("base64")}`
+    );
+    assert.equal(body.get("grant_type"), "client_credentials");
+    assert.equal(body.get("scope"), "read write");
+  });
+
+  it("requests a new token when forced", async () => {
+    const tokens = new OAuth2TokenManager();
+    const stored = credential({ clientId: "forced" });
+    const cached = await tokens.getAccessToken(stored);
+    assert.notEqual(await tokens.getAccessToken(stored, true), cached);
+  });
+
+  it("sends the client in the body when asked", async () => {
+    await new OAuth2TokenManager().getAccessToken(
+      credential({ clientId: "form", clientAuth: "body" })
+    );
+    const { authorization, body } = tokenRequests.at(-1)!;
+    assert.equal(authorization, undefined);
+    assert.equal(body.get("client_id"), "form");
+    assert.equal(body.get("client_secret"), "s3cret");
+  });
+
+  it("reports the token endpoint's error", async () => {
+    await assert.rejects(
+      new OAuth2TokenManager().getAccessToken(
+        credential({ clientId: "bad", clientAuth: "body" })
+      ),
+      /failed: HTTP 401 - invalid_client: Unknown client/
+    );
+  });
+
+  it("fills in tokens only for the credentials in use", async () => {
+    const tokens = new OAuth2TokenManager();
+    const authConfig: AuthConfig = {
+      ...credential({ clientId: "used" }),
+      schemes: { Other: credential({ clientId: "unused" }) },
+    };
+    const preview = await tokens.withAccessTokens(authConfig, [authConfig], {
+      fetch: false,
+    });
+    assert.equal(preview.config.accessToken, "TOKEN_FETCHED_ON_SEND");
+
+    const resolved = await tokens.withAccessTokens(authConfig, [authConfig], {
+      fetch: true,
+    });
+    assert.match(resolved.config.accessToken, /^token-/);
+    assert.equal(resolved.schemes?.Other.config.accessToken, undefined);
+    assert.equal(authConfig.config.accessToken, undefined);
+  });
+});
@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type {
+  ApiCallResult,
+  OperationInfo,
+  PaginationOptions,
+} from "../src/types/index.js";
+import type { ApiHttpClient } from "../src/utils/http-client.js";
+import { fetchAllPages, getByPath } from "../src/utils/paginator.js";
+
+function operation(...query: string[]): OperationInfo {
+  return {
+    operationId: "listItems",
+    path: "/items",
+    method: "GET",
+    parameters: query.map((name) => ({
+      name,
+      in: "query" as const,
+      required: false,
+      schema: { type: "string" },
+    })),
+  };
+}
+
+// A client answering from `pages`, recording the parameters and URL of each
+// call
+function stubClient(
+  pages: (
+    parameters: Record<string, any>,
+    url: string | undefined
+  ) => Partial<ApiCallResult>
+) {
+  const calls: { parameters: Record<string, any>; url?: string }[] = [];
+  const client = {
+    async callOperation(
+      _baseUrl: string,
+      _operation: OperationInfo,
+      parameters: Record<string, any>,
+      _authConfig: unknown,
+      options: { urlOverride?: string }
+    ): Promise<ApiCallResult> {
+      calls.push({ parameters, url: options.urlOverride });
+      return {
+        success: true,
+        statusCode: 200,
+        executionTime: 1,
+        url: "https://api.example.com/items",
+        ...pages(parameters, options.urlOverride),
+      };
+    },
+  };
+  return { client: client as unknown as ApiHttpClient, calls };
+}
+
+function fetchPages(
+  client: ApiHttpClient,
+  op: OperationInfo,
+  parameters: Record<string, any>,
+  options: PaginationOptions = {}
+): Promise<ApiCallResult> {
+  return fetchAllPages(
+    client,
+    "https://api.example.com",
+    op,
+    parameters,
+    undefined,
+    {},
+    options
+  );
+}
+
+describe("fetchAllPages", () => {
+  it("follows Link rel=next headers", async () => {
+    const { client, calls } = stubClient((_parameters, url) =>
+      url?.endsWith("page=2")
+        ? { data: [3] }
+        : {
+            data: [1, 2],
+            headers: { link: '</items?page=2>; rel="next"' },
+          }
+    );
+    const result = await fetchPages(client, operation(), {});
+    assert.deepEqual(result.data, [1, 2, 3]);
+    assert.equal(calls[1].url, "https://api.example.com/items?page=2");
+    assert.equal(result.pagination?.strategy, "link");
+    assert.equal(result.pagination?.stopReason, 'no Link rel="next" header');
+  });
+
+  it("sends the next cursor back in the cursor parameter", async () => {
+    const { client, calls } = stubClient((parameters) =>
+      parameters.cursor
+        ? { data: { items: [{ id: 3 }], meta: { next_cursor: null } } }
+        : {
+            data: {
+              items: [{ id: 1 }, { id: 2 }],
+              meta: { next_cursor: "c2" },
+            },
+          }
+    );
+    const result = await fetchPages(client, operation("cursor"), {});
+    assert.deepEqual(result.data, [{ id: 1 }, { id: 2 }, { id: 3 }]);
+    assert.deepEqual(calls[1].parameters, { cursor: "c2" });
+    assert.equal(result.pagination?.pages, 2);
+  });
+
+  it("stops offset paging at a page that is not full", async () => {
+    const { client, calls } = stubClient((parameters) => ({
+      data: parameters.offset ? [3] : [1, 2],
+    }));
+    const result = await fetchPages(client, operation("offset", "limit"), {
+      limit: 2,
+    });
+    assert.deepEqual(result.data, [1, 2, 3]);
+    assert.deepEqual(calls[1].parameters, { limit: 2, offset: 2 });
+    assert.equal(result.pagination?.strategy, "offset");
+    assert.equal(result.pagination?.stopReason, "last page was not full");
+  });
+
+  it("stops page paging at the reported last page", async () => {
+    const { client } = stubClient((parameters) => ({
+      data: { results: [parameters.page ?? 1], total_pages: 2 },
+    }));
+    const result = await fetchPages(client, operation("page"), {});
+    assert.deepEqual(result.data, [1, 2]);
+    assert.equal(result.pagination?.stopReason, "reached the last page");
+  });
+
+  it("truncates to max_items and caps the pages", async () => {
+    const { client } = stubClient((parameters) => ({
+      data: [1, 2, 3].map((item) => item + (parameters.page ?? 1) * 10),
+    }));
+    const limited = await fetchPages(client, operation("page"), {}, {
+      maxItems: 4,
+    });
+    assert.deepEqual(limited.data, [11, 12, 13, 21]);
+    assert.equal(limited.pagination?.truncated, true);
+
+    const capped = await fetchPages(client, operation("page"), {}, {
+      maxPages: 3,
+    });
+    assert.equal(capped.pagination?.pages, 3);
+    assert.equal(capped.pagination?.stopReason, "reached max_pages (3)");
+  });
+
+  it("stops when the next page repeats a previous one", async () => {
+    const { client } = stubClient(() => ({
+      data: { items: [1], next: "same" },
+    }));
+    const result = await fetchPages(client, operation("cursor"), {});
+    assert.equal(result.pagination?.pages, 2);
+    assert.equal(
+      result.pagination?.stopReason,
+      "next page repeats a previous page"
+    );
+  });
+
+  it("returns the raw page when there is no items array", async () => {
+    const { client } = stubClient(() => ({ data: { total: 0 } }));
+    const result = await fetchPages(client, operation(), {});
+    assert.deepEqual(result.data, { total: 0 });
+    assert.match(result.pagination!.stopReason, /set items_path/);
+  });
+});
+
+describe("getByPath", () => {
+  it("reads dotted paths and tolerates missing levels", () => {
+    assert.equal(getByPath({ a: { b: [5] } }, "a.b.0"), 5);
+    assert.equal(getByPath({ a: null }, "a.b"), undefined);
+  });
+});
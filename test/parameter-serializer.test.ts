@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ParameterInfo } from "../src/types/index.js";
+import {
+  serializeCookieParameter,
+  serializeHeaderParameter,
+  serializePathParameter,
+  serializeQueryParameter,
+} from "../src/utils/parameter-serializer.js";
+
+function param(
+  location: ParameterInfo["in"],
+  options: Partial<ParameterInfo> = {}
+): ParameterInfo {
+  return { name: "id", in: location, required: false, schema: {}, ...options };
+}
+
+const LIST = [3, 4, 5];
+const POINT = { role: "admin", name: "Al ex" };
+
+describe("serializePathParameter", () => {
+  it("follows the simple, label and matrix styles", () => {
+    const cases: [Partial<ParameterInfo>, any, string][] = [
+      [{}, LIST, "3,4,5"],
+      [{}, POINT, "role,admin,name,Al%20ex"],
+      [{ explode: true }, POINT, "role=admin,name=Al%20ex"],
+      [{ style: "label" }, LIST, ".3,4,5"],
+      [{ style: "label", explode: true }, LIST, ".3.4.5"],
+      [{ style: "matrix" }, 5, ";id=5"],
+      [{ style: "matrix" }, LIST, ";id=3,4,5"],
+      [{ style: "matrix", explode: true }, LIST, ";id=3;id=4;id=5"],
+      [{ style: "matrix", explode: true }, POINT, ";role=admin;name=Al%20ex"],
+    ];
+    for (const [options, value, expected] of cases) {
+      assert.equal(
+        serializePathParameter(param("path", options), value),
+        expected,
+        JSON.stringify(options)
+      );
+    }
+  });
+
+  it("encodes reserved characters", () => {
+    assert.equal(serializePathParameter(param("path"), "a/b?c"), "a%2Fb%3Fc");
+  });
+});
+
+describe("serializeQueryParameter", () => {
+  it("explodes form arrays and objects by default", () => {
+    assert.deepEqual(serializeQueryParameter(param("query"), LIST), [
+      "id=3",
+      "id=4",
+      "id=5",
+    ]);
+    assert.deepEqual(serializeQueryParameter(param("query"), POINT), [
+      "role=admin",
+      "name=Al%20ex",
+    ]);
+  });
+
+  it("joins arrays with the style's delimiter without explode", () => {
+    const cases: [string, string][] = [
+      ["form", "id=3,4,5"],
+      ["spaceDelimited", "id=3%204%205"],
+      ["pipeDelimited", "id=3|4|5"],
+    ];
+    for (const [style, expected] of cases) {
+      const delimited = param("query", { style, explode: false });
+      assert.deepEqual(serializeQueryParameter(delimited, LIST), [expected]);
+    }
+  });
+
+  it("nests deepObject values", () => {
+    const filter = param("query", { name: "filter", style: "deepObject" });
+    assert.deepEqual(
+      serializeQueryParameter(filter, {
+        owner: { name: "Al" },
+        tags: ["a", "b"],
+      }),
+      ["filter[owner][name]=Al", "filter[tags]=a", "filter[tags]=b"]
+    );
+  });
+
+  it("keeps reserved characters when allowed", () => {
+    const allowed = param("query", { name: "path", allowReserved: true });
+    assert.deepEqual(serializeQueryParameter(allowed, "/a/b?c"), [
+      "path=/a/b?c",
+    ]);
+    assert.deepEqual(serializeQueryParameter(param("query"), "/a b"), [
+      "id=%2Fa%20b",
+    ]);
+  });
+
+  it("sends content parameters as JSON", () => {
+    const content = param("query", {
+      name: "where",
+      contentType: "application/json",
+    });
+    assert.deepEqual(serializeQueryParameter(content, { a: 1 }), [
+      "where=%7B%22a%22%3A1%7D",
+    ]);
+  });
+});
+
+describe("serializeHeaderParameter", () => {
+  it("uses the simple style", () => {
+    assert.equal(serializeHeaderParameter(param("header"), LIST), "3,4,5");
+    assert.equal(
+      serializeHeaderParameter(param("header", { explode: true }), POINT),
+      "role=admin,name=Al ex"
+    );
+  });
+});
+
+describe("serializeCookieParameter", () => {
+  it("uses the form style", () => {
+    assert.deepEqual(
+      serializeCookieParameter(param("cookie", { explode: false }), LIST),
+      ["id=3,4,5"]
+    );
+    assert.deepEqual(serializeCookieParameter(param("cookie"), "a b"), [
+      "id=a%20b",
+    ]);
+  });
+});
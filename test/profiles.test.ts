@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import type { AuthConfig } from "../src/types/index.js";
+
+// Sessions and their credentials are kept in the home directory
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), "profiles-"));
+const { SessionManager } = await import("../src/utils/session-manager.js");
+const { ApiHttpClient, NO_AUTH_PROFILE, profileSessionKey } = await import(
+  "../src/utils/http-client.js"
+);
+
+const ADMIN: AuthConfig = { type: "bearer", config: { token: "admin-t0ken" } };
+const READER: AuthConfig = {
+  type: "bearer",
+  config: { token: "reader-t0ken" },
+};
+
+describe("SessionManager profiles", () => {
+  it("keeps profiles in the store and the default as authConfig", () => {
+    const sessions = new SessionManager();
+    const session = sessions.createSession("https://api.example.com");
+    sessions.setAuthProfile(session.id, "admin", ADMIN);
+    sessions.setAuthProfile(session.id, "reader", READER);
+    assert.equal(sessions.getSession(session.id)?.defaultAuthProfile, "admin");
+
+    const written = fs.readFileSync(
+      path.join(process.env.HOME!, ".openapi-client-mcp", "sessions.json"),
+      "utf8"
+    );
+    assert.doesNotMatch(written, /t0ken/);
+
+    const reloaded = new SessionManager().getSession(session.id)!;
+    assert.deepEqual(Object.keys(reloaded.authProfiles ?? {}).sort(), [
+      "admin",
+      "reader",
+    ]);
+    // One object, so tokens stored into the default reach both
+    assert.equal(reloaded.authConfig, reloaded.authProfiles?.admin);
+    assert.deepEqual(reloaded.authConfig, ADMIN);
+  });
+
+  it("switches the default when asked to", () => {
+    const sessions = new SessionManager();
+    const session = sessions.createSession("https://switch.example.com");
+    sessions.setAuthProfile(session.id, "admin", ADMIN);
+    sessions.setAuthProfile(session.id, "reader", READER, true);
+    const reloaded = new SessionManager().getSession(session.id)!;
+    assert.equal(reloaded.defaultAuthProfile, "reader");
+    assert.deepEqual(reloaded.authConfig, READER);
+  });
+});
+
+describe("ApiHttpClient profiles", () => {
+  it("looks credentials up by profile", () => {
+    const client = new ApiHttpClient();
+    const source = "/specs/profiles.yaml";
+    client.setAuthProfile(source, "admin", ADMIN);
+    client.setAuthProfile(source, "reader", READER);
+    assert.equal(client.getAuthConfig(source), ADMIN);
+    assert.equal(client.getAuthConfig(source, "reader"), READER);
+    assert.equal(client.getAuthConfig(source, NO_AUTH_PROFILE), undefined);
+
+    // Replacing the credentials replaces the default profile
+    const renewed: AuthConfig = { type: "bearer", config: { token: "new" } };
+    client.setAuthConfig(source, renewed);
+    assert.equal(client.listAuthProfiles(source).admin, renewed);
+  });
+
+  it("keeps cookies apart per profile", () => {
+    assert.equal(profileSessionKey("s1"), "s1");
+    assert.equal(profileSessionKey("s1", "reader"), "s1#reader");
+  });
+});
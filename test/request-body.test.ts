@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { FormData } from "node-fetch";
+import type { RequestBodyInfo } from "../src/types/index.js";
+import {
+  describeSerializedBody,
+  extractBodyData,
+  resolveRequestContentType,
+  serializeRequestBody,
+} from "../src/utils/request-body.js";
+
+const PET_SCHEMA = {
+  type: "object",
+  xml: { name: "Pet" },
+  properties: {
+    id: { type: "integer", xml: { attribute: true } },
+    name: { type: "string" },
+    tags: {
+      type: "array",
+      xml: { wrapped: true },
+      items: { type: "string", xml: { name: "tag" } },
+    },
+  },
+};
+
+const BODY: RequestBodyInfo = {
+  required: true,
+  contentType: "application/json",
+  schema: PET_SCHEMA,
+  content: {
+    "application/json": { schema: PET_SCHEMA },
+    "application/x-www-form-urlencoded": { schema: PET_SCHEMA },
+    "text/*": { schema: { type: "string" } },
+  },
+};
+
+describe("resolveRequestContentType", () => {
+  it("defaults to the preferred media type", () => {
+    assert.equal(
+      resolveRequestContentType(BODY)?.contentType,
+      "application/json"
+    );
+  });
+
+  it("matches declared types and wildcard ranges", () => {
+    const form = resolveRequestContentType(
+      BODY,
+      "application/x-www-form-urlencoded; charset=utf-8"
+    );
+    assert.equal(form?.media.schema, PET_SCHEMA);
+    const text = resolveRequestContentType(BODY, "text/csv");
+    assert.equal(text?.contentType, "text/csv");
+    assert.deepEqual(text?.media.schema, { type: "string" });
+    assert.equal(resolveRequestContentType(BODY, "application/xml"), undefined);
+  });
+});
+
+describe("extractBodyData", () => {
+  it("takes `body` as is", () => {
+    assert.deepEqual(extractBodyData(BODY, { body: [1], name: "x" }), [1]);
+  });
+
+  it("collects body_* keys", () => {
+    assert.deepEqual(extractBodyData(BODY, { body_name: "Tom", q: "x" }), {
+      name: "Tom",
+    });
+  });
+
+  it("collects schema properties for form bodies only", () => {
+    const parameters = { name: "Tom", q: "x" };
+    assert.equal(extractBodyData(BODY, parameters), undefined);
+    assert.deepEqual(
+      extractBodyData(BODY, parameters, "application/x-www-form-urlencoded"),
+      { name: "Tom" }
+    );
+  });
+});
+
+describe("serializeRequestBody", () => {
+  const pet = { id: 7, name: "Tom & Jerry", tags: ["cat", "mouse"] };
+
+  it("serializes JSON, including +json types", async () => {
+    assert.equal(
+      await serializeRequestBody(pet, "application/merge-patch+json"),
+      JSON.stringify(pet)
+    );
+  });
+
+  it("serializes form bodies with repeated keys for arrays", async () => {
+    const body = await serializeRequestBody(
+      pet,
+      "application/x-www-form-urlencoded"
+    );
+    assert.equal(
+      body.toString(),
+      "id=7&name=Tom+%26+Jerry&tags=cat&tags=mouse"
+    );
+  });
+
+  it("serializes XML following the schema's xml object", async () => {
+    assert.equal(
+      await serializeRequestBody(pet, "application/xml", {
+        schema: PET_SCHEMA,
+      }),
+      '<?xml version="1.0" encoding="UTF-8"?><Pet id="7">' +
+        "<name>Tom &amp; Jerry</name>" +
+        "<tags><tag>cat</tag><tag>mouse</tag></tags></Pet>"
+    );
+  });
+
+  it("sends text as given", async () => {
+    assert.equal(await serializeRequestBody("a,b\n", "text/csv"), "a,b\n");
+    assert.equal(await serializeRequestBody(42, "text/plain"), "42");
+  });
+});
+
+describe("multipart bodies", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "multipart-"));
+  const photo = path.join(dir, "photo.png");
+  fs.writeFileSync(photo, "png bytes");
+  const media = {
+    schema: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        photo: { type: "string", format: "binary" },
+        attachments: { type: "array", items: { type: "string" } },
+        meta: { type: "object" },
+      },
+    },
+    encoding: { meta: { contentType: "application/json" } },
+  };
+
+  it("uploads binary fields and file references as files", async () => {
+    const body = await serializeRequestBody(
+      {
+        name: "Tom",
+        photo,
+        attachments: [
+          { path: photo, filename: "a.txt", contentType: "text/x" },
+        ],
+        meta: { age: 3 },
+      },
+      "multipart/form-data",
+      media
+    );
+    assert.ok(body instanceof FormData);
+    assert.deepEqual(await describeSerializedBody(body), {
+      multipart: [
+        { name: "name", value: "Tom" },
+        {
+          name: "photo",
+          contentType: "image/png",
+          size: 9,
+          filename: "photo.png",
+          path: photo,
+        },
+        {
+          name: "attachments",
+          contentType: "text/x",
+          size: 9,
+          filename: "a.txt",
+          path: photo,
+        },
+        {
+          name: "meta",
+          contentType: "application/json",
+          size: 9,
+          value: '{"age":3}',
+        },
+      ],
+    });
+  });
+
+  it("fails for files that do not exist", async () => {
+    await assert.rejects(
+      serializeRequestBody(
+        { photo: path.join(dir, "missing.png") },
+        "multipart/form-data",
+        media
+      ),
+      /File not found for multipart upload/
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_RETRY_POLICY,
+  maxAttemptsFor,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  retryDelayMs,
+  retryPolicyFromParams,
+} from "../src/utils/retry-policy.js";
+
+describe("resolveRetryPolicy", () => {
+  it("lets later policies override earlier ones field by field", () => {
+    const policy = resolveRetryPolicy(
+      { maxAttempts: 5, baseDelayMs: 100 },
+      undefined,
+      { maxAttempts: undefined, retryOnStatus: [503] }
+    );
+    assert.deepEqual(policy, {
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 5,
+      baseDelayMs: 100,
+      retryOnStatus: [503],
+    });
+  });
+
+  it("maps tool input onto the policy", () => {
+    assert.deepEqual(
+      retryPolicyFromParams({ max_attempts: 2, retry_non_idempotent: true }),
+      { maxAttempts: 2, retryNonIdempotent: true }
+    );
+    assert.equal(retryPolicyFromParams(undefined), undefined);
+  });
+});
+
+describe("maxAttemptsFor", () => {
+  it("sends non-idempotent requests once unless allowed", () => {
+    const policy = resolveRetryPolicy();
+    assert.equal(maxAttemptsFor(policy, "get"), 3);
+    assert.equal(maxAttemptsFor(policy, "POST"), 1);
+    const allowed = resolveRetryPolicy({ retryNonIdempotent: true });
+    assert.equal(maxAttemptsFor(allowed, "POST"), 3);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads delta-seconds and HTTP dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    assert.equal(parseRetryAfter("3", now), 3000);
+    assert.equal(parseRetryAfter("Mon, 01 Jan 2024 00:00:10 GMT", now), 10000);
+    assert.equal(parseRetryAfter("Sun, 31 Dec 2023 00:00:00 GMT", now), 0);
+    assert.equal(parseRetryAfter("soon", now), undefined);
+    assert.equal(parseRetryAfter(undefined, now), undefined);
+  });
+});
+
+describe("retryDelayMs", () => {
+  const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000 });
+
+  it("does not retry statuses outside the policy", () => {
+    assert.equal(retryDelayMs(policy, 1, { statusCode: 400 }), undefined);
+  });
+
+  it("backs off exponentially up to the maximum delay", () => {
+    for (let i = 0; i < 20; i++) {
+      const first = retryDelayMs(policy, 1, { statusCode: 503 })!;
+      assert.ok(first >= 0 && first <= 100);
+      const late = retryDelayMs(policy, 10, {})!;
+      assert.ok(late >= 0 && late <= 1000);
+    }
+  });
+
+  it("honors Retry-After unless it is longer than the maximum", () => {
+    assert.equal(
+      retryDelayMs(policy, 1, { statusCode: 429, retryAfter: "1" }),
+      1000
+    );
+    assert.equal(
+      retryDelayMs(policy, 1, { statusCode: 429, retryAfter: "2" }),
+      undefined
+    );
+  });
+});
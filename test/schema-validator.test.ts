@@ -0,0 +1,273 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ApiCallResult, OperationInfo } from "../src/types/index.js";
+import {
+  checkResponseContract,
+  schemaValidator,
+  validateRequest,
+} from "../src/utils/schema-validator.js";
+
+const ITEM = {
+  type: "object",
+  required: ["id", "name"],
+  properties: {
+    id: { type: "integer", readOnly: true },
+    name: { type: "string", minLength: 1 },
+    status: { type: "string", enum: ["open", "closed"] },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  additionalProperties: false,
+};
+
+const CREATE_ITEM: OperationInfo = {
+  operationId: "createItem",
+  path: "/items",
+  method: "POST",
+  parameters: [
+    {
+      name: "limit",
+      in: "query",
+      required: false,
+      schema: { type: "integer", maximum: 100 },
+    },
+  ],
+  requestBody: {
+    required: true,
+    contentType: "application/json",
+    schema: ITEM,
+    content: {
+      "application/json": { schema: ITEM },
+      "application/x-www-form-urlencoded": {
+        schema: {
+          type: "object",
+          properties: { count: { type: "integer" } },
+        },
+      },
+    },
+  },
+};
+
+describe("validateRequest", () => {
+  it("reports each problem with a readable path", () => {
+    const issues = validateRequest(
+      CREATE_ITEM,
+      {
+        limit: "500",
+        body: { name: "", status: "archived", tags: ["a", 2], extra: true },
+      },
+      undefined,
+      "openapi-3.0"
+    );
+    assert.deepEqual(issues, [
+      { path: "limit", message: "must be <= 100" },
+      {
+        path: "body.extra",
+        message: "is not allowed (additionalProperties: false)",
+      },
+      { path: "body.name", message: "must NOT have fewer than 1 characters" },
+      { path: "body.status", message: 'must be one of: "open", "closed"' },
+      { path: "body.tags[1]", message: "must be string" },
+    ]);
+  });
+
+  it("does not require readOnly properties in requests", () => {
+    assert.deepEqual(
+      validateRequest(
+        CREATE_ITEM,
+        { body: { name: "n" } },
+        undefined,
+        "openapi-3.0"
+      ),
+      []
+    );
+  });
+
+  it("coerces form fields but not JSON bodies", () => {
+    assert.deepEqual(
+      validateRequest(
+        CREATE_ITEM,
+        { body: { count: "3" } },
+        "application/x-www-form-urlencoded",
+        "openapi-3.0"
+      ),
+      []
+    );
+    assert.deepEqual(
+      validateRequest(
+        CREATE_ITEM,
+        { body: { name: 5 } },
+        "application/json",
+        "openapi-3.0"
+      ),
+      [{ path: "body.name", message: "must be string" }]
+    );
+  });
+});
+
+describe("SchemaValidator", () => {
+  it("applies OpenAPI 3.0 nullable and boolean exclusive bounds", () => {
+    const schema = {
+      type: "number",
+      nullable: true,
+      minimum: 0,
+      exclusiveMinimum: true,
+    };
+    const options = { dialect: "openapi-3.0", direction: "request" } as const;
+    assert.deepEqual(schemaValidator.validate(schema, null, "n", options), []);
+    assert.deepEqual(schemaValidator.validate(schema, 0, "n", options), [
+      { path: "n", message: "must be > 0" },
+    ]);
+  });
+
+  it("uses JSON Schema 2020-12 for OpenAPI 3.1", () => {
+    const schema = { type: ["number", "null"], exclusiveMinimum: 1 };
+    const options = { dialect: "openapi-3.1", direction: "request" } as const;
+    assert.deepEqual(schemaValidator.validate(schema, null, "v", options), []);
+    assert.deepEqual(schemaValidator.validate(schema, 1, "v", options), [
+      { path: "v", message: "must be > 1" },
+    ]);
+  });
+
+  it("checks OpenAPI integer formats", () => {
+    const options = { dialect: "openapi-3.0", direction: "request" } as const;
+    assert.deepEqual(
+      schemaValidator.validate(
+        { type: "integer", format: "int32" },
+        2 ** 31,
+        "n",
+        options
+      ),
+      [{ path: "n", message: 'must match format "int32"' }]
+    );
+  });
+});
+
+const GET_ITEM: OperationInfo = {
+  operationId: "getItem",
+  path: "/items/{id}",
+  method: "GET",
+  responses: {
+    "200": {
+      description: "The item",
+      content: { "application/json": { schema: { ...ITEM } } },
+    },
+    "204": { description: "Nothing to show" },
+    "4XX": {
+      description: "Client error",
+      content: {
+        "application/problem+json": {
+          schema: {
+            type: "object",
+            properties: { title: { type: "string" } },
+          },
+        },
+      },
+    },
+  },
+};
+
+function response(
+  statusCode: number,
+  contentType: string | undefined,
+  data: any
+): ApiCallResult {
+  return {
+    success: statusCode < 400,
+    statusCode,
+    executionTime: 1,
+    headers: contentType ? { "content-type": contentType } : {},
+    data,
+  };
+}
+
+describe("checkResponseContract", () => {
+  it("matches statuses exactly, then by range", () => {
+    const report = checkResponseContract(
+      GET_ITEM,
+      response(404, "application/problem+json", { title: "Not found" }),
+      "openapi-3.0"
+    );
+    assert.deepEqual(report, {
+      statusCode: 404,
+      documentedAs: "4XX",
+      contentType: "application/problem+json",
+      issues: [],
+      undocumentedFields: [],
+    });
+  });
+
+  it("reports undocumented statuses and content types", () => {
+    assert.deepEqual(
+      checkResponseContract(
+        GET_ITEM,
+        response(500, undefined, ""),
+        "openapi-3.0"
+      )?.issues,
+      [
+        {
+          path: "status",
+          message:
+            "500 is not a documented response (documented: 200, 204, 4XX)",
+        },
+      ]
+    );
+    assert.deepEqual(
+      checkResponseContract(
+        GET_ITEM,
+        response(200, "text/html", "<html></html>"),
+        "openapi-3.0"
+      )?.issues,
+      [
+        {
+          path: "content-type",
+          message:
+            "text/html is not documented for 200 (documented: application/json)",
+        },
+      ]
+    );
+  });
+
+  it("validates the body against the documented schema", () => {
+    const report = checkResponseContract(
+      GET_ITEM,
+      response(200, "application/json; charset=utf-8", {
+        id: 1,
+        status: "gone",
+      }),
+      "openapi-3.0"
+    );
+    assert.deepEqual(report?.issues, [
+      { path: "response.name", message: "is required" },
+      { path: "response.status", message: 'must be one of: "open", "closed"' },
+    ]);
+  });
+
+  it("lists fields the schema does not declare", () => {
+    const report = checkResponseContract(
+      GET_ITEM,
+      response(404, "application/problem+json", {
+        title: "Not found",
+        detail: { traceId: "t" },
+      }),
+      "openapi-3.0"
+    );
+    assert.deepEqual(report?.issues, []);
+    assert.deepEqual(report?.undocumentedFields, ["response.detail"]);
+  });
+
+  it("flags bodies on responses documented as empty", () => {
+    assert.deepEqual(
+      checkResponseContract(
+        GET_ITEM,
+        response(204, "application/json", {}),
+        "openapi-3.0"
+      )?.issues,
+      [
+        {
+          path: "response",
+          message: "has a body but the 204 response documents none",
+        },
+      ]
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import {
+  checkSecretReferences,
+  describeSecret,
+  hasSecretReference,
+  resolveSecretReferences,
+  resolveSecretValue,
+} from "../src/utils/secret-refs.js";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "secret-refs-"));
+const tokenFile = path.join(dir, "token");
+fs.writeFileSync(tokenFile, "t0ken\n");
+process.env.TEST_SECRET_USER = "me";
+
+describe("resolveSecretValue", () => {
+  it("resolves env and file references inside a value", async () => {
+    const value = `\${env:TEST_SECRET_USER}:\${file:${tokenFile}}`;
+    assert.equal(await resolveSecretValue(value), "me:t0ken");
+    assert.equal(await resolveSecretValue("plain"), "plain");
+  });
+
+  it("names the missing variable or file", async () => {
+    await assert.rejects(
+      resolveSecretValue("${env:TEST_SECRET_MISSING}"),
+      /Environment variable TEST_SECRET_MISSING .* is not set/
+    );
+    await assert.rejects(
+      resolveSecretValue(`\${file:${dir}/missing}`),
+      /Cannot read secret file .*missing/
+    );
+  });
+});
+
+describe("resolveSecretReferences", () => {
+  it("resolves each scheme, leaving the stored config as is", async () => {
+    const stored = {
+      type: "bearer" as const,
+      config: { token: "${env:TEST_SECRET_USER}" },
+      schemes: {
+        ApiKey: {
+          type: "apiKey" as const,
+          config: { apiKey: `\${file:${tokenFile}}` },
+        },
+      },
+    };
+    const resolved = await resolveSecretReferences(stored);
+    assert.equal(resolved.config.token, "me");
+    assert.equal(resolved.schemes?.ApiKey.config.apiKey, "t0ken");
+    assert.equal(stored.config.token, "${env:TEST_SECRET_USER}");
+  });
+});
+
+describe("checkSecretReferences", () => {
+  it("lists the references that do not resolve", async () => {
+    assert.deepEqual(
+      await checkSecretReferences({
+        username: "${env:TEST_SECRET_USER}",
+        password: "${env:TEST_SECRET_MISSING}",
+        literal: "hunter2",
+      }),
+      [
+        "Environment variable TEST_SECRET_MISSING referenced in the auth config is not set",
+      ]
+    );
+  });
+});
+
+describe("describeSecret", () => {
+  it("shows references but masks literal secrets", () => {
+    assert.equal(hasSecretReference("${env:X}"), true);
+    assert.equal(
+      describeSecret("${env:X}"),
+      "`${env:X}` (resolved per request)"
+    );
+    assert.equal(describeSecret("sk_live_12345678"), "`sk_live_...` (masked)");
+  });
+});
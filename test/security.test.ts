@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import type {
+  OperationInfo,
+  SecurityRequirement,
+  SecuritySchemeInfo,
+} from "../src/types/index.js";
+
+// Security helpers load the sessions from the home directory
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), "security-"));
+const { apiKeyNames, applyAuthentication, describeScheme } = await import(
+  "../src/utils/security.js"
+);
+
+const API_KEY: SecuritySchemeInfo = {
+  name: "ApiKeyAuth",
+  type: "apiKey",
+  in: "query",
+  paramName: "api_key",
+};
+const TENANT: SecuritySchemeInfo = {
+  name: "TenantAuth",
+  type: "apiKey",
+  in: "header",
+  paramName: "X-Tenant",
+};
+const BEARER: SecuritySchemeInfo = {
+  name: "BearerAuth",
+  type: "http",
+  scheme: "bearer",
+  bearerFormat: "JWT",
+};
+
+function operation(...security: SecurityRequirement[]): OperationInfo {
+  return { operationId: "getItems", path: "/items", method: "GET", security };
+}
+
+function requirement(...schemes: SecuritySchemeInfo[]): SecurityRequirement {
+  return schemes.map((scheme) => ({ scheme, scopes: [] }));
+}
+
+describe("applyAuthentication", () => {
+  it("applies the first requirement the credentials satisfy", () => {
+    const headers: Record<string, string> = {};
+    const url = applyAuthentication(
+      "https://api.example.com/items?page=2",
+      headers,
+      operation(requirement(API_KEY, TENANT), requirement(BEARER)),
+      { type: "bearer", config: { token: "t0ken" } }
+    );
+    assert.equal(url, "https://api.example.com/items?page=2");
+    assert.deepEqual(headers, { Authorization: "Bearer t0ken" });
+  });
+
+  it("sends every scheme of a requirement from `schemes`", () => {
+    const headers: Record<string, string> = {};
+    const url = applyAuthentication(
+      "https://api.example.com/items",
+      headers,
+      operation(requirement(API_KEY, TENANT)),
+      {
+        type: "bearer",
+        config: {},
+        schemes: {
+          ApiKeyAuth: { type: "apiKey", config: { apiKey: "k3y" } },
+          TenantAuth: { type: "apiKey", config: { apiKey: "acme" } },
+        },
+      }
+    );
+    assert.equal(url, "https://api.example.com/items?api_key=k3y");
+    assert.deepEqual(headers, { "X-Tenant": "acme" });
+  });
+
+  it("sends nothing to operations with `security: []`", () => {
+    const headers: Record<string, string> = {};
+    applyAuthentication(
+      "https://api.example.com/health",
+      headers,
+      operation(),
+      { type: "bearer", config: { token: "t0ken" } }
+    );
+    assert.deepEqual(headers, {});
+  });
+
+  it("falls back to the configured credential", () => {
+    const headers: Record<string, string> = {};
+    applyAuthentication(
+      "https://api.example.com/items",
+      headers,
+      operation(requirement(API_KEY)),
+      { type: "basic", config: { username: "me", password: "pw" } }
+    );
+    assert.deepEqual(headers, { Authorization: "Basic bWU6cHc=" });
+  });
+});
+
+describe("apiKeyNames", () => {
+  it("includes the API key names the operation's schemes use", () => {
+    assert.deepEqual(
+      apiKeyNames(
+        { type: "apiKey", config: { in: "header", headerName: "X-Key" } },
+        operation(requirement(API_KEY, TENANT))
+      ),
+      ["X-Key", "api_key", "X-Tenant"]
+    );
+  });
+});
+
+describe("describeScheme", () => {
+  it("summarizes each scheme type", () => {
+    assert.equal(describeScheme(API_KEY), "API key in query `api_key`");
+    assert.equal(describeScheme(BEARER), "HTTP bearer (JWT)");
+    assert.equal(
+      describeScheme({
+        name: "OAuth",
+        type: "oauth2",
+        flows: { clientCredentials: { tokenUrl: "/token", scopes: {} } },
+      }),
+      "OAuth2 (clientCredentials)"
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import type { HistoryEntry, OperationInfo } from "../src/types/index.js";
+import {
+  createHistoryEntry,
+  mergeReplayParameters,
+} from "../src/utils/call-history.js";
+
+// Sessions are kept in the home directory
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), "sessions-"));
+const { SessionManager } = await import("../src/utils/session-manager.js");
+const sessionFile = path.join(
+  process.env.HOME,
+  ".openapi-client-mcp",
+  "sessions.json"
+);
+
+const LOGIN: OperationInfo = {
+  operationId: "login",
+  path: "/auth/login",
+  method: "POST",
+};
+const PARAMETERS = {
+  body: { username: "me", password: "hunter2", value: "v" },
+  q: "x",
+};
+
+function recordLogin(): HistoryEntry {
+  return createHistoryEntry({
+    docsPath: "/specs/api.yaml",
+    operation: LOGIN,
+    baseUrl: "https://api.example.com",
+    parameters: PARAMETERS,
+    result: {
+      success: true,
+      statusCode: 200,
+      executionTime: 5,
+      data: { token: "eyJ.secret", user: { name: "me" } },
+      request: {
+        method: "POST",
+        url: "https://api.example.com/auth/login",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(PARAMETERS.body),
+      },
+    },
+  });
+}
+
+describe("call history", () => {
+  it("keeps secrets out of sessions.json but replays them", () => {
+    const sessions = new SessionManager();
+    const session = sessions.createSession("https://api.example.com");
+    const entry = recordLogin();
+    sessions.addHistoryEntry(session.id, entry);
+
+    const written = fs.readFileSync(sessionFile, "utf8");
+    assert.doesNotMatch(written, /hunter2|eyJ\.secret/);
+    const stored: HistoryEntry =
+      JSON.parse(written).sessions[session.id].history[0];
+    assert.deepEqual(stored.parameters, {
+      body: { username: "me", password: "****", value: "v" },
+      q: "x",
+    });
+    assert.equal(stored.replayParameters, undefined);
+    assert.match(stored.request!.body!, /"password":"\*\*\*\*"/);
+    assert.match(stored.response!, /"token": "\*\*\*\*"/);
+
+    const reloaded = new SessionManager().getHistoryEntry(session.id, entry.id);
+    assert.deepEqual(reloaded?.replayParameters, PARAMETERS);
+  });
+
+  it("moves replay parameters into the store", () => {
+    const sessions = new SessionManager();
+    const session = sessions.createSession("https://legacy.example.com");
+    const entry = recordLogin();
+    const data = JSON.parse(fs.readFileSync(sessionFile, "utf8"));
+    data.sessions[session.id].history = [
+      { ...entry, replayParameters: PARAMETERS },
+    ];
+    fs.writeFileSync(sessionFile, JSON.stringify(data));
+
+    const reloaded = new SessionManager().getHistoryEntry(session.id, entry.id);
+    assert.deepEqual(reloaded?.replayParameters, PARAMETERS);
+    assert.doesNotMatch(fs.readFileSync(sessionFile, "utf8"), /hunter2/);
+    assert.deepEqual(
+      new SessionManager().getHistoryEntry(session.id, entry.id)
+        ?.replayParameters,
+      PARAMETERS
+    );
+  });
+});
+
+describe("mergeReplayParameters", () => {
+  it("merges body overrides field by field", () => {
+    assert.deepEqual(
+      mergeReplayParameters(
+        { body: { user: { name: "me", roles: ["a"] }, note: "n" }, q: "x" },
+        { body: { user: { roles: ["b"] } }, q: "y" }
+      ),
+      { body: { user: { name: "me", roles: ["b"] }, note: "n" }, q: "y" }
+    );
+  });
+
+  it("replaces bodies that are not objects", () => {
+    assert.deepEqual(
+      mergeReplayParameters({ body: "raw", q: "x" }, { body: { a: 1 } }),
+      { body: { a: 1 }, q: "x" }
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { signSigV4Request } from "../src/utils/sigv4.js";
+
+// Cases from the AWS Signature Version 4 test suite, which all sign as
+// AKIDEXAMPLE for service "service" in us-east-1 at 20150830T123600Z
+const CONFIG = {
+  accessKeyId: "AKIDEXAMPLE",
+  secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+  region: "us-east-1",
+  service: "service",
+};
+const NOW = new Date("2015-08-30T12:36:00Z");
+const SCOPE = "AKIDEXAMPLE/20150830/us-east-1/service/aws4_request";
+
+function authorization(signedHeaders: string, signature: string): string {
+  return `AWS4-HMAC-SHA256 Credential=${SCOPE}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+describe("signSigV4Request", () => {
+  it("signs get-vanilla", () => {
+    const headers = signSigV4Request(
+      { method: "GET", url: "https://example.amazonaws.com/", headers: {} },
+      CONFIG,
+      NOW
+    );
+    assert.equal(headers["X-Amz-Date"], "20150830T123600Z");
+    assert.equal(
+      headers["Authorization"],
+      authorization(
+        "host;x-amz-date",
+        "5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31"
+      )
+    );
+  });
+
+  it("signs get-vanilla-query-order-key-case", () => {
+    const headers = signSigV4Request(
+      {
+        method: "GET",
+        url: "https://example.amazonaws.com/?Param2=value2&Param1=value1",
+        headers: {},
+      },
+      CONFIG,
+      NOW
+    );
+    assert.equal(
+      headers["Authorization"],
+      authorization(
+        "host;x-amz-date",
+        "b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500"
+      )
+    );
+  });
+
+  it("signs post-x-www-form-urlencoded", () => {
+    const headers = signSigV4Request(
+      {
+        method: "POST",
+        url: "https://example.amazonaws.com/",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: "Param1=value1",
+      },
+      CONFIG,
+      NOW
+    );
+    assert.equal(
+      headers["Authorization"],
+      authorization(
+        "content-type;host;x-amz-date",
+        "ff11897932ad3f4e8b18135d722051e5ac45fc38421b1da7b9d196a0fe09473a"
+      )
+    );
+  });
+
+  it("signs get-relative like get-vanilla", () => {
+    const headers = signSigV4Request(
+      {
+        method: "GET",
+        url: "https://example.amazonaws.com/example/..",
+        headers: {},
+      },
+      CONFIG,
+      NOW
+    );
+    assert.equal(
+      headers["Authorization"],
+      authorization(
+        "host;x-amz-date",
+        "5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31"
+      )
+    );
+  });
+
+  it("adds the security token of temporary credentials", () => {
+    const headers = signSigV4Request(
+      { method: "GET", url: "https://example.amazonaws.com/", headers: {} },
+      { ...CONFIG, sessionToken: "session-token" },
+      NOW
+    );
+    assert.equal(headers["X-Amz-Security-Token"], "session-token");
+    assert.match(
+      headers["Authorization"],
+      /SignedHeaders=host;x-amz-date;x-amz-security-token,/
+    );
+  });
+});
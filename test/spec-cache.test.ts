@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import type { ApiInfo } from "../src/types/index.js";
+import { SpecCache } from "../src/utils/spec-cache.js";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "spec-cache-"));
+const docsPath = path.join(dir, "api.yaml");
+const schemaPath = path.join(dir, "schemas", "pet.yaml");
+
+function spec(title: string): string {
+  return `openapi: 3.0.3
+info: {title: ${title}, version: "1"}
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      responses:
+        "200":
+          description: ok
+          content:
+            application/json:
+              schema: {$ref: "./schemas/pet.yaml"}
+`;
+}
+
+function petProperties(apiInfo: ApiInfo | null): string[] {
+  const [operation] = apiInfo!.operations;
+  const schema = operation.responses!["200"].schema;
+  return Object.keys(schema.properties);
+}
+
+fs.mkdirSync(path.dirname(schemaPath));
+fs.writeFileSync(docsPath, spec("Pets"));
+fs.writeFileSync(schemaPath, "type: object\nproperties: {name: {}}\n");
+
+describe("SpecCache with local files", () => {
+  const cache = new SpecCache();
+
+  it("parses once while nothing changes", async () => {
+    const first = await cache.getApiInfo(docsPath);
+    assert.equal(first?.title, "Pets");
+    assert.deepEqual(petProperties(first), ["name"]);
+    assert.equal(await cache.getApiInfo(docsPath), first);
+    assert.equal(cache.has(docsPath), true);
+  });
+
+  it("keeps files touched without changes", async () => {
+    const cached = await cache.getApiInfo(docsPath);
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(docsPath, later, later);
+    fs.utimesSync(schemaPath, later, later);
+    assert.equal(await cache.getApiInfo(docsPath), cached);
+  });
+
+  it("re-parses when a $ref target changes", async () => {
+    fs.writeFileSync(
+      schemaPath,
+      "type: object\nproperties: {name: {}, age: {}}\n"
+    );
+    assert.deepEqual(petProperties(await cache.getApiInfo(docsPath)), [
+      "name",
+      "age",
+    ]);
+  });
+
+  it("re-parses when the document changes", async () => {
+    fs.writeFileSync(docsPath, spec("Pet Store"));
+    assert.equal((await cache.getApiInfo(docsPath))?.title, "Pet Store");
+  });
+
+  it("re-parses on force refresh", async () => {
+    const cached = await cache.getApiInfo(docsPath);
+    const refreshed = await cache.getApiInfo(docsPath, {
+      forceRefresh: true,
+    });
+    assert.notEqual(refreshed, cached);
+    assert.deepEqual(refreshed, cached);
+  });
+
+  it("forgets documents that were removed", async () => {
+    const gone = path.join(dir, "gone.yaml");
+    fs.writeFileSync(gone, spec("Gone"));
+    assert.equal((await cache.getApiInfo(gone))?.title, "Gone");
+    fs.rmSync(gone);
+    assert.equal(await cache.getApiInfo(gone), null);
+    assert.equal(cache.has(gone), false);
+  });
+});
+
+describe("SpecCache with remote documents", () => {
+  it("revalidates with the ETag", async () => {
+    const requests: http.IncomingHttpHeaders[] = [];
+    const server = http.createServer((request, response) => {
+      requests.push(request.headers);
+      if (request.headers["if-none-match"] === '"v1"') {
+        response.writeHead(304);
+        response.end();
+        return;
+      }
+      response.writeHead(200, {
+        "Content-Type": "application/yaml",
+        ETag: '"v1"',
+      });
+      response.end(
+        'openapi: 3.0.3\ninfo: {title: Remote, version: "1"}\npaths: {}\n'
+      );
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    try {
+      const cache = new SpecCache();
+      const first = await cache.getApiInfo(url);
+      assert.equal(first?.title, "Remote");
+      assert.equal(await cache.getApiInfo(url), first);
+      assert.equal(requests.length, 2);
+      assert.equal(requests[1]["if-none-match"], '"v1"');
+    } finally {
+      server.close();
+    }
+  });
+});